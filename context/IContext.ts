@@ -45,7 +45,24 @@ export interface IContext {
      * If not provided, no test subscriber Lambda will be created,
      */
     subscriberForTesting?: LambdaConfig;
+
+    /**
+     * Optional configuration for the scheduled sweeper that processes files the event processor never saw,
+     * e.g. because an S3 event was lost. The sweeper is always created, with defaults if not provided.
+     */
+    sweeper?: SweeperConfig;
   };
+
+  /**
+   * Optional alarm configuration. Alarms and the dashboard are always created.
+   */
+  MONITORING?: MonitoringConfig;
+
+  /**
+   * Optional upload-token endpoint issuing short-lived pre-signed uploads, as an alternative to the bucket access keys
+   * If not provided, no endpoint is created
+   */
+  UPLOAD_TOKENS?: UploadTokenConfig;
 }
 
 /**
@@ -58,6 +75,104 @@ export type BucketConfig = {
     username: string;
     secretArn: string;
   }
+
+  /**
+   * Grant the uploader (the bucket access keys user) read, write and delete access to every object in the bucket,
+   * and read access to the bucket's configuration, instead of only uploads to the configured subdirectories
+   * Opt-in for external systems that depend on the broad access granted by earlier versions
+   */
+  uploaderFullAccess?: boolean;
+
+  /**
+   * Optional named uploaders, each with its own IAM identity limited to its own subdirectories
+   * If omitted, a single uploader user may upload to every subdirectory
+   */
+  uploaders?: UploaderConfig[];
+
+  /**
+   * Optional schedule for rotating the access keys stored in the secret
+   * Rotation is always enabled, these only tune it
+   */
+  accessKeyRotation?: AccessKeyRotationConfig;
+
+  /**
+   * Optional customer-managed KMS key the bucket encrypts objects with by default, instead of S3-managed keys
+   */
+  kms?: KmsConfig;
+}
+
+export type KmsConfig = {
+  /**
+   * Optional ARN of an existing key to import, otherwise a key is created (and retained on stack deletion)
+   * The policy of an imported key is not managed by the stack, and must grant the subscriber roles kms:Decrypt itself
+   */
+  keyArn?: string;
+}
+
+export type UploaderConfig = {
+  /**
+   * Name of the uploader, used in the names of its resources and recorded with every file it drops
+   * Lowercase letters, digits and hyphens. Example: "hr-system"
+   */
+  name: string;
+
+  /**
+   * Paths of the subdirectories the uploader may write to
+   * Files it drops anywhere else are moved to {subfolder}/errors/
+   */
+  subdirectories: string[];
+
+  /**
+   * Optional CIDR ranges uploads must come from, any S3 request from elsewhere is denied
+   * Example: ["203.0.113.0/24"]
+   */
+  allowedIpRanges?: string[];
+
+  /**
+   * Optional existing IAM user and secret to import instead of creating them, as BUCKET.access
+   */
+  access?: {
+    username: string;
+    secretArn: string;
+  };
+
+  /**
+   * Optional ARN of an existing IAM role in this account to grant the uploader's permissions to,
+   * instead of a user with access keys
+   */
+  roleArn?: string;
+
+  /**
+   * Optional partner accounts that upload by assuming a role created for the uploader,
+   * instead of a user with access keys
+   */
+  crossAccount?: CrossAccountConfig;
+}
+
+export type CrossAccountConfig = {
+  /**
+   * ARNs of the partner principals allowed to assume the role
+   * Example: ["arn:aws:iam::111122223333:root"]
+   */
+  principalArns: string[];
+
+  /**
+   * External id the partner must pass when assuming the role, agreed with the partner
+   */
+  externalId: string;
+}
+
+export type AccessKeyRotationConfig = {
+  /**
+   * Days between rotations, default 90
+   */
+  automaticallyAfterDays?: number;
+
+  /**
+   * Hours the previous access key keeps working after a rotation, so external systems can pick up the new one,
+   * default 24. Must be shorter than the rotation interval.
+   */
+  gracePeriodHours?: number;
 }
 
 export type LambdaConfig = {
@@ -72,6 +187,195 @@ export type LambdaConfig = {
   memorySizeMb?: number;
 }
 
+export type SweeperConfig = LambdaConfig & {
+  /**
+   * Minutes between sweeps, default 15
+   */
+  intervalMinutes?: number;
+
+  /**
+   * Minutes a file must have sat unprocessed before the sweeper picks it up, default 60.
+   * Keep it well above the time the event processor needs, so files still in flight are left to it.
+   */
+  minAgeMinutes?: number;
+}
+
+export type MonitoringConfig = {
+  /**
+   * ARN of an existing SNS topic that alarms notify, e.g. one subscribed to by the on-call channel
+   * If omitted, the stack creates a topic to subscribe to
+   */
+  alarmTopicArn?: string;
+
+  /**
+   * Event processor duration (p99 over 5 minutes) above which the processing latency alarm fires
+   * Defaults to 80% of the event processor timeout
+   */
+  processingLatencyThresholdSeconds?: number;
+}
+
+export type UploadTokenConfig = {
+  /**
+   * Seconds a pre-signed URL or POST policy stays valid, default 900, at most 3600
+   */
+  expiresInSeconds?: number;
+
+  /**
+   * Largest upload allowed, in bytes, default and at most 5 GiB (the largest single PUT S3 accepts)
+   */
+  maxSizeBytes?: number;
+
+  /**
+   * Content types uploads may declare
+   * Defaults to application/json, application/x-ndjson, text/csv and application/gzip
+   */
+  contentTypes?: string[];
+}
+
+export type ManifestConfig = {
+  /**
+   * Minutes to wait for a manifest before held parts are moved to {subfolder}/errors/
+   */
+  timeoutMinutes: number;
+}
+
+export type InputFormat = 'json' | 'ndjson' | 'csv' | 'gzip';
+
+/**
+ * How Lambda subscribers are invoked
+ * - Event: asynchronous, the processor only learns whether the invocation was accepted
+ * - RequestResponse: synchronous, the processor waits for the subscriber and treats a function error,
+ *   or a returned statusCode of 400 or above, as a failure
+ */
+export type InvocationMode = 'Event' | 'RequestResponse';
+
+export type LambdaSubscriberConfig = {
+  type?: 'lambda';
+
+  /**
+   * Lambda function ARN to invoke after successful processing
+   */
+  lambdaArn: string;
+
+  /**
+   * Execution role ARN of the subscriber Lambda function
+   * Used to grant S3 bucket read permissions via bucket policy
+   */
+  executionRoleArn: string;
+}
+
+export type SqsSubscriberConfig = {
+  type: 'sqs';
+
+  /**
+   * ARN of the queue the payload is sent to as a message
+   */
+  queueArn: string;
+
+  /**
+   * Optional role of the queue consumer, granted S3 bucket read permissions via bucket policy
+   */
+  executionRoleArn?: string;
+}
+
+export type SnsSubscriberConfig = {
+  type: 'sns';
+
+  /**
+   * ARN of the topic the payload is published to
+   */
+  topicArn: string;
+
+  /**
+   * Optional role of the topic's consumer, granted S3 bucket read permissions via bucket policy
+   */
+  executionRoleArn?: string;
+}
+
+export type EventBridgeSubscriberConfig = {
+  type: 'eventbridge';
+
+  /**
+   * ARN of the event bus the payload is put on, as the event detail
+   */
+  eventBusArn: string;
+
+  /**
+   * Event source, defaults to "file-drop"
+   */
+  source?: string;
+
+  /**
+   * Event detail type, defaults to "File Dropped"
+   */
+  detailType?: string;
+
+  /**
+   * Optional role of the rule target, granted S3 bucket read permissions via bucket policy
+   */
+  executionRoleArn?: string;
+}
+
+export type StepFunctionsSubscriberConfig = {
+  type: 'stepfunctions';
+
+  /**
+   * ARN of the state machine an execution is started on, with the payload as input
+   */
+  stateMachineArn: string;
+
+  /**
+   * Optional execution role of the state machine, granted S3 bucket read permissions via bucket policy
+   */
+  executionRoleArn?: string;
+}
+
+export type WebhookSubscriberConfig = {
+  type: 'webhook';
+
+  /**
+   * HTTPS endpoint the payload is POSTed to
+   */
+  url: string;
+
+  /**
+   * ARN of a Secrets Manager secret holding the key used to sign requests
+   * Each request carries an "X-Signature-256: sha256={hex HMAC of timestamp.body}" header
+   * and the "X-Timestamp" it was signed with
+   */
+  signingSecretArn: string;
+}
+
+/**
+ * A target notified of every processed file in a subdirectory, with the same payload for every type
+ * "type" defaults to "lambda"
+ */
+export type SubscriberConfig =
+  | LambdaSubscriberConfig
+  | SqsSubscriberConfig
+  | SnsSubscriberConfig
+  | EventBridgeSubscriberConfig
+  | StepFunctionsSubscriberConfig
+  | WebhookSubscriberConfig;
+
+/**
+ * S3 storage classes a subdirectory's objects can transition to
+ * - STANDARD_IA: Standard-Infrequent Access, at least 30 days after upload
+ * - GLACIER_IR: Glacier Instant Retrieval
+ * - GLACIER: Glacier Flexible Retrieval, must be restored before it can be read
+ * - DEEP_ARCHIVE: Glacier Deep Archive, must be restored before it can be read
+ */
+export type TransitionStorageClass = 'STANDARD_IA' | 'GLACIER_IR' | 'GLACIER' | 'DEEP_ARCHIVE';
+
+export type LifecycleTransition = {
+  storageClass: TransitionStorageClass;
+
+  /**
+   * Days after upload the objects move to the storage class
+   */
+  afterDays: number;
+}
+
 export type BucketSubdirectory = {
   /**
    * Subdirectory where data files are expected to land
@@ -93,16 +397,136 @@ export type BucketSubdirectory = {
    */
   errorObjectLifetimeDays?: number;
 
+  /**
+   * Optional transitions of the subdirectory's objects to cheaper storage classes before they expire
+   * Enforced by the same lifecycle rule as objectLifetimeDays, each afterDays must be below it
+   * Archived drops (GLACIER, DEEP_ARCHIVE) can be restored and re-dispatched with the drop restore Lambda
+   * Example: [{ storageClass: "STANDARD_IA", afterDays: 30 }, { storageClass: "DEEP_ARCHIVE", afterDays: 90 }]
+   */
+  transitions?: LifecycleTransition[];
+
+  /**
+   * Optional name of a JSON Schema that files in this subdirectory must conform to
+   * Must match a schema registered in src/event-processor/schemas
+   * Malformed or non-conforming files are moved to {subfolder}/errors/ and never reach the subscriber
+   * Example: "person-envelope"
+   */
+  schema?: string;
+
+  /**
+   * Optional list of input formats accepted in this subdirectory
+   * When set, each drop is sniffed (content type, extension, magic bytes) and anything other than
+   * uncompressed JSON is converted into the canonical { requestId, timestamp, recordCount, rawData } envelope.
+   * The original upload is kept, renamed, next to the normalized output.
+   * "gzip" allows any of the accepted formats to arrive gzip-compressed.
+   * If omitted, files are passed to the subscriber as-is.
+   * Example: ["json", "ndjson", "csv", "gzip"]
+   */
+  inputFormats?: InputFormat[];
+
+  /**
+   * Optional multi-part drop protocol
+   * When set, files are held as parts until a "_manifest.json" listing the expected part keys,
+   * record counts and SHA-256 checksums arrives in the same folder. The parts are then verified,
+   * renamed, and the subscriber is invoked once with the whole set.
+   * Input format normalization does not apply to parts.
+   */
+  manifest?: ManifestConfig;
+
+  /**
+   * Optional number of hours during which a re-upload of identical content is treated as a duplicate
+   * When set, the SHA-256 of each new drop is recorded in a DynamoDB ledger. A drop whose content was
+   * already seen in this subdirectory within the window is renamed and tagged "duplicate-of", but the
+   * subscriber is not invoked again. Does not apply to multi-part drops.
+   * Example: 24
+   */
+  duplicateWindowHours?: number;
+
+  /**
+   * Optional number of hours without a new file after which the subdirectory's staleness alarm fires
+   * Use for feeds expected on a schedule, e.g. a nightly full extract. At most 168 (one week).
+   * Example: 26
+   */
+  staleAfterHours?: number;
+
+  /**
+   * Optional read-back of this subdirectory for the uploader (the bucket access keys user)
+   * When true, the uploader may list and download objects under {path}/, including its renamed drops and errors/
+   * By default it may only upload
+   */
+  uploaderCanRead?: boolean;
+
   /**
    * Lambda function ARN to invoke after successful processing
    * Used by event processor to trigger the subscriber Lambda
+   * Shorthand for a single entry in subscribers, may be combined with it
    */
-  subscriberLambdaArn: string;
+  subscriberLambdaArn?: string;
 
   /**
    * Execution role ARN of the subscriber Lambda function
    * Used to grant S3 bucket read permissions via bucket policy
+   * Required when subscriberLambdaArn is set
    * Example: "arn:aws:iam::123456789012:role/data-processor-role"
    */
-  subscriberLambdaExecutionRoleArn: string;
-}
\ No newline at end of file
+  subscriberLambdaExecutionRoleArn?: string;
+
+  /**
+   * Subscribers to notify after successful processing: Lambda functions, SQS queues, SNS topics,
+   * EventBridge buses, Step Functions state machines or signed HTTPS webhooks
+   * Every subscriber is invoked for every file. A subscriber that fails is retried on its own,
+   * and the file is only moved to {subfolder}/errors/ if no subscriber could be invoked.
+   */
+  subscribers?: SubscriberConfig[];
+
+  /**
+   * Optional invocation mode for Lambda subscribers, defaults to "Event"
+   * With "RequestResponse", failed invocations are retried with exponential backoff and the file is moved
+   * to {subfolder}/errors/ with the subscriber's error message once retries run out. Subscribers must then
+   * finish within the event processor's timeout. Other target types are always notified asynchronously.
+   */
+  invocationMode?: InvocationMode;
+}
+
+/**
+ * All subscribers of a subdirectory, from both the subscribers list and the single-subscriber shorthand
+ */
+export const getSubscribers = (subdirectory: BucketSubdirectory): SubscriberConfig[] => {
+  const { subscriberLambdaArn, subscriberLambdaExecutionRoleArn, subscribers = [] } = subdirectory;
+  if (!subscriberLambdaArn) {
+    return subscribers;
+  }
+  return [
+    { type: 'lambda', lambdaArn: subscriberLambdaArn, executionRoleArn: subscriberLambdaExecutionRoleArn! },
+    ...subscribers.filter(subscriber => getSubscriberTarget(subscriber) !== subscriberLambdaArn)
+  ];
+}
+
+/**
+ * The ARN (or URL, for webhooks) a subscriber is notified at
+ */
+export const getSubscriberTarget = (subscriber: SubscriberConfig): string => {
+  switch (subscriber.type) {
+    case 'sqs': return subscriber.queueArn;
+    case 'sns': return subscriber.topicArn;
+    case 'eventbridge': return subscriber.eventBusArn;
+    case 'stepfunctions': return subscriber.stateMachineArn;
+    case 'webhook': return subscriber.url;
+    default: return subscriber.lambdaArn;
+  }
+}
+
+/**
+ * Name of a resource of an uploader: {STACK_ID}-{uploader}-{kind}-{Landscape},
+ * or {STACK_ID}-{kind}-{Landscape} for the single uploader of stacks without BUCKET.uploaders
+ */
+export const getUploaderResourceName = (context: IContext, kind: string, uploader?: UploaderConfig): string => {
+  const { STACK_ID, TAGS: { Landscape } } = context;
+  return uploader ? `${STACK_ID}-${uploader.name}-${kind}-${Landscape}` : `${STACK_ID}-${kind}-${Landscape}`;
+}
+
+/**
+ * Paths of the subdirectories an uploader may write to
+ */
+export const getUploaderSubdirectories = (context: IContext, uploader?: UploaderConfig): string[] =>
+  uploader ? uploader.subdirectories : context.BUCKET.subdirectories.map(sub => sub.path);
@@ -0,0 +1,89 @@
+import { Duration } from 'aws-cdk-lib';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { Effect, IUser, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+import { IContext, UploaderConfig, getUploaderResourceName } from '../context/IContext';
+
+export type AccessKeyRotationProps = {
+  context: IContext;
+  secret: ISecret;
+  user: IUser;
+
+  /**
+   * Named uploader the user belongs to, if any
+   */
+  uploader?: UploaderConfig;
+};
+
+const DEFAULT_ROTATION_DAYS = 90;
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+
+/**
+ * Rotates the bucket service user's access keys stored in the access keys secret.
+ *
+ * Responsibilities:
+ * - Secrets Manager rotation schedule, every BUCKET.accessKeyRotation.automaticallyAfterDays days,
+ *   running a Lambda that creates a new access key, tests it with STS and makes it current
+ * - Every hour, delete the previous access key once BUCKET.accessKeyRotation.gracePeriodHours have passed
+ */
+export class AccessKeyRotation extends Construct {
+  public readonly lambda: NodejsFunction;
+
+  constructor(scope: Construct, id: string, props: AccessKeyRotationProps) {
+    super(scope, id);
+
+    const { context, secret, user, uploader } = props;
+    const {
+      automaticallyAfterDays = DEFAULT_ROTATION_DAYS,
+      gracePeriodHours = DEFAULT_GRACE_PERIOD_HOURS
+    } = context.BUCKET.accessKeyRotation || {};
+
+    if (gracePeriodHours >= automaticallyAfterDays * 24) {
+      throw new Error('BUCKET.accessKeyRotation.gracePeriodHours must be shorter than the rotation interval');
+    }
+
+    this.lambda = new NodejsFunction(this, 'lambda-function', {
+      functionName: getUploaderResourceName(context, 'access-key-rotation', uploader),
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'src/access-key-rotation/index.ts',
+      timeout: Duration.minutes(2),
+      memorySize: 256,
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        USERNAME: user.userName,
+        SECRET_ARN: secret.secretArn,
+        GRACE_PERIOD_HOURS: `${gracePeriodHours}`
+      },
+      bundling: {
+        externalModules: [
+          '@aws-sdk/*',
+        ]
+      }
+    });
+
+    // Grant Lambda permission to manage the service user's access keys
+    this.lambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['iam:CreateAccessKey', 'iam:DeleteAccessKey', 'iam:ListAccessKeys'],
+      resources: [user.userArn]
+    }));
+
+    // Also grants the Lambda read and write access to the secret
+    secret.addRotationSchedule('rotation-schedule', {
+      rotationLambda: this.lambda,
+      automaticallyAfter: Duration.days(automaticallyAfterDays)
+    });
+
+    new Rule(this, 'schedule', {
+      description: 'Deletes the previous bucket access key once its grace period is over',
+      schedule: Schedule.rate(Duration.hours(1)),
+      targets: [new LambdaFunction(this.lambda)]
+    });
+  }
+}
@@ -1,40 +1,105 @@
 import { RemovalPolicy, SecretValue } from 'aws-cdk-lib';
-import { User, AccessKey, PolicyStatement, Effect, IUser } from 'aws-cdk-lib/aws-iam';
+import { User, AccessKey, PolicyStatement, Effect, IUser, IIdentity, IRole, Role, ArnPrincipal, CompositePrincipal } from 'aws-cdk-lib/aws-iam';
 import { Secret, ISecret } from 'aws-cdk-lib/aws-secretsmanager';
 import { Bucket } from 'aws-cdk-lib/aws-s3';
 import { Construct } from 'constructs';
-import { IContext } from '../context/IContext';
+import { IContext, UploaderConfig, getUploaderResourceName, getUploaderSubdirectories } from '../context/IContext';
+import { AccessKeyRotation } from './AccessKeyRotation';
 
 export type BucketAccessKeysProps = {
   context: IContext;
   bucket: Bucket;
+
+  /**
+   * Named uploader from BUCKET.uploaders
+   * If omitted, the single uploader of stacks without BUCKET.uploaders is created, allowed in every subdirectory
+   */
+  uploader?: UploaderConfig;
 };
 
 /**
- * Creates or imports IAM access keys for external systems to upload files to the file-drop bucket.
- * Stores credentials securely in AWS Secrets Manager.
+ * IAM identities of the named uploaders, which the event processor resolves the principal ids of S3 events against
+ * Existing roles keep their ARN, since their IAM path is not part of the role name
+ */
+export const getUploaderIdentities = (context: IContext): { name: string, subdirectories: string[], userName?: string, roleName?: string, roleArn?: string }[] =>
+  (context.BUCKET.uploaders || []).map(uploader => ({
+    name: uploader.name,
+    subdirectories: uploader.subdirectories,
+    ...(uploader.roleArn
+      ? { roleName: uploader.roleArn.split('/').pop()!, roleArn: uploader.roleArn }
+      : uploader.crossAccount
+        ? { roleName: getUploaderResourceName(context, 'uploader-role', uploader) }
+        : { userName: uploader.access?.username || getUploaderResourceName(context, 'service-user', uploader) })
+  }));
+
+/**
+ * Identities of the named uploaders as passed to Lambda functions via the UPLOADERS environment variable, without role ARNs
+ */
+export const getRuntimeUploaderIdentities = (context: IContext): { name: string, subdirectories: string[], userName?: string, roleName?: string }[] =>
+  getUploaderIdentities(context).map(({ roleArn, ...identity }) => identity);
+
+const UPLOADER_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const CROSS_ACCOUNT_EXTERNAL_ID_PATTERN = /^[\w+=,.@:\/-]{2,1224}$/;
+
+/**
+ * Creates or imports the IAM identity of an external system uploading files to the file-drop bucket.
+ * Stores access keys securely in AWS Secrets Manager.
  * 
  * Behavior:
- * - If context.BUCKET.access is defined: Imports existing User and Secret (for stack recreation)
- * - If context.BUCKET.access is undefined: Creates new User, AccessKey, and Secret with RETAIN policy
+ * - If the uploader has a roleArn: Grants the uploader's permissions to that existing role, no keys are created
+ * - If the uploader has crossAccount: Creates a role the partner accounts assume with the external id, no keys are created
+ * - If context.BUCKET.access (or the uploader's access) is defined: Imports existing User and Secret (for stack recreation)
+ * - Otherwise: Creates new User, AccessKey, and Secret with RETAIN policy
+ * - In both user cases, the access keys in the Secret are rotated on a schedule
  */
 export class BucketAccessKeys extends Construct {
-  public readonly secret: ISecret;
-  public readonly user: IUser;
+  public readonly identity: IIdentity;
+  public readonly user?: IUser;
+  public readonly role?: IRole;
+  public readonly secret?: ISecret;
   public readonly accessKey?: AccessKey;
+  public readonly rotation?: AccessKeyRotation;
 
   constructor(scope: Construct, id: string, props: BucketAccessKeysProps) {
     super(scope, id);
 
-    const { context, bucket } = props;
-    const { STACK_ID, TAGS: { Landscape } } = context;
+    const { context, bucket, uploader } = props;
+    const access = uploader ? uploader.access : context.BUCKET.access;
+
+    if (uploader) {
+      BucketAccessKeys.validateUploader(context, uploader);
+    }
+
+    if (uploader?.roleArn) {
+      console.log(`Granting uploader ${uploader.name} permissions to role: ${uploader.roleArn}`);
+
+      this.identity = Role.fromRoleArn(this, 'imported-role', uploader.roleArn);
+      this.applyBucketPolicies(bucket, context, uploader);
+      return;
+    }
+
+    if (uploader?.crossAccount) {
+      const { principalArns, externalId } = uploader.crossAccount;
+      console.log(`Creating cross-account role for uploader ${uploader.name}, assumable by: ${principalArns.join(', ')}`);
+
+      this.role = new Role(this, 'uploader-role', {
+        roleName: getUploaderResourceName(context, 'uploader-role', uploader),
+        description: `Assumed by partner accounts of uploader ${uploader.name} to upload to ${bucket.bucketName}`,
+        assumedBy: new CompositePrincipal(...principalArns.map(arn => new ArnPrincipal(arn))),
+        externalIds: [externalId]
+      });
+      this.identity = this.role;
+      this.applyBucketPolicies(bucket, context, uploader);
+      this.applyCrossAccountBucketPolicies(bucket, this.role);
+      return;
+    }
 
-    if (context.BUCKET.access) {
+    if (access) {
       // Import existing resources for stack recreation
-      console.log(`Importing existing IAM user: ${context.BUCKET.access.username}`);
+      console.log(`Importing existing IAM user: ${access.username}`);
       
-      this.user = User.fromUserName(this, 'imported-user', context.BUCKET.access.username);
-      this.secret = Secret.fromSecretCompleteArn(this, 'imported-secret', context.BUCKET.access.secretArn);
+      this.user = User.fromUserName(this, 'imported-user', access.username);
+      this.secret = Secret.fromSecretCompleteArn(this, 'imported-secret', access.secretArn);
       
       // Note: AccessKey already exists in AWS but we don't have a CDK reference to it
       // The credentials remain in the imported Secret
@@ -45,7 +110,7 @@ export class BucketAccessKeys extends Construct {
       console.log('Creating new IAM user and access keys');
       
       this.user = new User(this, 'bucket-service-user', {
-        userName: `${STACK_ID}-service-user-${Landscape}`
+        userName: getUploaderResourceName(context, 'service-user', uploader)
       });
       
       // Prevent deletion of user when stack is destroyed
@@ -61,8 +126,8 @@ export class BucketAccessKeys extends Construct {
 
       // Store credentials in Secrets Manager with RETAIN policy
       this.secret = new Secret(this, 'access-key-secret', {
-        secretName: `${STACK_ID}-bucket-access-keys-${Landscape}`,
-        description: `S3 access keys for external systems to upload to ${bucket.bucketName}`,
+        secretName: getUploaderResourceName(context, 'bucket-access-keys', uploader),
+        description: `S3 access keys for ${uploader ? `uploader ${uploader.name}` : 'external systems'} to upload to ${bucket.bucketName}`,
         secretObjectValue: {
           accessKeyId: SecretValue.unsafePlainText(this.accessKey.accessKeyId),
           secretAccessKey: this.accessKey.secretAccessKey,
@@ -75,18 +140,160 @@ export class BucketAccessKeys extends Construct {
       // Prevent deletion of secret when stack is destroyed
       this.secret.applyRemovalPolicy(RemovalPolicy.RETAIN);
     }
+    this.identity = this.user;
 
     // Apply bucket policies (works for both imported and newly created users)
-    this.applyBucketPolicies(bucket);
+    this.applyBucketPolicies(bucket, context, uploader);
+
+    // Rotate the access keys (works for both imported and newly created users)
+    this.rotation = new AccessKeyRotation(this, 'rotation', {
+      context,
+      secret: this.secret,
+      user: this.user,
+      uploader
+    });
+  }
+
+  private static validateUploader(context: IContext, uploader: UploaderConfig): void {
+    if (!UPLOADER_NAME_PATTERN.test(uploader.name)) {
+      throw new Error(`Uploader name "${uploader.name}" may only contain lowercase letters, digits and hyphens`);
+    }
+    if (uploader.subdirectories.length === 0) {
+      throw new Error(`Uploader ${uploader.name} must be allowed at least one subdirectory`);
+    }
+    const unknown = uploader.subdirectories.filter(path => !context.BUCKET.subdirectories.some(sub => sub.path === path));
+    if (unknown.length > 0) {
+      throw new Error(`Uploader ${uploader.name} refers to unknown subdirectories: ${unknown.join(', ')}`);
+    }
+    if ([uploader.roleArn, uploader.access, uploader.crossAccount].filter(Boolean).length > 1) {
+      throw new Error(`Uploader ${uploader.name} can only have one of roleArn, access and crossAccount`);
+    }
+    if (uploader.crossAccount) {
+      const { principalArns, externalId } = uploader.crossAccount;
+      if (principalArns.length === 0) {
+        throw new Error(`Uploader ${uploader.name} must trust at least one partner principal`);
+      }
+      if (!CROSS_ACCOUNT_EXTERNAL_ID_PATTERN.test(externalId)) {
+        throw new Error(`Uploader ${uploader.name} needs an external id of 2 to 1224 characters (letters, digits and +=,.@:/-)`);
+      }
+    }
+  }
+
+  /**
+   * Applies the uploader's S3 permissions, generated from its subdirectories:
+   * - Uploads, including multipart uploads, to {path}/ of each of them, but not to its errors/ folder
+   * - Listing and downloading {path}/ of those with uploaderCanRead
+   * - A deny on any S3 request from outside allowedIpRanges, when set
+   * - Use of the bucket's customer-managed KMS key, when set
+   * - The broad access of earlier versions when BUCKET.uploaderFullAccess is set, for the single uploader only
+   */
+  private applyBucketPolicies(bucket: Bucket, context: IContext, uploader?: UploaderConfig): void {
+    if (uploader?.allowedIpRanges?.length) {
+      this.identity.addToPrincipalPolicy(
+        new PolicyStatement({
+          effect: Effect.DENY,
+          actions: ['s3:*'],
+          resources: [bucket.bucketArn, `${bucket.bucketArn}/*`],
+          conditions: {
+            NotIpAddress: { 'aws:SourceIp': uploader.allowedIpRanges }
+          }
+        })
+      );
+    }
+
+    // With a customer-managed key, uploads are encrypted with it; multipart uploads and read-back also need to decrypt
+    bucket.encryptionKey?.grantEncryptDecrypt(this.identity);
+
+    if (!uploader && context.BUCKET.uploaderFullAccess) {
+      this.applyFullAccessPolicies(bucket);
+      return;
+    }
+
+    const paths = getUploaderSubdirectories(context, uploader);
+    this.identity.addToPrincipalPolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: [
+          's3:PutObject',
+          's3:PutObjectTagging',
+          's3:AbortMultipartUpload',
+          's3:ListMultipartUploadParts'
+        ],
+        resources: paths.map(path => `${bucket.bucketArn}/${path}/*`)
+      })
+    );
+
+    // errors/ is written by the event processor only
+    this.identity.addToPrincipalPolicy(
+      new PolicyStatement({
+        effect: Effect.DENY,
+        actions: ['s3:PutObject', 's3:PutObjectTagging'],
+        resources: paths.map(path => `${bucket.bucketArn}/${path}/errors/*`)
+      })
+    );
+
+    const readable = context.BUCKET.subdirectories
+      .filter(sub => sub.uploaderCanRead && paths.includes(sub.path))
+      .map(sub => sub.path);
+    if (readable.length === 0) {
+      return;
+    }
+
+    this.identity.addToPrincipalPolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['s3:GetObject', 's3:GetObjectTagging'],
+        resources: readable.map(path => `${bucket.bucketArn}/${path}/*`)
+      })
+    );
+    this.identity.addToPrincipalPolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['s3:ListBucket'],
+        resources: [bucket.bucketArn],
+        conditions: {
+          StringLike: { 's3:prefix': readable.map(path => `${path}/*`) }
+        }
+      })
+    );
+  }
+
+  /**
+   * Enforces the requirements on cross-account uploads in the bucket policy, where the partner cannot change them:
+   * - Uploads may only set the bucket-owner-full-control canned ACL, so the bucket owner keeps control of every object
+   * - No ACL changes after upload
+   * The header is not required, since the parts of multipart uploads cannot carry it and ownership is enforced by the bucket.
+   * IfExists keeps the deny off requests without the header, which a plain negated operator would match
+   */
+  private applyCrossAccountBucketPolicies(bucket: Bucket, role: IRole): void {
+    bucket.addToResourcePolicy(
+      new PolicyStatement({
+        effect: Effect.DENY,
+        principals: [new ArnPrincipal(role.roleArn)],
+        actions: ['s3:PutObject'],
+        resources: [`${bucket.bucketArn}/*`],
+        conditions: {
+          StringNotEqualsIfExists: { 's3:x-amz-acl': 'bucket-owner-full-control' }
+        }
+      })
+    );
+    bucket.addToResourcePolicy(
+      new PolicyStatement({
+        effect: Effect.DENY,
+        principals: [new ArnPrincipal(role.roleArn)],
+        actions: ['s3:PutObjectAcl', 's3:PutObjectVersionAcl'],
+        resources: [`${bucket.bucketArn}/*`]
+      })
+    );
   }
 
   /**
    * Applies comprehensive S3 bucket permissions to the user
    * Includes all operations except bucket deletion/modification
    */
-  private applyBucketPolicies(bucket: Bucket): void {
+  private applyFullAccessPolicies(bucket: Bucket): void {
     // Bucket-level operations
-    this.user.addToPrincipalPolicy(
+    this.identity.addToPrincipalPolicy(
       new PolicyStatement({
         effect: Effect.ALLOW,
         actions: [
@@ -111,7 +318,7 @@ export class BucketAccessKeys extends Construct {
     );
 
     // Object-level operations (read, write, delete objects)
-    this.user.addToPrincipalPolicy(
+    this.identity.addToPrincipalPolicy(
       new PolicyStatement({
         effect: Effect.ALLOW,
         actions: [
@@ -150,7 +357,11 @@ export class BucketAccessKeys extends Construct {
     );
   }
 
-  public get secretArn(): string {
-    return this.secret.secretArn;
+  public get secretArn(): string | undefined {
+    return this.secret?.secretArn;
+  }
+
+  public get roleArn(): string | undefined {
+    return this.role?.roleArn;
   }
 }
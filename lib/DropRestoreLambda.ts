@@ -0,0 +1,72 @@
+import { Duration, Stack } from 'aws-cdk-lib';
+import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { S3EventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Bucket, EventType } from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+import { getRuntimeBucketConfig, grantNotifySubscribers } from './EventProcessorLambda';
+
+export type DropRestoreLambdaProps = {
+  context: IContext;
+  bucket: Bucket;
+};
+
+/**
+ * Lambda function that brings archived drops back and re-dispatches them to their subscribers on request.
+ * Only needed when at least one subdirectory transitions its objects to other storage classes.
+ *
+ * Responsibilities:
+ * - On request, restore a drop from GLACIER or DEEP_ARCHIVE, or re-dispatch it straight away if it is readable
+ * - When S3 reports a restore it requested completed, re-dispatch the drop to every subscriber of its subdirectory
+ */
+export class DropRestoreLambda extends Construct {
+  public readonly lambda: NodejsFunction;
+
+  constructor(scope: Construct, id: string, props: DropRestoreLambdaProps) {
+    super(scope, id);
+
+    const { context, bucket } = props;
+    const { STACK_ID, TAGS: { Landscape } } = context;
+
+    this.lambda = new NodejsFunction(this, 'lambda-function', {
+      functionName: `${STACK_ID}-drop-restore-${Landscape}`,
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'src/drop-restore/index.ts',
+      timeout: Duration.seconds(300),
+      memorySize: 256,
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        BUCKET_CONFIG: Stack.of(this).toJsonString(getRuntimeBucketConfig(context, bucket.encryptionKey?.keyArn))
+      },
+      bundling: {
+        externalModules: [
+          '@aws-sdk/*',
+        ]
+      }
+    });
+
+    // Grant Lambda permission to check the storage class and tags of drops, to tag them for re-dispatch and to restore them
+    bucket.grantRead(this.lambda);
+    this.lambda.addToRolePolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['s3:RestoreObject', 's3:PutObjectTagging'],
+        resources: [bucket.arnForObjects('*')]
+      })
+    );
+
+    // Grant Lambda permission to notify each subscriber target again
+    grantNotifySubscribers(this.lambda, context);
+
+    // Re-dispatch drops once their restore completed
+    this.lambda.addEventSource(
+      new S3EventSource(bucket, {
+        events: [EventType.OBJECT_RESTORE_COMPLETED]
+      })
+    );
+  }
+}
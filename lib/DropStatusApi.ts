@@ -0,0 +1,90 @@
+import { Duration } from 'aws-cdk-lib';
+import { AuthorizationType, LambdaIntegration, RestApi } from 'aws-cdk-lib/aws-apigateway';
+import { Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Effect, IIdentity, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+import { getRuntimeUploaderIdentities } from './AccessKeys';
+
+export type DropStatusApiProps = {
+  context: IContext;
+  processingLedgerTable: Table;
+
+  /**
+   * IAM identities of the uploaders (users or roles), allowed to call the API
+   */
+  uploaders: IIdentity[];
+};
+
+/**
+ * HTTP endpoint external systems poll for the processing state of their drops.
+ *
+ * Responsibilities:
+ * - GET /status?requestId=... or GET /status?key=..., answered from the processing ledger
+ * - IAM authorization: requests must be SigV4-signed, only the uploaders may call it
+ * - Named uploaders only see the files of their own subdirectories
+ */
+export class DropStatusApi extends Construct {
+  public readonly lambda: NodejsFunction;
+  public readonly api: RestApi;
+
+  constructor(scope: Construct, id: string, props: DropStatusApiProps) {
+    super(scope, id);
+
+    const { context, processingLedgerTable, uploaders } = props;
+    const { STACK_ID, TAGS: { Landscape } } = context;
+    const uploaderIdentities = getRuntimeUploaderIdentities(context);
+
+    this.lambda = new NodejsFunction(this, 'lambda-function', {
+      functionName: `${STACK_ID}-drop-status-api-${Landscape}`,
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'src/drop-status-api/index.ts',
+      timeout: Duration.seconds(10),
+      memorySize: 256,
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        PROCESSING_LEDGER_TABLE: processingLedgerTable.tableName,
+        ...(uploaderIdentities.length > 0 && { UPLOADERS: JSON.stringify(uploaderIdentities) })
+      },
+      bundling: {
+        externalModules: [
+          '@aws-sdk/*',
+        ]
+      }
+    });
+
+    // Grant Lambda permission to query the ledger and its indexes
+    processingLedgerTable.grantReadData(this.lambda);
+
+    this.api = new RestApi(this, 'api', {
+      restApiName: `${STACK_ID}-drop-status-${Landscape}`,
+      description: 'Processing state of drops in the file-drop bucket'
+    });
+
+    const status = this.api.root.addResource('status');
+    status.addMethod('GET', new LambdaIntegration(this.lambda), {
+      authorizationType: AuthorizationType.IAM,
+      requestParameters: {
+        'method.request.querystring.requestId': false,
+        'method.request.querystring.key': false
+      }
+    });
+
+    // Allow the uploaders to call the endpoint with their own credentials
+    uploaders.forEach(uploader => uploader.addToPrincipalPolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['execute-api:Invoke'],
+        resources: [this.api.arnForExecuteApi('GET', '/status')]
+      })
+    ));
+  }
+
+  public get url(): string {
+    return this.api.urlForPath('/status');
+  }
+}
@@ -0,0 +1,34 @@
+import { RemovalPolicy } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+
+export type EventLedgerTableProps = {
+  context: IContext;
+};
+
+/**
+ * DynamoDB table recording handled S3 event deliveries, so redeliveries of the same event are skipped.
+ *
+ * Features:
+ * - One item per event (partition key "{bucket}/{key}#{sequencer}")
+ * - Items expire via DynamoDB TTL a week after the event was handled
+ * - Destroyed with the stack, the ledger only holds short-lived state
+ */
+export class EventLedgerTable extends Construct {
+  public readonly table: Table;
+
+  constructor(scope: Construct, id: string, props: EventLedgerTableProps) {
+    super(scope, id);
+
+    const { STACK_ID, TAGS: { Landscape } } = props.context;
+
+    this.table = new Table(this, 'table', {
+      tableName: `${STACK_ID}-event-ledger-${Landscape}`,
+      partitionKey: { name: 'eventKey', type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: RemovalPolicy.DESTROY
+    });
+  }
+}
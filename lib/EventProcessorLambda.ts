@@ -1,28 +1,123 @@
-import { Duration } from 'aws-cdk-lib';
+import { Duration, Stack } from 'aws-cdk-lib';
+import { Table } from 'aws-cdk-lib/aws-dynamodb';
 import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
-import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { IFunction, Runtime } from 'aws-cdk-lib/aws-lambda';
 import { S3EventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import { RetentionDays } from 'aws-cdk-lib/aws-logs';
 import { Bucket, EventType } from 'aws-cdk-lib/aws-s3';
+import { ITopic } from 'aws-cdk-lib/aws-sns';
 import { Construct } from 'constructs';
-import { IContext } from '../context/IContext';
+import { BucketConfig, BucketSubdirectory, IContext, SubscriberConfig, getSubscriberTarget, getSubscribers } from '../context/IContext';
+import { getRuntimeUploaderIdentities, getUploaderIdentities } from './AccessKeys';
 import { getBucketName } from './FileDropBucket';
 
 export type EventProcessorLambdaProps = {
   context: IContext;
   bucket: Bucket;
+
+  /**
+   * Ledger of recent content hashes, required when any subdirectory sets duplicateWindowHours
+   */
+  hashLedgerTable?: Table;
+
+  /**
+   * Ledger of handled S3 event deliveries, used to skip redeliveries
+   */
+  eventLedgerTable?: Table;
+
+  /**
+   * Ledger the outcome of processing every file is recorded in
+   */
+  processingLedgerTable?: Table;
+
+  /**
+   * Registry of expected drops, marked fulfilled when a file with a matching requestId arrives
+   */
+  expectedDropTable?: Table;
 };
 
+/**
+ * Build the bucket configuration passed to Lambda functions via the BUCKET_CONFIG environment variable
+ * Excludes CDK-only fields like subscriber execution role ARNs, and folds subscriberLambdaArn into subscribers
+ */
+export const getRuntimeBucketConfig = (context: IContext, kmsKeyArn?: string): BucketConfig => {
+  const { BUCKET } = context;
+  return {
+    name: getBucketName(context),
+    ...(kmsKeyArn && { kms: { keyArn: kmsKeyArn } }),
+    subdirectories: BUCKET.subdirectories.map((sub): BucketSubdirectory => ({
+      path: sub.path,
+      objectLifetimeDays: sub.objectLifetimeDays,
+      subscribers: getSubscribers(sub).map(withoutExecutionRole),
+      schema: sub.schema,
+      inputFormats: sub.inputFormats,
+      manifest: sub.manifest,
+      duplicateWindowHours: sub.duplicateWindowHours,
+      invocationMode: sub.invocationMode
+    }))
+  };
+}
+
+const withoutExecutionRole = (subscriber: SubscriberConfig): SubscriberConfig => {
+  const { executionRoleArn, ...target } = subscriber as SubscriberConfig & { executionRoleArn?: string };
+  return target as SubscriberConfig;
+}
+
+/**
+ * CloudWatch namespace of the metrics the event processor emits, one per deployment
+ */
+export const getMetricsNamespace = (context: IContext): string => `${context.STACK_ID}-${context.TAGS.Landscape}`;
+
+/**
+ * IAM actions the event processor needs to notify a subscriber, on the subscriber's target ARN
+ * Webhooks need to read their signing secret instead
+ */
+export const getSubscriberGrant = (subscriber: SubscriberConfig): { actions: string[], resource: string } => {
+  switch (subscriber.type) {
+    case 'sqs': return { actions: ['sqs:SendMessage'], resource: subscriber.queueArn };
+    case 'sns': return { actions: ['sns:Publish'], resource: subscriber.topicArn };
+    case 'eventbridge': return { actions: ['events:PutEvents'], resource: subscriber.eventBusArn };
+    case 'stepfunctions': return { actions: ['states:StartExecution'], resource: subscriber.stateMachineArn };
+    case 'webhook': return { actions: ['secretsmanager:GetSecretValue'], resource: subscriber.signingSecretArn };
+    default: return { actions: ['lambda:InvokeFunction'], resource: subscriber.lambdaArn };
+  }
+}
+
+/**
+ * Allow a function to notify every subscriber target of the bucket, with one statement per target
+ */
+export const grantNotifySubscribers = (fn: IFunction, context: IContext): void => {
+  const subscribers = context.BUCKET.subdirectories.flatMap(getSubscribers).filter((subscriber, index, all) =>
+    all.findIndex(other => getSubscriberTarget(other) === getSubscriberTarget(subscriber)) === index
+  );
+  subscribers.forEach(subscriber => {
+    const { actions, resource } = getSubscriberGrant(subscriber);
+    fn.addToRolePolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions,
+        resources: [resource]
+      })
+    );
+  });
+}
+
 /**
  * Lambda function that processes S3 events for incoming data files.
  * 
  * Responsibilities:
- * - Validate JSON structure
+ * - Hold multi-part drops until their manifest arrives
+ * - Skip redeliveries of already handled S3 events
+ * - Skip identical re-uploads within a subdirectory's duplicate window
+ * - Normalize NDJSON, CSV and gzip-compressed drops into the canonical JSON envelope
+ * - Validate JSON structure against per-subdirectory schemas
  * - Rename files with date-based convention
  * - Set object expiration
- * - Move invalid files to error subdirectory
- * - Invoke subscriber Lambda function(s) for processing
+ * - Move invalid files to error subdirectory, with a readable error report next to each and a notification (if a topic is given)
+ * - Record the outcome of processing every file in the processing ledger
+ * - Log structured JSON and emit per-subdirectory metrics in Embedded Metric Format
+ * - Notify subscribers (Lambda, SQS, SNS, EventBridge, Step Functions or signed webhook) for processing
  */
 export class EventProcessorLambda extends Construct {
   public readonly lambda: NodejsFunction;
@@ -30,21 +125,21 @@ export class EventProcessorLambda extends Construct {
   constructor(scope: Construct, id: string, props: EventProcessorLambdaProps) {
     super(scope, id);
 
-    const { context, bucket } = props;
+    const { context, bucket, hashLedgerTable, eventLedgerTable, processingLedgerTable, expectedDropTable } = props;
     const { STACK_ID, TAGS: { Landscape }, LAMBDA, BUCKET } = context;
 
-    // Collect all subscriber Lambda ARNs for IAM permissions
-    const subscriberLambdaArns = BUCKET.subdirectories.map(sub => sub.subscriberLambdaArn);
+    BUCKET.subdirectories.forEach(sub => {
+      if (getSubscribers(sub).length === 0) {
+        throw new Error(`Subdirectory "${sub.path}" has no subscribers: set subscriberLambdaArn or subscribers`);
+      }
+      if (sub.subscriberLambdaArn && !sub.subscriberLambdaExecutionRoleArn) {
+        throw new Error(`Subdirectory "${sub.path}" sets subscriberLambdaArn without subscriberLambdaExecutionRoleArn`);
+      }
+    });
 
-    // Create runtime config for Lambda (exclude CDK-only fields like subscriberLambdaExecutionRoleArn)
-    const runtimeBucketConfig = {
-      name: getBucketName(context),
-      subdirectories: BUCKET.subdirectories.map(sub => ({
-        path: sub.path,
-        objectLifetimeDays: sub.objectLifetimeDays,
-        subscriberLambdaArn: sub.subscriberLambdaArn
-      }))
-    };
+    // Create runtime config for Lambda (exclude CDK-only fields like subscriber execution role ARNs)
+    const runtimeBucketConfig = getRuntimeBucketConfig(context, bucket.encryptionKey?.keyArn);
+    const uploaders = getUploaderIdentities(context);
 
     // Create Lambda function
     this.lambda = new NodejsFunction(this, 'lambda-function', {
@@ -56,7 +151,13 @@ export class EventProcessorLambda extends Construct {
       memorySize: LAMBDA.eventProcessor?.memorySizeMb || 512,
       logRetention: RetentionDays.ONE_MONTH,
       environment: {
-        BUCKET_CONFIG: JSON.stringify(runtimeBucketConfig)
+        BUCKET_CONFIG: Stack.of(this).toJsonString(runtimeBucketConfig),
+        METRICS_NAMESPACE: getMetricsNamespace(context),
+        ...(hashLedgerTable && { HASH_LEDGER_TABLE: hashLedgerTable.tableName }),
+        ...(eventLedgerTable && { EVENT_LEDGER_TABLE: eventLedgerTable.tableName }),
+        ...(processingLedgerTable && { PROCESSING_LEDGER_TABLE: processingLedgerTable.tableName }),
+        ...(expectedDropTable && { EXPECTED_DROP_TABLE: expectedDropTable.tableName }),
+        ...(uploaders.length > 0 && { UPLOADERS: JSON.stringify(getRuntimeUploaderIdentities(context)) })
       },
       bundling: {
         externalModules: [
@@ -70,16 +171,36 @@ export class EventProcessorLambda extends Construct {
     bucket.grantDelete(this.lambda);
     bucket.grantPutAcl(this.lambda);
 
-    // Grant Lambda permission to invoke subscriber Lambda(s)
-    subscriberLambdaArns.forEach(arn => {
+    // Grant Lambda permission to record and look up content hashes
+    hashLedgerTable?.grantReadWriteData(this.lambda);
+
+    // Grant Lambda permission to record handled event deliveries
+    eventLedgerTable?.grantReadWriteData(this.lambda);
+
+    // Grant Lambda permission to record processing results
+    processingLedgerTable?.grantWriteData(this.lambda);
+
+    // Grant Lambda permission to mark expected drops fulfilled
+    expectedDropTable?.grantReadWriteData(this.lambda);
+
+    // Grant Lambda permission to notify each subscriber target
+    grantNotifySubscribers(this.lambda, context);
+
+    // Grant Lambda permission to look up the unique ids of the uploaders, which S3 events identify uploaders by
+    if (uploaders.length > 0) {
       this.lambda.addToRolePolicy(
         new PolicyStatement({
           effect: Effect.ALLOW,
-          actions: ['lambda:InvokeFunction'],
-          resources: [arn]
+          actions: ['iam:GetUser', 'iam:GetRole'],
+          resources: uploaders.map(({ userName, roleName, roleArn }) => roleArn || Stack.of(this).formatArn({
+            service: 'iam',
+            region: '',
+            resource: userName ? 'user' : 'role',
+            resourceName: userName || roleName
+          }))
         })
       );
-    });
+    }
 
     // Add S3 event source
     // OBJECT_CREATED is a wildcard covering all s3:ObjectCreated:* events
@@ -89,4 +210,12 @@ export class EventProcessorLambda extends Construct {
       })
     );
   }
+
+  /**
+   * Publish a summary of every file moved to {subfolder}/errors/ to the topic, with a link to its error report
+   */
+  notifyErrorsTo(topic: ITopic): void {
+    this.lambda.addEnvironment('ERROR_TOPIC_ARN', topic.topicArn);
+    topic.grantPublish(this.lambda);
+  }
 }
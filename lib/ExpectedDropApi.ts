@@ -0,0 +1,93 @@
+import { Duration } from 'aws-cdk-lib';
+import { AuthorizationType, LambdaIntegration, RestApi } from 'aws-cdk-lib/aws-apigateway';
+import { Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Effect, IIdentity, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+import { getRuntimeUploaderIdentities } from './AccessKeys';
+import { getRuntimeBucketConfig } from './EventProcessorLambda';
+
+export type ExpectedDropApiProps = {
+  context: IContext;
+  expectedDropTable: Table;
+
+  /**
+   * REST API the /expected-drops resource is added to
+   */
+  api: RestApi;
+
+  /**
+   * IAM identities of the uploaders (users or roles), allowed to call the API
+   */
+  uploaders: IIdentity[];
+};
+
+/**
+ * HTTP endpoint requesting processes register the drops they are waiting for with.
+ *
+ * Responsibilities:
+ * - POST /expected-drops registers a drop (subdirectory, requestId, deadline)
+ * - GET /expected-drops?subdirectory=...&requestId=... returns a registration and its status
+ * - IAM authorization: requests must be SigV4-signed, only the uploaders may call it
+ * - Named uploaders only register and look up drops in the subdirectories they may upload to
+ */
+export class ExpectedDropApi extends Construct {
+  public readonly lambda: NodejsFunction;
+
+  constructor(scope: Construct, id: string, props: ExpectedDropApiProps) {
+    super(scope, id);
+
+    const { context, expectedDropTable, api, uploaders } = props;
+    const { STACK_ID, TAGS: { Landscape } } = context;
+    const uploaderIdentities = getRuntimeUploaderIdentities(context);
+
+    this.lambda = new NodejsFunction(this, 'lambda-function', {
+      functionName: `${STACK_ID}-expected-drop-api-${Landscape}`,
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'src/expected-drop-api/index.ts',
+      timeout: Duration.seconds(10),
+      memorySize: 256,
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        BUCKET_CONFIG: JSON.stringify(getRuntimeBucketConfig(context)),
+        EXPECTED_DROP_TABLE: expectedDropTable.tableName,
+        ...(uploaderIdentities.length > 0 && { UPLOADERS: JSON.stringify(uploaderIdentities) })
+      },
+      bundling: {
+        externalModules: [
+          '@aws-sdk/*',
+        ]
+      }
+    });
+
+    // Grant Lambda permission to register and look up expected drops
+    expectedDropTable.grantReadWriteData(this.lambda);
+
+    const expectedDrops = api.root.addResource('expected-drops');
+    const integration = new LambdaIntegration(this.lambda);
+    expectedDrops.addMethod('POST', integration, { authorizationType: AuthorizationType.IAM });
+    expectedDrops.addMethod('GET', integration, {
+      authorizationType: AuthorizationType.IAM,
+      requestParameters: {
+        'method.request.querystring.subdirectory': true,
+        'method.request.querystring.requestId': true
+      }
+    });
+
+    // Allow the uploaders to register drops with their own credentials
+    uploaders.forEach(uploader => uploader.addToPrincipalPolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['execute-api:Invoke'],
+        resources: [
+          api.arnForExecuteApi('POST', '/expected-drops'),
+          api.arnForExecuteApi('GET', '/expected-drops')
+        ]
+      })
+    ));
+  }
+}
@@ -0,0 +1,42 @@
+import { RemovalPolicy } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, ProjectionType, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+
+export type ExpectedDropTableProps = {
+  context: IContext;
+};
+
+/**
+ * DynamoDB table of the drops requesting processes registered as expected, with their deadlines.
+ *
+ * Features:
+ * - One item per registration (partition key "{subdirectory}#{requestId}")
+ * - "by-status" index to find pending registrations past their deadline
+ * - Items expire via DynamoDB TTL 30 days after their deadline
+ * - Destroyed with the stack, registrations only matter until the drop arrives
+ */
+export class ExpectedDropTable extends Construct {
+  public readonly table: Table;
+
+  constructor(scope: Construct, id: string, props: ExpectedDropTableProps) {
+    super(scope, id);
+
+    const { STACK_ID, TAGS: { Landscape } } = props.context;
+
+    this.table = new Table(this, 'table', {
+      tableName: `${STACK_ID}-expected-drops-${Landscape}`,
+      partitionKey: { name: 'dropKey', type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: RemovalPolicy.DESTROY
+    });
+
+    this.table.addGlobalSecondaryIndex({
+      indexName: 'by-status',
+      partitionKey: { name: 'status', type: AttributeType.STRING },
+      sortKey: { name: 'deadline', type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL
+    });
+  }
+}
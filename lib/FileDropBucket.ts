@@ -4,11 +4,19 @@ import {
   BlockPublicAccess, 
   ObjectOwnership,
   EventType,
-  BucketEncryption
+  BucketEncryption,
+  LifecycleRule,
+  StorageClass
 } from 'aws-cdk-lib/aws-s3';
-import { PolicyStatement, Effect, ArnPrincipal } from 'aws-cdk-lib/aws-iam';
+import { PolicyStatement, Effect, ArnPrincipal, IPrincipal } from 'aws-cdk-lib/aws-iam';
+import { IKey, Key } from 'aws-cdk-lib/aws-kms';
 import { Construct } from 'constructs';
-import { IContext } from '../context/IContext';
+import { BucketSubdirectory, IContext } from '../context/IContext';
+
+/**
+ * Tag the event processor gives the objects it renames, see src/event-processor/Bucket.ts
+ */
+const PROCESSED_TAGS = { 'drop-state': 'processed' };
 
 export type DropoffBucketProps = {
   context: IContext;
@@ -27,25 +35,29 @@ export const getBucketName = (context: IContext): string => {
  * 
  * Features:
  * - Automatically deletes objects when stack is destroyed
- * - Server-side encryption enabled
+ * - Server-side encryption enabled, with a customer-managed KMS key if BUCKET.kms is set
  * - Public access blocked
  * - Event notifications for object creation
  */
 export class FileDropBucket extends Construct {
   public readonly bucket: Bucket;
+  public readonly encryptionKey?: IKey;
 
   constructor(scope: Construct, id: string, props: DropoffBucketProps) {
     super(scope, id);
 
     const { context } = props;
     const bucketName = getBucketName(context);
+    this.encryptionKey = this.createEncryptionKey(context);
 
     // Create S3 bucket for data file drop
     this.bucket = new Bucket(this, 'bucket', {
       bucketName,
       removalPolicy: RemovalPolicy.DESTROY,
       autoDeleteObjects: true,
-      encryption: BucketEncryption.S3_MANAGED,
+      encryption: this.encryptionKey ? BucketEncryption.KMS : BucketEncryption.S3_MANAGED,
+      encryptionKey: this.encryptionKey,
+      bucketKeyEnabled: !!this.encryptionKey,
       objectOwnership: ObjectOwnership.BUCKET_OWNER_ENFORCED,
       blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
       versioned: false,
@@ -54,30 +66,72 @@ export class FileDropBucket extends Construct {
     });
   }
 
+  /**
+   * Import or create the customer-managed key of BUCKET.kms, if set
+   * A created key is retained on stack deletion, since objects outliving the stack may still be encrypted with it
+   */
+  private createEncryptionKey(context: IContext): IKey | undefined {
+    const { STACK_ID, BUCKET: { kms }, TAGS: { Landscape } } = context;
+    if (!kms) {
+      return undefined;
+    }
+    if (kms.keyArn) {
+      console.log(`Importing existing KMS key: ${kms.keyArn}`);
+      return Key.fromKeyArn(this, 'imported-key', kms.keyArn);
+    }
+
+    console.log('Creating new KMS key');
+    return new Key(this, 'key', {
+      alias: `${STACK_ID}-${Landscape}`,
+      description: `Encrypts the objects in the ${getBucketName(context)} file drop bucket`,
+      enableKeyRotation: true,
+      removalPolicy: RemovalPolicy.RETAIN
+    });
+  }
+
   /**
    * Create lifecycle rules for automatic object expiration
-   * Each subdirectory gets its own rule with specific retention period
+   * Each subdirectory gets its own rule with specific retention period, and transitions to other storage classes if configured
    * If errorObjectLifetimeDays is specified, creates separate rule for errors subfolder
+   *
+   * A rule for {subfolder}/ also matches {subfolder}/errors/, and S3 applies the earliest expiration and every transition
+   * of overlapping rules. So when errors have their own lifetime, or the subfolder transitions, the main rule only applies
+   * to objects the event processor renamed (by tag), and a rule at the longer lifetime catches files never processed
    */
   private createLifecycleRules(context: IContext) {
-    const rules: any[] = [];
+    const rules: LifecycleRule[] = [];
     
     context.BUCKET.subdirectories.forEach((subdir, index) => {
-      // Main subdirectory lifecycle rule  
+      const errorObjectLifetimeDays = subdir.errorObjectLifetimeDays || subdir.objectLifetimeDays;
+      const separateErrors = errorObjectLifetimeDays !== subdir.objectLifetimeDays;
+
+      // Main subdirectory lifecycle rule
       rules.push({
         id: `expire-${subdir.path}`,
         enabled: true,
         prefix: `${subdir.path}/`,
-        expiration: Duration.days(subdir.objectLifetimeDays)
+        ...((separateErrors || subdir.transitions) && { tagFilters: PROCESSED_TAGS }),
+        expiration: Duration.days(subdir.objectLifetimeDays),
+        ...(subdir.transitions && { transitions: this.createTransitions(subdir) })
       });
       
       // Separate lifecycle rule for errors subdirectory if configured
-      if (subdir.errorObjectLifetimeDays && subdir.errorObjectLifetimeDays !== subdir.objectLifetimeDays) {
+      if (separateErrors) {
         rules.push({
           id: `expire-${subdir.path}-errors`,
           enabled: true,
           prefix: `${subdir.path}/errors/`,
-          expiration: Duration.days(subdir.errorObjectLifetimeDays)
+          expiration: Duration.days(errorObjectLifetimeDays)
+        });
+      }
+
+      // Files that were never renamed (e.g. parts still held), and errors when they share the subfolder's lifetime
+      if (separateErrors || subdir.transitions) {
+        rules.push({
+          id: `expire-${subdir.path}-unprocessed`,
+          enabled: true,
+          prefix: `${subdir.path}/`,
+          expiration: Duration.days(Math.max(subdir.objectLifetimeDays, errorObjectLifetimeDays))
         });
       }
     });
@@ -85,6 +139,24 @@ export class FileDropBucket extends Construct {
     return rules;
   }
 
+  /**
+   * Create the storage class transitions of a subdirectory, validated against the constraints S3 imposes
+   */
+  private createTransitions(subdir: BucketSubdirectory): LifecycleRule['transitions'] {
+    return subdir.transitions!.map(({ storageClass, afterDays }) => {
+      if (afterDays >= subdir.objectLifetimeDays) {
+        throw new Error(`Subdirectory "${subdir.path}" transitions to ${storageClass} after ${afterDays} days, but its objects expire after ${subdir.objectLifetimeDays}`);
+      }
+      if (storageClass === 'STANDARD_IA' && afterDays < 30) {
+        throw new Error(`Subdirectory "${subdir.path}" transitions to STANDARD_IA after ${afterDays} days, S3 requires at least 30`);
+      }
+      return {
+        storageClass: new StorageClass(storageClass),
+        transitionAfter: Duration.days(afterDays)
+      };
+    });
+  }
+
   /**
    * Grant read access to a Lambda function via its execution role
    * @param executionRoleArn ARN of the Lambda function's execution role
@@ -107,5 +179,25 @@ export class FileDropBucket extends Construct {
         ]
       })
     );
+    this.grantKeyToPrincipal(new ArnPrincipal(executionRoleArn), `AllowLambdaDecrypt${index}`, ['kms:Decrypt']);
+  }
+
+  /**
+   * Grant use of the customer-managed key through its key policy, if the bucket has one
+   * Does nothing for imported keys, whose policy is not managed by the stack
+   * @param principal Principal to grant the key to
+   * @param sid Unique key policy statement ID
+   * @param actions KMS actions to allow
+   */
+  public grantKeyToPrincipal(principal: IPrincipal, sid: string, actions: string[]): void {
+    this.encryptionKey?.addToResourcePolicy(
+      new PolicyStatement({
+        sid,
+        effect: Effect.ALLOW,
+        principals: [principal],
+        actions,
+        resources: ['*']
+      })
+    );
   }
 }
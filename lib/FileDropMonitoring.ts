@@ -0,0 +1,172 @@
+import { Duration } from 'aws-cdk-lib';
+import {
+  Alarm,
+  AlarmProps,
+  AlarmStatusWidget,
+  ComparisonOperator,
+  Dashboard,
+  GraphWidget,
+  IMetric,
+  Metric,
+  TreatMissingData
+} from 'aws-cdk-lib/aws-cloudwatch';
+import { SnsAction } from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { IFunction } from 'aws-cdk-lib/aws-lambda';
+import { ITopic, Topic } from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+import { getMetricsNamespace } from './EventProcessorLambda';
+
+export type FileDropMonitoringProps = {
+  context: IContext;
+  eventProcessor: IFunction;
+};
+
+/**
+ * Longest staleness window a CloudWatch alarm can evaluate (hourly periods over one week)
+ */
+const MAX_STALE_AFTER_HOURS = 168;
+
+/**
+ * CloudWatch dashboard and alarms for the file-drop pipeline.
+ *
+ * Alarms, all notifying the alarm SNS topic (MONITORING.alarmTopicArn, or one created here):
+ * - Event processor errors and throttles
+ * - Files moved to any {subfolder}/errors/ prefix
+ * - Event processor duration above MONITORING.processingLatencyThresholdSeconds
+ * - No new file in a subdirectory for its staleAfterHours (when set)
+ */
+export class FileDropMonitoring extends Construct {
+  public readonly topic: ITopic;
+  public readonly dashboard: Dashboard;
+  public readonly alarms: Alarm[] = [];
+
+  private readonly namespace: string;
+
+  constructor(scope: Construct, id: string, props: FileDropMonitoringProps) {
+    super(scope, id);
+
+    const { context, eventProcessor } = props;
+    const { STACK_ID, TAGS: { Landscape }, LAMBDA, BUCKET, MONITORING } = context;
+    this.namespace = getMetricsNamespace(context);
+
+    BUCKET.subdirectories.forEach(sub => {
+      if (sub.staleAfterHours !== undefined && (sub.staleAfterHours < 1 || sub.staleAfterHours > MAX_STALE_AFTER_HOURS)) {
+        throw new Error(`Subdirectory "${sub.path}" sets staleAfterHours to ${sub.staleAfterHours}: it must be between 1 and ${MAX_STALE_AFTER_HOURS}`);
+      }
+    });
+
+    this.topic = MONITORING?.alarmTopicArn
+      ? Topic.fromTopicArn(this, 'alarm-topic', MONITORING.alarmTopicArn)
+      : new Topic(this, 'alarm-topic', {
+        topicName: `${STACK_ID}-alarms-${Landscape}`,
+        displayName: 'File drop alarms'
+      });
+
+    const period = Duration.minutes(5);
+    const errors = eventProcessor.metricErrors({ period, statistic: 'Sum' });
+    const throttles = eventProcessor.metricThrottles({ period, statistic: 'Sum' });
+    const duration = eventProcessor.metricDuration({ period, statistic: 'p99' });
+    const timeoutSeconds = LAMBDA.eventProcessor?.timeoutSeconds || 300;
+    const latencyThresholdSeconds = MONITORING?.processingLatencyThresholdSeconds ?? timeoutSeconds * 0.8;
+
+    this.addAlarm('event-processor-errors', {
+      alarmName: `${STACK_ID}-event-processor-errors-${Landscape}`,
+      alarmDescription: 'The event processor Lambda failed, files may be left unprocessed',
+      metric: errors,
+      threshold: 1
+    });
+
+    this.addAlarm('event-processor-throttles', {
+      alarmName: `${STACK_ID}-event-processor-throttles-${Landscape}`,
+      alarmDescription: 'The event processor Lambda was throttled, processing of dropped files is delayed',
+      metric: throttles,
+      threshold: 1
+    });
+
+    this.addAlarm('processing-latency', {
+      alarmName: `${STACK_ID}-processing-latency-${Landscape}`,
+      alarmDescription: `The event processor took longer than ${latencyThresholdSeconds} seconds (p99)`,
+      metric: duration,
+      threshold: latencyThresholdSeconds * 1000,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD
+    });
+
+    BUCKET.subdirectories.forEach(sub => {
+      this.addAlarm(`errors-${sub.path}`, {
+        alarmName: `${STACK_ID}-errors-${sub.path}-${Landscape}`,
+        alarmDescription: `Files were moved to ${sub.path}/errors/`,
+        metric: this.fileMetric('FilesMovedToErrors', sub.path, period),
+        threshold: 1
+      });
+
+      if (sub.staleAfterHours) {
+        // Nothing is emitted while no file arrives, so missing data counts as no file
+        this.addAlarm(`stale-${sub.path}`, {
+          alarmName: `${STACK_ID}-stale-${sub.path}-${Landscape}`,
+          alarmDescription: `No file arrived in ${sub.path}/ for ${sub.staleAfterHours} hours`,
+          metric: this.fileMetric('FilesReceived', sub.path, Duration.hours(1)),
+          threshold: 1,
+          comparisonOperator: ComparisonOperator.LESS_THAN_THRESHOLD,
+          evaluationPeriods: sub.staleAfterHours,
+          treatMissingData: TreatMissingData.BREACHING
+        });
+      }
+    });
+
+    const perSubdirectory = (metricName: string, statistic = 'Sum'): IMetric[] =>
+      BUCKET.subdirectories.map(sub => this.fileMetric(metricName, sub.path, period, statistic).with({ label: `${metricName} ${sub.path}` }));
+
+    this.dashboard = new Dashboard(this, 'dashboard', {
+      dashboardName: `${STACK_ID}-${Landscape}`
+    });
+    this.dashboard.addWidgets(
+      new AlarmStatusWidget({ title: 'Alarms', alarms: this.alarms, width: 24 })
+    );
+    this.dashboard.addWidgets(
+      new GraphWidget({ title: 'Event processor invocations', left: [eventProcessor.metricInvocations({ period, statistic: 'Sum' }), errors, throttles], width: 12 }),
+      new GraphWidget({ title: 'Event processor duration (p99)', left: [duration], width: 12 })
+    );
+    this.dashboard.addWidgets(
+      new GraphWidget({ title: 'Files received', left: perSubdirectory('FilesReceived'), width: 8 }),
+      new GraphWidget({ title: 'Files renamed', left: perSubdirectory('FilesRenamed'), width: 8 }),
+      new GraphWidget({ title: 'Files skipped', left: perSubdirectory('FilesSkipped'), width: 8 })
+    );
+    this.dashboard.addWidgets(
+      new GraphWidget({ title: 'Files errored', left: [...perSubdirectory('FilesErrored'), ...perSubdirectory('FilesMovedToErrors')], width: 8 }),
+      new GraphWidget({ title: 'Bytes processed', left: perSubdirectory('BytesProcessed'), width: 8 }),
+      new GraphWidget({ title: 'Subscriber latency (p99)', left: perSubdirectory('SubscriberLatency', 'p99'), width: 8 })
+    );
+    this.dashboard.addWidgets(
+      new GraphWidget({ title: 'Stragglers found by the sweeper', left: perSubdirectory('StragglersFound'), width: 12 }),
+      new GraphWidget({ title: 'Stragglers recovered by the sweeper', left: perSubdirectory('StragglersRecovered'), width: 12 })
+    );
+  }
+
+  /**
+   * Metric the event processor emits for a subdirectory, see src/event-processor/Logger.ts
+   */
+  private fileMetric(metricName: string, subdirectory: string, period: Duration, statistic = 'Sum'): Metric {
+    return new Metric({
+      namespace: this.namespace,
+      metricName,
+      dimensionsMap: { Subdirectory: subdirectory },
+      period,
+      statistic
+    });
+  }
+
+  /**
+   * Create an alarm notifying the alarm topic, firing on the first datapoint at or above threshold unless told otherwise
+   */
+  private addAlarm(id: string, props: Omit<AlarmProps, 'evaluationPeriods'> & Partial<Pick<AlarmProps, 'evaluationPeriods'>>): void {
+    const alarm = new Alarm(this, id, {
+      comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      evaluationPeriods: 1,
+      treatMissingData: TreatMissingData.NOT_BREACHING,
+      ...props
+    });
+    alarm.addAlarmAction(new SnsAction(this.topic));
+    this.alarms.push(alarm);
+  }
+}
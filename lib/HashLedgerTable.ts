@@ -0,0 +1,35 @@
+import { RemovalPolicy } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+
+export type HashLedgerTableProps = {
+  context: IContext;
+};
+
+/**
+ * DynamoDB table recording the SHA-256 of recent drops, used to suppress identical re-uploads.
+ * Only needed when at least one subdirectory sets duplicateWindowHours.
+ *
+ * Features:
+ * - One item per subdirectory and content hash (partition key "{path}#{sha256}")
+ * - Items expire via DynamoDB TTL once they fall outside the duplicate window
+ * - Destroyed with the stack, the ledger only holds short-lived state
+ */
+export class HashLedgerTable extends Construct {
+  public readonly table: Table;
+
+  constructor(scope: Construct, id: string, props: HashLedgerTableProps) {
+    super(scope, id);
+
+    const { STACK_ID, TAGS: { Landscape } } = props.context;
+
+    this.table = new Table(this, 'table', {
+      tableName: `${STACK_ID}-hash-ledger-${Landscape}`,
+      partitionKey: { name: 'hashKey', type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: RemovalPolicy.DESTROY
+    });
+  }
+}
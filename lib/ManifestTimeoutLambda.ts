@@ -0,0 +1,78 @@
+import { Duration, Stack } from 'aws-cdk-lib';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { ITopic } from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+import { getMetricsNamespace, getRuntimeBucketConfig } from './EventProcessorLambda';
+
+export type ManifestTimeoutLambdaProps = {
+  context: IContext;
+  bucket: Bucket;
+};
+
+/**
+ * Scheduled Lambda function that escalates parts of multi-part drops whose manifest never arrived.
+ * Only needed when at least one subdirectory uses the manifest protocol.
+ *
+ * Responsibilities:
+ * - Find held parts older than their subdirectory's manifest timeout
+ * - Move them to the {subfolder}/errors/ subdirectory
+ */
+export class ManifestTimeoutLambda extends Construct {
+  public readonly lambda: NodejsFunction;
+
+  constructor(scope: Construct, id: string, props: ManifestTimeoutLambdaProps) {
+    super(scope, id);
+
+    const { context, bucket } = props;
+    const { STACK_ID, TAGS: { Landscape }, BUCKET } = context;
+
+    this.lambda = new NodejsFunction(this, 'lambda-function', {
+      functionName: `${STACK_ID}-manifest-timeout-checker-${Landscape}`,
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'src/manifest-timeout-checker/index.ts',
+      timeout: Duration.seconds(300),
+      memorySize: 256,
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        BUCKET_CONFIG: Stack.of(this).toJsonString(getRuntimeBucketConfig(context, bucket.encryptionKey?.keyArn)),
+        METRICS_NAMESPACE: getMetricsNamespace(context)
+      },
+      bundling: {
+        externalModules: [
+          '@aws-sdk/*',
+        ]
+      }
+    });
+
+    // Grant Lambda permissions to list, copy and delete held parts
+    bucket.grantReadWrite(this.lambda);
+    bucket.grantDelete(this.lambda);
+
+    // Check at least as often as the shortest timeout, and no less than every 15 minutes
+    const timeouts = BUCKET.subdirectories
+      .filter(sub => sub.manifest)
+      .map(sub => sub.manifest!.timeoutMinutes);
+    const intervalMinutes = Math.max(1, Math.min(15, ...timeouts));
+
+    new Rule(this, 'schedule', {
+      description: 'Escalates multi-part drop parts whose manifest never arrived',
+      schedule: Schedule.rate(Duration.minutes(intervalMinutes)),
+      targets: [new LambdaFunction(this.lambda)]
+    });
+  }
+
+  /**
+   * Publish a summary of every file moved to {subfolder}/errors/ to the topic, with a link to its error report
+   */
+  notifyErrorsTo(topic: ITopic): void {
+    this.lambda.addEnvironment('ERROR_TOPIC_ARN', topic.topicArn);
+    topic.grantPublish(this.lambda);
+  }
+}
@@ -0,0 +1,68 @@
+import { Duration } from 'aws-cdk-lib';
+import { Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Topic } from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+
+export type OverdueDropCheckerLambdaProps = {
+  context: IContext;
+  expectedDropTable: Table;
+};
+
+/**
+ * Scheduled Lambda function that notifies about expected drops that did not arrive by their deadline.
+ *
+ * Responsibilities:
+ * - Every 5 minutes, find pending registrations past their deadline
+ * - Publish an "overdue drop" notification for each to the overdue drop SNS topic
+ */
+export class OverdueDropCheckerLambda extends Construct {
+  public readonly lambda: NodejsFunction;
+  public readonly topic: Topic;
+
+  constructor(scope: Construct, id: string, props: OverdueDropCheckerLambdaProps) {
+    super(scope, id);
+
+    const { context, expectedDropTable } = props;
+    const { STACK_ID, TAGS: { Landscape } } = context;
+
+    this.topic = new Topic(this, 'topic', {
+      topicName: `${STACK_ID}-overdue-drops-${Landscape}`,
+      displayName: 'Overdue file drops'
+    });
+
+    this.lambda = new NodejsFunction(this, 'lambda-function', {
+      functionName: `${STACK_ID}-overdue-drop-checker-${Landscape}`,
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'src/overdue-drop-checker/index.ts',
+      timeout: Duration.seconds(60),
+      memorySize: 256,
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        EXPECTED_DROP_TABLE: expectedDropTable.tableName,
+        OVERDUE_DROP_TOPIC_ARN: this.topic.topicArn
+      },
+      bundling: {
+        externalModules: [
+          '@aws-sdk/*',
+        ]
+      }
+    });
+
+    // Grant Lambda permission to find and mark overdue registrations, and to notify about them
+    expectedDropTable.grantReadWriteData(this.lambda);
+    this.topic.grantPublish(this.lambda);
+
+    new Rule(this, 'schedule', {
+      description: 'Notifies about expected file drops that missed their deadline',
+      schedule: Schedule.rate(Duration.minutes(5)),
+      targets: [new LambdaFunction(this.lambda)]
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { RemovalPolicy } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, ProjectionType, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+
+export type ProcessingLedgerTableProps = {
+  context: IContext;
+};
+
+/**
+ * DynamoDB table recording the outcome of processing every dropped file.
+ *
+ * Features:
+ * - One item per processed S3 event (partition key originalKey, sort key "{eventTime}#{sequencer}")
+ * - "by-new-key" index to look files up by the key they were renamed to
+ * - "by-request-id" index to look the files of a drop up by the requestId of its envelope or manifest
+ * - "by-subdirectory" index to find the files dropped in a subdirectory within a time range
+ * - Point-in-time recovery enabled, the ledger is the long-term record of what happened to each file
+ * - Destroyed with the stack, like the bucket whose files it describes
+ */
+export class ProcessingLedgerTable extends Construct {
+  public readonly table: Table;
+
+  constructor(scope: Construct, id: string, props: ProcessingLedgerTableProps) {
+    super(scope, id);
+
+    const { STACK_ID, TAGS: { Landscape } } = props.context;
+
+    this.table = new Table(this, 'table', {
+      tableName: `${STACK_ID}-processing-ledger-${Landscape}`,
+      partitionKey: { name: 'originalKey', type: AttributeType.STRING },
+      sortKey: { name: 'eventId', type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      removalPolicy: RemovalPolicy.DESTROY
+    });
+
+    this.table.addGlobalSecondaryIndex({
+      indexName: 'by-new-key',
+      partitionKey: { name: 'newKey', type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL
+    });
+
+    this.table.addGlobalSecondaryIndex({
+      indexName: 'by-request-id',
+      partitionKey: { name: 'requestId', type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL
+    });
+
+    this.table.addGlobalSecondaryIndex({
+      indexName: 'by-subdirectory',
+      partitionKey: { name: 'subdirectory', type: AttributeType.STRING },
+      sortKey: { name: 'eventTime', type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL
+    });
+  }
+}
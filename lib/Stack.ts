@@ -1,10 +1,22 @@
 import * as cdk from 'aws-cdk-lib/core';
 import { Construct } from 'constructs';
-import { IContext } from '../context/IContext';
+import { IContext, getSubscriberTarget, getSubscribers } from '../context/IContext';
 import { FileDropBucket } from './FileDropBucket';
 import { EventProcessorLambda } from './EventProcessorLambda';
 import { BucketAccessKeys } from './AccessKeys';
 import { TestSubscriberLambda, isTestFunctionArn } from './TestSubscriberLambda';
+import { ManifestTimeoutLambda } from './ManifestTimeoutLambda';
+import { HashLedgerTable } from './HashLedgerTable';
+import { EventLedgerTable } from './EventLedgerTable';
+import { ProcessingLedgerTable } from './ProcessingLedgerTable';
+import { DropStatusApi } from './DropStatusApi';
+import { ExpectedDropTable } from './ExpectedDropTable';
+import { ExpectedDropApi } from './ExpectedDropApi';
+import { OverdueDropCheckerLambda } from './OverdueDropCheckerLambda';
+import { FileDropMonitoring } from './FileDropMonitoring';
+import { UploadTokenApi } from './UploadTokenApi';
+import { DropRestoreLambda } from './DropRestoreLambda';
+import { SweeperLambda } from './SweeperLambda';
 
 export type FileDropStackProps = {
   context: IContext;
@@ -17,15 +29,43 @@ export type FileDropStackProps = {
  * Creates:
  * - S3 bucket for receiving async data files
  * - Lambda function to process S3 events and invoke subscriber lambdas
- * - IAM access keys for external systems (stored in Secrets Manager)
+ * - Scheduled sweeper processing files whose S3 event never reached the event processor
+ * - DynamoDB ledger of handled S3 event deliveries (redelivery detection)
+ * - DynamoDB ledger of the outcome of processing every dropped file
+ * - IAM access keys for external systems (stored in Secrets Manager), one user per named uploader (or roles)
+ * - IAM-authorized status API external systems poll for the processing state of their drops
+ * - Expected-drop registry: IAM-authorized registration API, and a scheduled checker notifying about overdue drops via SNS
+ * - CloudWatch dashboard and alarms (errors, throttles, files moved to errors/, latency, stale subdirectories) notifying an SNS topic
+ * - Notifications on the same topic for every file moved to errors/, linking to its error report
  * - Bucket policies for Lambda read access
  * - Optional test subscriber Lambda for testing (when LAMBDA.subscriberForTesting is configured)
+ * - Optional DynamoDB ledger of content hashes (when any subdirectory sets duplicateWindowHours)
+ * - Optional scheduled manifest timeout checker (when any subdirectory uses the manifest protocol)
+ * - Optional API-key-authorized endpoint issuing pre-signed uploads (when UPLOAD_TOKENS is configured)
+ * - Optional Lambda restoring archived drops and re-dispatching them (when any subdirectory sets transitions)
  */
 export class FileDropStack extends cdk.Stack {
   public readonly bucket: FileDropBucket;
   public readonly eventProcessor: EventProcessorLambda;
+  public readonly sweeper: SweeperLambda;
+  public readonly uploaders: BucketAccessKeys[];
+
+  /**
+   * Access keys of the default uploader, the first of uploaders
+   */
   public readonly accessKeys: BucketAccessKeys;
+  public readonly eventLedgerTable: EventLedgerTable;
+  public readonly processingLedgerTable: ProcessingLedgerTable;
+  public readonly dropStatusApi: DropStatusApi;
+  public readonly expectedDropTable: ExpectedDropTable;
+  public readonly expectedDropApi: ExpectedDropApi;
+  public readonly overdueDropChecker: OverdueDropCheckerLambda;
+  public readonly monitoring: FileDropMonitoring;
   public readonly testSubscriberLambda?: TestSubscriberLambda;
+  public readonly manifestTimeoutLambda?: ManifestTimeoutLambda;
+  public readonly hashLedgerTable?: HashLedgerTable;
+  public readonly uploadTokenApi?: UploadTokenApi;
+  public readonly dropRestoreLambda?: DropRestoreLambda;
 
   constructor(scope: Construct, id: string, props: FileDropStackProps) {
     const { context, stackProps } = props;
@@ -34,29 +74,132 @@ export class FileDropStack extends cdk.Stack {
     // Create the S3 bucket
     this.bucket = new FileDropBucket(this, 'file-drop-bucket', { context });
 
+    // Record handled event deliveries so S3 redeliveries are recognised
+    this.eventLedgerTable = new EventLedgerTable(this, 'event-ledger-table', { context });
+
+    // Record what happened to every dropped file
+    this.processingLedgerTable = new ProcessingLedgerTable(this, 'processing-ledger-table', { context });
+
+    // Record the drops requesting processes are waiting for
+    this.expectedDropTable = new ExpectedDropTable(this, 'expected-drop-table', { context });
+
+    // Record content hashes so identical re-uploads are not dispatched twice
+    if (context.BUCKET.subdirectories.some(sub => sub.duplicateWindowHours)) {
+      this.hashLedgerTable = new HashLedgerTable(this, 'hash-ledger-table', { context });
+    }
+
     // Create the event processor Lambda
     this.eventProcessor = new EventProcessorLambda(this, 'event-processor-lambda', {
       context,
-      bucket: this.bucket.bucket
+      bucket: this.bucket.bucket,
+      hashLedgerTable: this.hashLedgerTable?.table,
+      eventLedgerTable: this.eventLedgerTable.table,
+      processingLedgerTable: this.processingLedgerTable.table,
+      expectedDropTable: this.expectedDropTable.table
     });
 
+    // With a customer-managed key, also let the event processor decrypt drops and encrypt their copies through the key policy
+    this.bucket.grantKeyToPrincipal(this.eventProcessor.lambda.role!, 'AllowEventProcessorEncryptDecrypt', [
+      'kms:Decrypt',
+      'kms:Encrypt',
+      'kms:GenerateDataKey*'
+    ]);
+
+    // Catch files whose S3 event was lost, running them through the same processing
+    this.sweeper = new SweeperLambda(this, 'sweeper-lambda', {
+      context,
+      bucket: this.bucket.bucket,
+      hashLedgerTable: this.hashLedgerTable?.table,
+      eventLedgerTable: this.eventLedgerTable.table,
+      processingLedgerTable: this.processingLedgerTable.table,
+      expectedDropTable: this.expectedDropTable.table
+    });
+    this.bucket.grantKeyToPrincipal(this.sweeper.lambda.role!, 'AllowSweeperEncryptDecrypt', [
+      'kms:Decrypt',
+      'kms:Encrypt',
+      'kms:GenerateDataKey*'
+    ]);
+
+    // Escalate held parts of multi-part drops whose manifest never arrives
+    if (context.BUCKET.subdirectories.some(sub => sub.manifest)) {
+      this.manifestTimeoutLambda = new ManifestTimeoutLambda(this, 'manifest-timeout-lambda', {
+        context,
+        bucket: this.bucket.bucket
+      });
+    }
+
+    // Restore drops that were transitioned to archive storage classes and re-dispatch them on request
+    if (context.BUCKET.subdirectories.some(sub => sub.transitions)) {
+      this.dropRestoreLambda = new DropRestoreLambda(this, 'drop-restore-lambda', {
+        context,
+        bucket: this.bucket.bucket
+      });
+    }
+
     // Grant read access to all subscriber Lambda(s) referenced in subdirectories
     // Filter out test Lambda if present - it gets permissions via bucket.grantRead() in TestSubscriberLambda construct
-    const externalSubdirectories = context.BUCKET.subdirectories.filter(
-      sub => !isTestFunctionArn(sub.subscriberLambdaArn, context)
-    );
-    const subscriberLambdaRoleArns = externalSubdirectories.map(sub => sub.subscriberLambdaExecutionRoleArn);
+    // Webhooks have no role, and other target types only when their consumer reads from the bucket
+    const subscriberLambdaRoleArns = context.BUCKET.subdirectories
+      .flatMap(getSubscribers)
+      .filter(subscriber => !isTestFunctionArn(getSubscriberTarget(subscriber), context))
+      .map(subscriber => 'executionRoleArn' in subscriber ? subscriber.executionRoleArn : undefined)
+      .filter((roleArn): roleArn is string => !!roleArn);
     const uniqueLambdaRoleArns = [...new Set(subscriberLambdaRoleArns)]; // Remove duplicates
     uniqueLambdaRoleArns.forEach((roleArn, index) => {
       this.bucket.grantReadToLambda(roleArn, index + 1);
     });
 
-    // Create IAM access keys for external system
-    this.accessKeys = new BucketAccessKeys(this.bucket, 'access-keys', {
+    // Create IAM access keys for external system, or one identity per named uploader
+    this.uploaders = context.BUCKET.uploaders
+      ? context.BUCKET.uploaders.map(uploader => new BucketAccessKeys(this.bucket, `access-keys-${uploader.name}`, {
+        context,
+        bucket: this.bucket.bucket,
+        uploader
+      }))
+      : [new BucketAccessKeys(this.bucket, 'access-keys', { context, bucket: this.bucket.bucket })];
+    this.accessKeys = this.uploaders[0];
+
+    // Let the external system poll for the processing state of its drops
+    this.dropStatusApi = new DropStatusApi(this, 'drop-status-api', {
+      context,
+      processingLedgerTable: this.processingLedgerTable.table,
+      uploaders: this.uploaders.map(uploader => uploader.identity)
+    });
+
+    // Let requesting processes register the drops they are waiting for, on the same API
+    this.expectedDropApi = new ExpectedDropApi(this, 'expected-drop-api', {
+      context,
+      expectedDropTable: this.expectedDropTable.table,
+      api: this.dropStatusApi.api,
+      uploaders: this.uploaders.map(uploader => uploader.identity)
+    });
+
+    // Let external systems upload with short-lived pre-signed requests instead of the access keys
+    if (context.UPLOAD_TOKENS) {
+      this.uploadTokenApi = new UploadTokenApi(this, 'upload-token-api', {
+        context,
+        bucket: this.bucket.bucket,
+        api: this.dropStatusApi.api
+      });
+    }
+
+    // Notify when an expected drop misses its deadline
+    this.overdueDropChecker = new OverdueDropCheckerLambda(this, 'overdue-drop-checker-lambda', {
+      context,
+      expectedDropTable: this.expectedDropTable.table
+    });
+
+    // Alarm on failures and silence in the pipeline
+    this.monitoring = new FileDropMonitoring(this, 'monitoring', {
       context,
-      bucket: this.bucket.bucket
+      eventProcessor: this.eventProcessor.lambda
     });
 
+    // Summarise every file moved to errors on the alarm topic, linking to its error report
+    this.eventProcessor.notifyErrorsTo(this.monitoring.topic);
+    this.manifestTimeoutLambda?.notifyErrorsTo(this.monitoring.topic);
+    this.sweeper.notifyErrorsTo(this.monitoring.topic);
+
     // Optionally create test subscriber Lambda for testing
     if (context.LAMBDA.subscriberForTesting) {
       this.testSubscriberLambda = new TestSubscriberLambda(this, 'test-subscriber-lambda', {
@@ -78,11 +221,31 @@ export class FileDropStack extends cdk.Stack {
       exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-bucket-arn`
     });
 
-    new cdk.CfnOutput(this, 'AccessKeysSecretArn', {
-      value: this.accessKeys.secretArn,
-      description: 'Secrets Manager ARN containing S3 access keys',
-      exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-access-keys-secret-arn`
-    });
+    if (context.BUCKET.uploaders) {
+      context.BUCKET.uploaders.forEach((uploader, index) => {
+        const { secretArn, roleArn } = this.uploaders[index];
+        if (secretArn) {
+          new cdk.CfnOutput(this, `AccessKeysSecretArn-${uploader.name}`, {
+            value: secretArn,
+            description: `Secrets Manager ARN containing S3 access keys of uploader ${uploader.name}`,
+            exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-${uploader.name}-access-keys-secret-arn`
+          });
+        }
+        if (roleArn) {
+          new cdk.CfnOutput(this, `UploaderRoleArn-${uploader.name}`, {
+            value: roleArn,
+            description: `ARN of the role partner accounts of uploader ${uploader.name} assume to upload`,
+            exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-${uploader.name}-uploader-role-arn`
+          });
+        }
+      });
+    } else if (this.accessKeys.secretArn) {
+      new cdk.CfnOutput(this, 'AccessKeysSecretArn', {
+        value: this.accessKeys.secretArn,
+        description: 'Secrets Manager ARN containing S3 access keys',
+        exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-access-keys-secret-arn`
+      });
+    }
 
     new cdk.CfnOutput(this, 'EventProcessorLambdaArn', {
       value: this.eventProcessor.lambda.functionArn,
@@ -90,6 +253,64 @@ export class FileDropStack extends cdk.Stack {
       exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-event-processor-arn`
     });
 
+    new cdk.CfnOutput(this, 'SweeperLambdaArn', {
+      value: this.sweeper.lambda.functionArn,
+      description: 'Sweeper Lambda ARN (invoke it to sweep for unprocessed files straight away)',
+      exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-sweeper-arn`
+    });
+
+    new cdk.CfnOutput(this, 'ProcessingLedgerTableName', {
+      value: this.processingLedgerTable.table.tableName,
+      description: 'DynamoDB table recording the outcome of processing every dropped file',
+      exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-processing-ledger-table`
+    });
+
+    new cdk.CfnOutput(this, 'DropStatusApiUrl', {
+      value: this.dropStatusApi.url,
+      description: 'Status endpoint for drops (GET, IAM-authorized with the bucket access keys)',
+      exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-drop-status-api-url`
+    });
+
+    new cdk.CfnOutput(this, 'ExpectedDropApiUrl', {
+      value: this.dropStatusApi.api.urlForPath('/expected-drops'),
+      description: 'Registration endpoint for expected drops (POST/GET, IAM-authorized with the bucket access keys)',
+      exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-expected-drop-api-url`
+    });
+
+    new cdk.CfnOutput(this, 'OverdueDropTopicArn', {
+      value: this.overdueDropChecker.topic.topicArn,
+      description: 'SNS topic notified when an expected drop misses its deadline',
+      exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-overdue-drop-topic-arn`
+    });
+
+    new cdk.CfnOutput(this, 'AlarmTopicArn', {
+      value: this.monitoring.topic.topicArn,
+      description: 'SNS topic notified by the pipeline alarms',
+      exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-alarm-topic-arn`
+    });
+
+    if (this.uploadTokenApi) {
+      new cdk.CfnOutput(this, 'UploadTokenApiUrl', {
+        value: this.dropStatusApi.api.urlForPath('/upload-tokens'),
+        description: 'Endpoint issuing pre-signed uploads (POST, authorized with the upload token API key)',
+        exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-upload-token-api-url`
+      });
+
+      new cdk.CfnOutput(this, 'UploadTokenApiKeyId', {
+        value: this.uploadTokenApi.apiKey.keyId,
+        description: 'Id of the API key for the upload token endpoint (value: aws apigateway get-api-key --include-value)',
+        exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-upload-token-api-key-id`
+      });
+    }
+
+    if (this.dropRestoreLambda) {
+      new cdk.CfnOutput(this, 'DropRestoreLambdaArn', {
+        value: this.dropRestoreLambda.lambda.functionArn,
+        description: 'Lambda to invoke with { "key": ... } to restore an archived drop and re-dispatch it',
+        exportName: `${context.STACK_ID}-${context.TAGS.Landscape}-drop-restore-arn`
+      });
+    }
+
     if (this.testSubscriberLambda) {
       new cdk.CfnOutput(this, 'TestSubscriberLambdaArn', {
         value: this.testSubscriberLambda.lambda.functionArn,
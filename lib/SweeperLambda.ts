@@ -0,0 +1,103 @@
+import { Duration, Stack } from 'aws-cdk-lib';
+import { Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { ITopic } from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+import { getMetricsNamespace, getRuntimeBucketConfig, grantNotifySubscribers } from './EventProcessorLambda';
+
+export type SweeperLambdaProps = {
+  context: IContext;
+  bucket: Bucket;
+
+  /**
+   * Same ledgers and registry as the event processor, so swept files are handled exactly like notified ones
+   */
+  hashLedgerTable?: Table;
+  eventLedgerTable?: Table;
+  processingLedgerTable?: Table;
+  expectedDropTable?: Table;
+};
+
+/**
+ * Scheduled Lambda function that processes files the event processor never saw, e.g. because an S3 event was lost.
+ *
+ * Responsibilities:
+ * - List every configured subdirectory for files older than LAMBDA.sweeper.minAgeMinutes that were not renamed
+ * - Run them through the event processor logic, recording the outcome in the processing ledger
+ * - Emit per-subdirectory metrics of stragglers found and recovered
+ */
+export class SweeperLambda extends Construct {
+  public readonly lambda: NodejsFunction;
+
+  constructor(scope: Construct, id: string, props: SweeperLambdaProps) {
+    super(scope, id);
+
+    const { context, bucket, hashLedgerTable, eventLedgerTable, processingLedgerTable, expectedDropTable } = props;
+    const { STACK_ID, TAGS: { Landscape }, LAMBDA } = context;
+    const intervalMinutes = LAMBDA.sweeper?.intervalMinutes || 15;
+    const minAgeMinutes = LAMBDA.sweeper?.minAgeMinutes || 60;
+
+    if (intervalMinutes < 1) {
+      throw new Error(`LAMBDA.sweeper.intervalMinutes must be at least 1, got ${intervalMinutes}`);
+    }
+    if (minAgeMinutes * 60 <= (LAMBDA.eventProcessor?.timeoutSeconds || 300)) {
+      throw new Error(`LAMBDA.sweeper.minAgeMinutes (${minAgeMinutes}) must be longer than the event processor timeout, or files still being processed are swept`);
+    }
+
+    this.lambda = new NodejsFunction(this, 'lambda-function', {
+      functionName: `${STACK_ID}-sweeper-${Landscape}`,
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'src/sweeper/index.ts',
+      timeout: Duration.seconds(LAMBDA.sweeper?.timeoutSeconds || 900),
+      memorySize: LAMBDA.sweeper?.memorySizeMb || 512,
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        BUCKET_CONFIG: Stack.of(this).toJsonString(getRuntimeBucketConfig(context, bucket.encryptionKey?.keyArn)),
+        METRICS_NAMESPACE: getMetricsNamespace(context),
+        MIN_AGE_MINUTES: `${minAgeMinutes}`,
+        ...(hashLedgerTable && { HASH_LEDGER_TABLE: hashLedgerTable.tableName }),
+        ...(eventLedgerTable && { EVENT_LEDGER_TABLE: eventLedgerTable.tableName }),
+        ...(processingLedgerTable && { PROCESSING_LEDGER_TABLE: processingLedgerTable.tableName }),
+        ...(expectedDropTable && { EXPECTED_DROP_TABLE: expectedDropTable.tableName })
+      },
+      bundling: {
+        externalModules: [
+          '@aws-sdk/*',
+        ]
+      }
+    });
+
+    // Grant Lambda permissions to list, read, rename and move files, like the event processor
+    bucket.grantReadWrite(this.lambda);
+    bucket.grantDelete(this.lambda);
+
+    hashLedgerTable?.grantReadWriteData(this.lambda);
+    eventLedgerTable?.grantReadWriteData(this.lambda);
+    processingLedgerTable?.grantWriteData(this.lambda);
+    expectedDropTable?.grantReadWriteData(this.lambda);
+
+    // Grant Lambda permission to notify each subscriber target
+    grantNotifySubscribers(this.lambda, context);
+
+    new Rule(this, 'schedule', {
+      description: 'Processes files the event processor was never notified about',
+      schedule: Schedule.rate(Duration.minutes(intervalMinutes)),
+      targets: [new LambdaFunction(this.lambda)]
+    });
+  }
+
+  /**
+   * Publish a summary of every file moved to {subfolder}/errors/ to the topic, with a link to its error report
+   */
+  notifyErrorsTo(topic: ITopic): void {
+    this.lambda.addEnvironment('ERROR_TOPIC_ARN', topic.topicArn);
+    topic.grantPublish(this.lambda);
+  }
+}
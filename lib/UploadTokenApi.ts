@@ -0,0 +1,96 @@
+import { Duration } from 'aws-cdk-lib';
+import { ApiKey, AuthorizationType, LambdaIntegration, RestApi } from 'aws-cdk-lib/aws-apigateway';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { IContext } from '../context/IContext';
+import { getRuntimeBucketConfig } from './EventProcessorLambda';
+
+export type UploadTokenApiProps = {
+  context: IContext;
+  bucket: Bucket;
+
+  /**
+   * REST API the /upload-tokens resource is added to
+   */
+  api: RestApi;
+};
+
+/**
+ * Longest validity of an upload token. Pre-signed requests also stop working when the Lambda's
+ * session credentials they were signed with expire, so longer validities could not be relied on.
+ */
+const MAX_EXPIRES_IN_SECONDS = 3600;
+const MAX_SIZE_BYTES = 5 * 1024 * 1024 * 1024;
+
+/**
+ * HTTP endpoint issuing short-lived pre-signed uploads, an alternative to the bucket access keys
+ * for external systems that should not hold static AWS credentials.
+ *
+ * Responsibilities:
+ * - POST /upload-tokens returns a pre-signed PUT URL or POST policy for one key in one subdirectory,
+ *   with content type and size conditions
+ * - API key authorization: the key is created here, its value is read with `aws apigateway get-api-key --include-value`
+ * - Throttling through a usage plan
+ */
+export class UploadTokenApi extends Construct {
+  public readonly lambda: NodejsFunction;
+  public readonly apiKey: ApiKey;
+
+  constructor(scope: Construct, id: string, props: UploadTokenApiProps) {
+    super(scope, id);
+
+    const { context, bucket, api } = props;
+    const { STACK_ID, TAGS: { Landscape }, BUCKET, UPLOAD_TOKENS } = context;
+    const config = UPLOAD_TOKENS || {};
+
+    if (config.expiresInSeconds !== undefined && (config.expiresInSeconds < 1 || config.expiresInSeconds > MAX_EXPIRES_IN_SECONDS)) {
+      throw new Error(`UPLOAD_TOKENS.expiresInSeconds must be between 1 and ${MAX_EXPIRES_IN_SECONDS}`);
+    }
+    if (config.maxSizeBytes !== undefined && (config.maxSizeBytes < 1 || config.maxSizeBytes > MAX_SIZE_BYTES)) {
+      throw new Error(`UPLOAD_TOKENS.maxSizeBytes must be between 1 and ${MAX_SIZE_BYTES}`);
+    }
+
+    this.lambda = new NodejsFunction(this, 'lambda-function', {
+      functionName: `${STACK_ID}-upload-token-api-${Landscape}`,
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'src/upload-token-api/index.ts',
+      timeout: Duration.seconds(10),
+      memorySize: 256,
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        BUCKET_CONFIG: JSON.stringify(getRuntimeBucketConfig(context)),
+        UPLOAD_TOKEN_CONFIG: JSON.stringify(config)
+      },
+      bundling: {
+        externalModules: [
+          '@aws-sdk/*',
+        ]
+      }
+    });
+
+    // Pre-signed requests carry the Lambda's permissions, so grant it uploads to the subdirectories only
+    BUCKET.subdirectories.forEach(sub => bucket.grantPut(this.lambda, `${sub.path}/*`));
+
+    const uploadTokens = api.root.addResource('upload-tokens');
+    uploadTokens.addMethod('POST', new LambdaIntegration(this.lambda), {
+      authorizationType: AuthorizationType.NONE,
+      apiKeyRequired: true
+    });
+
+    this.apiKey = new ApiKey(this, 'api-key', {
+      apiKeyName: `${STACK_ID}-upload-tokens-${Landscape}`,
+      description: 'Key external systems request pre-signed uploads with'
+    });
+
+    const usagePlan = api.addUsagePlan('upload-token-usage-plan', {
+      name: `${STACK_ID}-upload-tokens-${Landscape}`,
+      throttle: { rateLimit: 10, burstLimit: 20 }
+    });
+    usagePlan.addApiKey(this.apiKey);
+    usagePlan.addApiStage({ stage: api.deploymentStage });
+  }
+}
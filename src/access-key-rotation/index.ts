@@ -0,0 +1,20 @@
+import { ScheduledEvent, SecretsManagerRotationEvent } from 'aws-lambda';
+import { AccessKeyRotator } from '../event-processor/AccessKeyRotation';
+
+const USERNAME = process.env.USERNAME || '';
+const SECRET_ARN = process.env.SECRET_ARN || '';
+const GRACE_PERIOD_HOURS = process.env.GRACE_PERIOD_HOURS ? parseInt(process.env.GRACE_PERIOD_HOURS) : undefined;
+
+const rotator = new AccessKeyRotator(USERNAME, GRACE_PERIOD_HOURS);
+
+/**
+ * Lambda handler for both the Secrets Manager rotation steps of the access keys secret,
+ * and the scheduled deletion of the previous access key once its grace period is over
+ */
+export async function handler(event: SecretsManagerRotationEvent | ScheduledEvent): Promise<void> {
+  if ('Step' in event) {
+    await rotator.rotate(event);
+    return;
+  }
+  await rotator.deleteExpiredPreviousKey(SECRET_ARN);
+}
@@ -0,0 +1,24 @@
+import { S3Event, Context as LambdaContext } from 'aws-lambda';
+import { BucketConfig } from '../../context/IContext';
+import { Bucket } from '../event-processor/Bucket';
+import { DropRestorer, RestoreRequest, RestoreResult } from '../event-processor/DropRestorer';
+import { logger } from '../event-processor/Logger';
+
+const BUCKET_CONFIG: BucketConfig = JSON.parse(process.env.BUCKET_CONFIG || '{"subdirectories": []}');
+
+/**
+ * Lambda handler that restores archived drops and re-dispatches them to their subscribers
+ * - Invoked on request with { key, days?, tier? }: starts the restore, or re-dispatches straight away if the drop is readable
+ * - Invoked by the s3:ObjectRestore:Completed event: re-dispatches the restored drop, if its restore was requested that way
+ */
+export async function handler(event: RestoreRequest | S3Event, context: LambdaContext): Promise<RestoreResult[]> {
+  const restorer = new DropRestorer(new Bucket(BUCKET_CONFIG));
+
+  const results = 'Records' in event
+    ? await Promise.all(event.Records.map(record =>
+      restorer.redispatch(decodeURIComponent(record.s3.object.key.replace(/\+/g, ' ')))))
+    : [await restorer.restore(event)];
+
+  logger.info('Drop restore results', { results });
+  return results;
+}
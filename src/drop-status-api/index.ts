@@ -0,0 +1,16 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DropStatusApi } from '../event-processor/DropStatus';
+import { DynamoDbProcessingLedger } from '../event-processor/ProcessingLedger';
+import { UploaderIdentity } from '../event-processor/Uploaders';
+
+const PROCESSING_LEDGER_TABLE = process.env.PROCESSING_LEDGER_TABLE || '';
+const UPLOADERS: UploaderIdentity[] = JSON.parse(process.env.UPLOADERS || '[]');
+
+const api = new DropStatusApi(new DynamoDbProcessingLedger(PROCESSING_LEDGER_TABLE), UPLOADERS);
+
+/**
+ * API Gateway handler returning the processing state of a drop
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  return api.handle(event);
+}
@@ -0,0 +1,232 @@
+import { CreateAccessKeyCommand, DeleteAccessKeyCommand, IAMClient, ListAccessKeysCommand } from '@aws-sdk/client-iam';
+import {
+  DescribeSecretCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+  UpdateSecretVersionStageCommand
+} from '@aws-sdk/client-secrets-manager';
+import { GetCallerIdentityCommand, STSClient } from '@aws-sdk/client-sts';
+import { SecretsManagerRotationEvent } from 'aws-lambda';
+import { logger } from './Logger';
+
+export const DEFAULT_GRACE_PERIOD_HOURS = 24;
+
+/**
+ * Shape of the access keys secret, as created by BucketAccessKeys
+ */
+export type AccessKeySecret = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucketName: string;
+  bucketArn: string;
+  region: string;
+
+  /**
+   * Key replaced by the last rotation, deleted once the grace period is over
+   */
+  previousAccessKeyId?: string;
+  rotatedAt?: string;
+}
+
+export type PropagationPolicy = {
+  /**
+   * Attempts at using a new access key before the rotation fails, IAM takes a few seconds to accept new keys
+   */
+  attempts: number;
+  delayMs: number;
+}
+
+const DEFAULT_PROPAGATION_POLICY: PropagationPolicy = { attempts: 6, delayMs: 5000 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Rotates the IAM access keys of the bucket service user stored in a Secrets Manager secret
+ * - createSecret: creates a new access key and stores it as the AWSPENDING version
+ * - setSecret: nothing to do, the new key is active as soon as IAM creates it
+ * - testSecret: checks AWS accepts the new key as the service user's
+ * - finishSecret: makes the new version AWSCURRENT
+ * The previous key keeps working until deleteExpiredPreviousKey runs after the grace period.
+ */
+export class AccessKeyRotator {
+  private username: string;
+  private gracePeriodHours: number;
+  private secretsClient: SecretsManagerClient;
+  private iamClient: IAMClient;
+  private createStsClient: (secret: AccessKeySecret) => STSClient;
+  private now: () => Date;
+  private propagation: PropagationPolicy;
+
+  constructor(
+    username: string,
+    gracePeriodHours: number = DEFAULT_GRACE_PERIOD_HOURS,
+    secretsClient?: SecretsManagerClient,
+    iamClient?: IAMClient,
+    createStsClient?: (secret: AccessKeySecret) => STSClient,
+    now?: () => Date,
+    propagation: PropagationPolicy = DEFAULT_PROPAGATION_POLICY
+  ) {
+    this.username = username;
+    this.gracePeriodHours = gracePeriodHours;
+    this.secretsClient = secretsClient || new SecretsManagerClient({});
+    this.iamClient = iamClient || new IAMClient({});
+    this.createStsClient = createStsClient || (secret => new STSClient({
+      region: secret.region,
+      credentials: { accessKeyId: secret.accessKeyId, secretAccessKey: secret.secretAccessKey }
+    }));
+    this.now = now || (() => new Date());
+    this.propagation = propagation;
+  }
+
+  async rotate(event: SecretsManagerRotationEvent): Promise<void> {
+    const { SecretId, ClientRequestToken, Step } = event;
+
+    const { RotationEnabled, VersionIdsToStages = {} } = await this.secretsClient.send(new DescribeSecretCommand({ SecretId }));
+    if (!RotationEnabled) {
+      throw new Error(`Rotation is not enabled for secret ${SecretId}`);
+    }
+    const stages = VersionIdsToStages[ClientRequestToken];
+    if (!stages) {
+      throw new Error(`Secret version ${ClientRequestToken} has no stage for rotation of secret ${SecretId}`);
+    }
+    if (stages.includes('AWSCURRENT')) {
+      logger.info(`Secret version ${ClientRequestToken} is already AWSCURRENT`, { action: Step });
+      return;
+    }
+    if (!stages.includes('AWSPENDING')) {
+      throw new Error(`Secret version ${ClientRequestToken} is not AWSPENDING for rotation of secret ${SecretId}`);
+    }
+
+    switch (Step) {
+      case 'createSecret':
+        return this.createSecret(SecretId, ClientRequestToken);
+      case 'setSecret':
+        // The new key is usable as soon as IAM has created it
+        return;
+      case 'testSecret':
+        return this.testSecret(SecretId, ClientRequestToken);
+      case 'finishSecret':
+        return this.finishSecret(SecretId, ClientRequestToken, VersionIdsToStages);
+      default:
+        throw new Error(`Unknown rotation step ${Step}`);
+    }
+  }
+
+  /**
+   * Delete the key replaced by the last rotation once the grace period is over
+   * @returns the deleted access key id, if any
+   */
+  async deleteExpiredPreviousKey(secretId: string): Promise<string | undefined> {
+    const { previousAccessKeyId, rotatedAt } = await this.getSecret(secretId, 'AWSCURRENT');
+    if (!previousAccessKeyId || !rotatedAt) {
+      return undefined;
+    }
+    if (this.now().getTime() < new Date(rotatedAt).getTime() + this.gracePeriodHours * 60 * 60 * 1000) {
+      return undefined;
+    }
+
+    const keyIds = await this.listAccessKeyIds();
+    if (!keyIds.includes(previousAccessKeyId)) {
+      return undefined;
+    }
+    await this.iamClient.send(new DeleteAccessKeyCommand({ UserName: this.username, AccessKeyId: previousAccessKeyId }));
+    logger.info(`Deleted access key ${previousAccessKeyId} of ${this.username}, replaced at ${rotatedAt}`);
+    return previousAccessKeyId;
+  }
+
+  private async createSecret(secretId: string, token: string): Promise<void> {
+    const current = await this.getSecret(secretId, 'AWSCURRENT');
+    try {
+      await this.getSecret(secretId, 'AWSPENDING', token);
+      logger.info(`Pending version ${token} already exists`, { action: 'createSecret' });
+      return;
+    } catch (error) {
+      if ((error as Error).name !== 'ResourceNotFoundException') {
+        throw error;
+      }
+    }
+
+    // IAM allows two keys per user: make room by deleting any key other than the current one,
+    // i.e. a previous key still in its grace period, or a key left behind by a failed attempt
+    for (const keyId of await this.listAccessKeyIds()) {
+      if (keyId !== current.accessKeyId) {
+        logger.warn(`Deleting access key ${keyId} of ${this.username} to make room for the new key`, { action: 'createSecret' });
+        await this.iamClient.send(new DeleteAccessKeyCommand({ UserName: this.username, AccessKeyId: keyId }));
+      }
+    }
+
+    const { AccessKey } = await this.iamClient.send(new CreateAccessKeyCommand({ UserName: this.username }));
+    const pending: AccessKeySecret = {
+      ...current,
+      accessKeyId: AccessKey!.AccessKeyId!,
+      secretAccessKey: AccessKey!.SecretAccessKey!,
+      previousAccessKeyId: current.accessKeyId,
+      rotatedAt: this.now().toISOString()
+    };
+
+    await this.secretsClient.send(new PutSecretValueCommand({
+      SecretId: secretId,
+      ClientRequestToken: token,
+      SecretString: JSON.stringify(pending),
+      VersionStages: ['AWSPENDING']
+    }));
+    logger.info(`Created access key ${pending.accessKeyId} for ${this.username}`, { action: 'createSecret' });
+  }
+
+  private async testSecret(secretId: string, token: string): Promise<void> {
+    const pending = await this.getSecret(secretId, 'AWSPENDING', token);
+    const stsClient = this.createStsClient(pending);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.checkCallerIsUser(stsClient);
+        logger.info(`Access key ${pending.accessKeyId} is accepted as ${this.username}`, { action: 'testSecret' });
+        return;
+      } catch (error) {
+        if (attempt >= this.propagation.attempts || (error as Error).name !== 'InvalidClientTokenId') {
+          throw error;
+        }
+        logger.warn(`Access key ${pending.accessKeyId} not accepted yet (attempt ${attempt} of ${this.propagation.attempts})`, { action: 'testSecret' });
+        await sleep(this.propagation.delayMs);
+      }
+    }
+  }
+
+  /**
+   * Ask STS who the key belongs to, which needs no permission and no bucket request:
+   * the bucket policy of an uploader with allowedIpRanges denies requests from the rotation Lambda
+   */
+  private async checkCallerIsUser(stsClient: STSClient): Promise<void> {
+    const { Arn = '' } = await stsClient.send(new GetCallerIdentityCommand({}));
+    if (!Arn.includes(':user/') || Arn.split('/').pop() !== this.username) {
+      throw new Error(`New access key belongs to ${Arn}, not to ${this.username}`);
+    }
+  }
+
+  private async finishSecret(secretId: string, token: string, versionIdsToStages: Record<string, string[]>): Promise<void> {
+    const currentVersion = Object.keys(versionIdsToStages).find(versionId => versionIdsToStages[versionId].includes('AWSCURRENT'));
+
+    await this.secretsClient.send(new UpdateSecretVersionStageCommand({
+      SecretId: secretId,
+      VersionStage: 'AWSCURRENT',
+      MoveToVersionId: token,
+      RemoveFromVersionId: currentVersion
+    }));
+    logger.info(`Secret version ${token} is now AWSCURRENT`, { action: 'finishSecret' });
+  }
+
+  private async getSecret(secretId: string, stage: string, versionId?: string): Promise<AccessKeySecret> {
+    const { SecretString } = await this.secretsClient.send(new GetSecretValueCommand({
+      SecretId: secretId,
+      VersionStage: stage,
+      VersionId: versionId
+    }));
+    return JSON.parse(SecretString || '{}');
+  }
+
+  private async listAccessKeyIds(): Promise<string[]> {
+    const { AccessKeyMetadata = [] } = await this.iamClient.send(new ListAccessKeysCommand({ UserName: this.username }));
+    return AccessKeyMetadata.map(key => key.AccessKeyId!);
+  }
+}
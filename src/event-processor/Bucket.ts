@@ -1,20 +1,93 @@
-import { S3Client, CopyObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NotFound,
+  PutObjectCommand,
+  PutObjectTaggingCommand,
+  RestoreObjectCommand,
+  ServerSideEncryption
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { Readable } from 'stream';
 import { BucketConfig } from "../../context/IContext";
+import { ErrorReport, ErrorReportDetails, IErrorNotifier, getReportKey } from './ErrorReport';
+import { emitMetrics, logger } from './Logger';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from './Retry';
+
+export type ObjectInfo = {
+  size: number;
+  contentType?: string;
+  metadata: Record<string, string>;
+
+  /**
+   * Storage class of the object, if not STANDARD
+   */
+  storageClass?: string;
+
+  /**
+   * State of the temporary copy of an archived object: being restored, or restored and readable
+   */
+  restore?: 'ongoing' | 'restored';
+}
+
+export type RestoreTier = 'Expedited' | 'Standard' | 'Bulk';
+
+export type ListedObject = {
+  key: string;
+  size: number;
+  lastModified: Date;
+  eTag?: string;
+}
 
 export type IBucket = {
   getConfig: () => BucketConfig
   getName: () => string
-  renameObject(key: string, newKey: string): Promise<boolean>
-  moveToErrors(key: string, subfolderPath: string, reason: string): Promise<boolean>
+  readObject(key: string): Promise<string>
+  getObjectStream(key: string): Promise<AsyncIterable<Uint8Array>>
+  getObjectInfo(key: string): Promise<ObjectInfo>
+  objectExists(key: string): Promise<boolean>
+  listObjects(prefix: string): Promise<ListedObject[]>
+  writeObject(key: string, body: Readable | string, contentType: string): Promise<void>
+  deleteObject(key: string): Promise<boolean>
+  renameObject(key: string, newKey: string, tags?: Record<string, string>): Promise<boolean>
+  moveToErrors(key: string, subfolderPath: string, reason: string, tags?: Record<string, string>, details?: ErrorReportDetails): Promise<boolean>
+  getTags(key: string): Promise<Record<string, string>>
+  putTags(key: string, tags: Record<string, string>): Promise<void>
+  restoreObject(key: string, days: number, tier: RestoreTier): Promise<void>
 }
 
+/**
+ * Make a value acceptable as an S3 tag value: characters S3 does not accept are replaced and it is cut to 256 characters
+ */
+export const toTagValue = (value: string): string =>
+  value.replace(/[^\p{L}\p{N}\s+\-=._:/@]/gu, '_').substring(0, 256);
+
+/**
+ * Tag of objects the event processor renamed, which the lifecycle rule of their subdirectory applies to
+ * (see lib/FileDropBucket.ts), so files in errors/ keep their own rule
+ */
+export const PROCESSED_TAGS: Record<string, string> = { 'drop-state': 'processed' };
+
 export class Bucket implements IBucket {
   private config: BucketConfig;
   private s3Client: S3Client;
+  private retryPolicy: RetryPolicy;
+  private errorNotifier?: IErrorNotifier;
 
-  constructor(config: BucketConfig, s3Client?: S3Client) {
+  /**
+   * Every S3 call is retried on transient errors (throttling, timeouts, 5xx) according to retryPolicy
+   * errorNotifier, if given, is told about every file moved to errors
+   */
+  constructor(config: BucketConfig, s3Client?: S3Client, retryPolicy?: RetryPolicy, errorNotifier?: IErrorNotifier) {
     this.config = config;
     this.s3Client = s3Client || new S3Client({});
+    this.retryPolicy = retryPolicy || DEFAULT_RETRY_POLICY;
+    this.errorNotifier = errorNotifier;
   }
 
   getConfig(): BucketConfig {
@@ -26,64 +99,324 @@ export class Bucket implements IBucket {
   }
 
   /**
-   * Rename S3 object by copying and deleting original
+   * Read the full body of an S3 object as a UTF-8 string
    */
-  async renameObject(key: string, newKey: string): Promise<boolean> {
-    try {
-      const bucketName = this.getName();
-      
-      // Copy to new key
-      await this.s3Client.send(new CopyObjectCommand({
-        Bucket: bucketName,
-        CopySource: `${bucketName}/${key}`,
-        Key: newKey
+  async readObject(key: string): Promise<string> {
+    return withRetry(`Reading ${key}`, async () => {
+      const response = await this.s3Client.send(new GetObjectCommand({
+        Bucket: this.getName(),
+        Key: key
       }));
 
-      // Delete old key
-      await this.s3Client.send(new DeleteObjectCommand({
-        Bucket: bucketName,
-        Key: key
+      if (!response.Body) {
+        throw new Error(`S3 object ${key} has no body`);
+      }
+
+      return response.Body.transformToString();
+    }, this.retryPolicy);
+  }
+
+  /**
+   * Open the body of an S3 object as a stream, for files too large to hold in memory
+   */
+  async getObjectStream(key: string): Promise<AsyncIterable<Uint8Array>> {
+    const response = await withRetry(`Opening ${key}`, () => this.s3Client.send(new GetObjectCommand({
+      Bucket: this.getName(),
+      Key: key
+    })), this.retryPolicy);
+
+    if (!response.Body) {
+      throw new Error(`S3 object ${key} has no body`);
+    }
+
+    return response.Body as Readable;
+  }
+
+  /**
+   * Get the size, content type, user metadata (x-amz-meta-*) and storage class of an S3 object
+   */
+  async getObjectInfo(key: string): Promise<ObjectInfo> {
+    const response = await withRetry(`Getting info of ${key}`, () => this.s3Client.send(new HeadObjectCommand({
+      Bucket: this.getName(),
+      Key: key
+    })), this.retryPolicy);
+
+    return {
+      size: response.ContentLength || 0,
+      contentType: response.ContentType,
+      metadata: response.Metadata || {},
+      ...(response.StorageClass && { storageClass: response.StorageClass }),
+      // e.g. ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"
+      ...(response.Restore && { restore: response.Restore.includes('ongoing-request="true"') ? 'ongoing' : 'restored' })
+    };
+  }
+
+  /**
+   * Check whether an S3 object exists
+   */
+  async objectExists(key: string): Promise<boolean> {
+    try {
+      await this.getObjectInfo(key);
+      return true;
+    } catch (error) {
+      if (error instanceof NotFound) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List all objects under a prefix, following continuation tokens
+   */
+  async listObjects(prefix: string): Promise<ListedObject[]> {
+    const objects: ListedObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const token = continuationToken;
+      const response = await withRetry(`Listing ${prefix}`, () => this.s3Client.send(new ListObjectsV2Command({
+        Bucket: this.getName(),
+        Prefix: prefix,
+        ContinuationToken: token
+      })), this.retryPolicy);
+
+      (response.Contents || []).forEach(item => objects.push({
+        key: item.Key!,
+        size: item.Size || 0,
+        lastModified: item.LastModified || new Date(0),
+        eTag: item.ETag
       }));
 
-      console.log(`Successfully renamed ${key} to ${newKey}`);
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  /**
+   * Write an S3 object, streaming the body in multipart chunks when it is large
+   * A stream can only be read once, so only string bodies are retried as a whole
+   * (the multipart upload itself retries individual parts)
+   */
+  async writeObject(key: string, body: Readable | string, contentType: string): Promise<void> {
+    const write = () => new Upload({
+      client: this.s3Client,
+      params: {
+        Bucket: this.getName(),
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ...this.getEncryptionParams()
+      }
+    }).done();
+    if (typeof body === 'string') {
+      await withRetry(`Writing ${key}`, write, this.retryPolicy);
+    } else {
+      await write();
+    }
+    logger.info(`Successfully wrote ${key}`);
+  }
+
+  /**
+   * Delete an S3 object
+   */
+  async deleteObject(key: string): Promise<boolean> {
+    try {
+      await withRetry(`Deleting ${key}`, () => this.s3Client.send(new DeleteObjectCommand({
+        Bucket: this.getName(),
+        Key: key
+      })), this.retryPolicy);
+      logger.info(`Successfully deleted ${key}`);
       return true;
     } catch (error) {
-      console.error(`Error renaming object from ${key} to ${newKey}:`, error);
+      logger.error(`Error deleting object ${key}`, { error });
       return false;
     }
   }
 
+  /**
+   * Rename S3 object by copying and deleting original
+   * Tags, if any are given, are added to the ones the object already has
+   */
+  async renameObject(key: string, newKey: string, tags?: Record<string, string>): Promise<boolean> {
+    let tagging: string | undefined;
+    if (tags) {
+      try {
+        tagging = new URLSearchParams({ ...await this.getTags(key), ...tags }).toString();
+      } catch (error) {
+        logger.error(`Error reading tags of ${key}`, { error });
+        return false;
+      }
+    }
+
+    const moved = await this.moveObject(key, newKey, tagging);
+    if (moved) {
+      logger.info(`Successfully renamed ${key} to ${newKey}`);
+    }
+    return moved;
+  }
+
   /**
    * Move object to errors subfolder within the same parent folder
    * Uses timestamp-based naming with ISO date prefix
+   * The full reason and details go into a {errorKey}.error.json report next to it, the error-reason tag is cut to fit
+   */
+  async moveToErrors(
+    key: string,
+    subfolderPath: string,
+    reason: string,
+    tags?: Record<string, string>,
+    details?: ErrorReportDetails
+  ): Promise<boolean> {
+    const timestamp = new Date().toISOString();
+    const originalFilename = key.split('/').pop() || 'unknown';
+    const errorKey = `${subfolderPath}/errors/${timestamp}-${originalFilename}`;
+
+    const tagging = [`error-reason=${encodeURIComponent(toTagValue(reason))}`, ...(tags ? [new URLSearchParams(tags).toString()] : [])].join('&');
+    const moved = await this.moveObject(key, errorKey, tagging);
+    if (moved) {
+      logger.info(`Moved ${key} to errors subfolder: ${errorKey} (Reason: ${reason})`);
+      emitMetrics(subfolderPath, { FilesMovedToErrors: { value: 1, unit: 'Count' } });
+      await this.reportError({
+        bucket: this.getName(),
+        originalKey: key,
+        errorKey,
+        subdirectory: subfolderPath,
+        reason,
+        movedAt: timestamp,
+        ...details
+      });
+    }
+    return moved;
+  }
+
+  /**
+   * Write the report of a file moved to errors next to it, and notify about it
+   * The file is in errors/ either way, so failures are logged rather than thrown
+   */
+  private async reportError(report: ErrorReport): Promise<void> {
+    const reportKey = getReportKey(report.errorKey);
+    try {
+      await withRetry(`Writing ${reportKey}`, () => this.s3Client.send(new PutObjectCommand({
+        Bucket: this.getName(),
+        Key: reportKey,
+        Body: JSON.stringify(report, null, 2),
+        ContentType: 'application/json',
+        ...this.getEncryptionParams()
+      })), this.retryPolicy);
+    } catch (error) {
+      logger.error(`Error writing error report ${reportKey}`, { error });
+    }
+
+    if (this.errorNotifier) {
+      try {
+        await this.errorNotifier.notify(report, reportKey);
+      } catch (error) {
+        logger.error(`Error notifying about ${report.errorKey}`, { error });
+      }
+    }
+  }
+
+  /**
+   * Server-side encryption parameters for objects the processor writes, so renamed copies, files moved to errors
+   * and reports stay encrypted with the bucket's customer-managed key, if it has one
+   */
+  private getEncryptionParams() {
+    const keyArn = this.config.kms?.keyArn;
+    if (!keyArn) {
+      return {};
+    }
+    return {
+      ServerSideEncryption: ServerSideEncryption.aws_kms,
+      SSEKMSKeyId: keyArn,
+      BucketKeyEnabled: true
+    };
+  }
+
+  /**
+   * Start restoring a temporary copy of an archived object, readable for the given number of days once restored
+   * A restore that is already in progress is left to finish
    */
-  async moveToErrors(key: string, subfolderPath: string, reason: string): Promise<boolean> {
+  async restoreObject(key: string, days: number, tier: RestoreTier): Promise<void> {
     try {
-      const bucketName = this.getName();
-      const timestamp = new Date().toISOString();
-      const originalFilename = key.split('/').pop() || 'unknown';
-      const errorKey = `${subfolderPath}/errors/${timestamp}-${originalFilename}`;
-      
-      // Copy to errors subfolder with timestamp-based name
-      await this.s3Client.send(new CopyObjectCommand({
+      await withRetry(`Restoring ${key}`, () => this.s3Client.send(new RestoreObjectCommand({
+        Bucket: this.getName(),
+        Key: key,
+        RestoreRequest: {
+          Days: days,
+          GlacierJobParameters: { Tier: tier }
+        }
+      })), this.retryPolicy);
+    } catch (error) {
+      if ((error as Error).name !== 'RestoreAlreadyInProgress') {
+        throw error;
+      }
+    }
+    logger.info(`Requested restore of ${key} for ${days} days (${tier} tier)`);
+  }
+
+  async getTags(key: string): Promise<Record<string, string>> {
+    const response = await withRetry(`Reading tags of ${key}`, () => this.s3Client.send(new GetObjectTaggingCommand({
+      Bucket: this.getName(),
+      Key: key
+    })), this.retryPolicy);
+    return Object.fromEntries((response.TagSet || []).map(tag => [tag.Key!, tag.Value!]));
+  }
+
+  /**
+   * Replace the tags of an object, which also works while it is archived
+   */
+  async putTags(key: string, tags: Record<string, string>): Promise<void> {
+    await withRetry(`Tagging ${key}`, () => this.s3Client.send(new PutObjectTaggingCommand({
+      Bucket: this.getName(),
+      Key: key,
+      Tagging: { TagSet: Object.entries(tags).map(([Key, Value]) => ({ Key, Value })) }
+    })), this.retryPolicy);
+  }
+
+  /**
+   * Copy an object to a new key and delete the original, retrying transient failures of each step
+   * If the copy succeeded but the original cannot be deleted, the copy is deleted again so the object
+   * is left only under its original key, where the move can be retried, rather than under both
+   */
+  private async moveObject(key: string, newKey: string, tagging?: string): Promise<boolean> {
+    const bucketName = this.getName();
+
+    try {
+      await withRetry(`Copying ${key} to ${newKey}`, () => this.s3Client.send(new CopyObjectCommand({
         Bucket: bucketName,
         CopySource: `${bucketName}/${key}`,
-        Key: errorKey,
-        TaggingDirective: 'REPLACE',
-        Tagging: `error-reason=${encodeURIComponent(reason)}`
-      }));
+        Key: newKey,
+        ...this.getEncryptionParams(),
+        ...(tagging && {
+          TaggingDirective: 'REPLACE',
+          Tagging: tagging
+        })
+      })), this.retryPolicy);
+    } catch (error) {
+      logger.error(`Error copying object from ${key} to ${newKey}`, { error });
+      return false;
+    }
 
-      // Delete original
-      await this.s3Client.send(new DeleteObjectCommand({
+    try {
+      await withRetry(`Deleting ${key}`, () => this.s3Client.send(new DeleteObjectCommand({
         Bucket: bucketName,
         Key: key
-      }));
-
-      console.log(`Moved ${key} to errors subfolder: ${errorKey} (Reason: ${reason})`);
+      })), this.retryPolicy);
       return true;
     } catch (error) {
-      console.error(`Error moving ${key} to errors subfolder:`, error);
-      return false;
+      logger.error(`Error deleting ${key} after copying it to ${newKey}, rolling back the copy`, { error });
     }
+
+    try {
+      await withRetry(`Rolling back copy ${newKey}`, () => this.s3Client.send(new DeleteObjectCommand({
+        Bucket: bucketName,
+        Key: newKey
+      })), this.retryPolicy);
+    } catch (error) {
+      logger.error(`Error rolling back copy ${newKey}, the object now exists as both ${key} and ${newKey}`, { error });
+    }
+    return false;
   }
-}
\ No newline at end of file
+}
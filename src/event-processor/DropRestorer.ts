@@ -0,0 +1,154 @@
+import { BucketSubdirectory, getSubscriberTarget, getSubscribers } from '../../context/IContext';
+import { IBucket, RestoreTier } from './Bucket';
+import { logger } from './Logger';
+import { SubscriberOutcome } from './S3EventProcessor';
+import { createSubscriber } from './Subscriber';
+
+/**
+ * Storage classes whose objects must be restored before they can be read
+ */
+const ARCHIVE_STORAGE_CLASSES = ['GLACIER', 'DEEP_ARCHIVE'];
+
+/**
+ * Tag marking drops whose restore was requested through restore(), so only those are re-dispatched when it completes
+ */
+export const REDISPATCH_TAG = 'redispatch-on-restore';
+
+export type RestoreRequest = {
+  /**
+   * Key of the processed drop, e.g. "person-full/2026-02-22T10:30:00.000Z-data.json"
+   */
+  key: string;
+
+  /**
+   * Days the restored copy stays readable, default 7
+   */
+  days?: number;
+
+  /**
+   * Retrieval tier, default Standard (Expedited is not available for DEEP_ARCHIVE)
+   */
+  tier?: RestoreTier;
+}
+
+export type RestoreResult = {
+  key: string;
+  status: 'dispatched' | 'restore-requested' | 'restore-in-progress' | 'skipped' | 'failed';
+  storageClass?: string;
+  reason?: string;
+  subscribers?: SubscriberOutcome[];
+}
+
+/**
+ * Brings archived drops back and re-dispatches them to their subscribers on request
+ * Responsibilities:
+ * - Start the restore of a drop in an archive storage class, or report the restore in progress, tagging it for re-dispatch
+ * - Re-dispatch the drop to every subscriber of its subdirectory once it is readable, straight away if it was never archived
+ * - Leave restores started elsewhere (e.g. by hand, for inspection) alone when they complete
+ * - Refuse drops of subdirectories using the manifest protocol, whose parts would stay archived
+ */
+export class DropRestorer {
+  private bucket: IBucket;
+
+  constructor(bucket: IBucket) {
+    this.bucket = bucket;
+  }
+
+  /**
+   * Re-dispatch a drop, restoring it first if it is archived
+   * The drop is re-dispatched by redispatch() when S3 reports the restore completed
+   */
+  async restore(request: RestoreRequest): Promise<RestoreResult> {
+    const { key, days = 7, tier = 'Standard' } = request;
+    const subfolderConfig = this.findSubfolderConfig(key);
+    if (!subfolderConfig) {
+      return { key, status: 'failed', reason: 'Key is not in a configured subdirectory' };
+    }
+    if (subfolderConfig.manifest) {
+      return { key, status: 'failed', reason: 'Multi-part drops cannot be restored, the manifest would be re-dispatched without its parts' };
+    }
+
+    try {
+      const { storageClass, restore } = await this.bucket.getObjectInfo(key);
+      if (storageClass && ARCHIVE_STORAGE_CLASSES.includes(storageClass) && restore !== 'restored') {
+        await this.bucket.putTags(key, { ...await this.bucket.getTags(key), [REDISPATCH_TAG]: 'true' });
+        if (restore === 'ongoing') {
+          logger.info(`Restore of ${key} is already in progress`);
+          return { key, status: 'restore-in-progress', storageClass };
+        }
+        await this.bucket.restoreObject(key, days, tier);
+        return { key, status: 'restore-requested', storageClass };
+      }
+      return { ...await this.dispatch(key, subfolderConfig), storageClass };
+    } catch (error) {
+      logger.error(`Error restoring ${key}`, { error });
+      return { key, status: 'failed', reason: `${error}` };
+    }
+  }
+
+  /**
+   * Re-dispatch a drop whose restore completed, if the restore was requested through restore()
+   * The tag is removed first, so a later restore of the same drop does not re-dispatch it again
+   */
+  async redispatch(key: string): Promise<RestoreResult> {
+    const subfolderConfig = this.findSubfolderConfig(key);
+    if (!subfolderConfig) {
+      logger.info(`Restore of ${key} completed, it is not a drop in a configured subdirectory`);
+      return { key, status: 'skipped', reason: 'Key is not in a configured subdirectory' };
+    }
+
+    try {
+      const { [REDISPATCH_TAG]: requested, ...tags } = await this.bucket.getTags(key);
+      if (!requested) {
+        logger.info(`Restore of ${key} completed, it was not requested for re-dispatch`);
+        return { key, status: 'skipped', reason: 'The restore was not requested through the drop restore Lambda' };
+      }
+      await this.bucket.putTags(key, tags);
+      return await this.dispatch(key, subfolderConfig);
+    } catch (error) {
+      logger.error(`Error re-dispatching ${key}`, { error });
+      return { key, status: 'failed', reason: `${error}` };
+    }
+  }
+
+  /**
+   * Notify every subscriber of the subdirectory about the drop once, with the correlation id it was processed with
+   * A failed subscriber is reported rather than retried, the request can be repeated while the restored copy lasts
+   */
+  private async dispatch(key: string, subfolderConfig: BucketSubdirectory): Promise<RestoreResult> {
+    const tags = await this.bucket.getTags(key);
+    const correlationId = tags['correlation-id'];
+
+    const subscribers = await Promise.all(getSubscribers(subfolderConfig).map(async (config): Promise<SubscriberOutcome> => {
+      const target = getSubscriberTarget(config);
+      try {
+        await createSubscriber(config, subfolderConfig.invocationMode).notify(this.bucket, key, undefined, correlationId);
+        return { target, invoked: true, attempts: 1 };
+      } catch (error) {
+        logger.error(`Error re-dispatching ${key} to subscriber ${target}`, { error });
+        return { target, invoked: false, attempts: 1, error: `${error}` };
+      }
+    }));
+
+    const failed = subscribers.filter(outcome => !outcome.invoked);
+    if (failed.length > 0) {
+      return {
+        key,
+        status: 'failed',
+        reason: `Re-dispatch failed for ${failed.length} of ${subscribers.length} subscribers`,
+        subscribers
+      };
+    }
+    logger.info(`Re-dispatched ${key} to ${subscribers.length} subscriber(s)`);
+    return { key, status: 'dispatched', subscribers };
+  }
+
+  /**
+   * Subdirectory of a processed drop, not including files moved to its errors/ subfolder
+   */
+  private findSubfolderConfig(key: string): BucketSubdirectory | undefined {
+    return this.bucket.getConfig().subdirectories.find(subdir =>
+      key.startsWith(`${subdir.path}/`) && !key.startsWith(`${subdir.path}/errors/`)
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { logger } from './Logger';
+import { IProcessingLedger, ProcessingRecord } from './ProcessingLedger';
+import { SubscriberOutcome, isRetryable } from './S3EventProcessor';
+import { UploaderIdentity, findUploaderByArn } from './Uploaders';
+
+/**
+ * Where a dropped file stands, as seen by the uploader
+ * - held: part of a multi-part drop, waiting for its manifest
+ * - delivered: renamed and every subscriber notified
+ * - partially-delivered: renamed, but some subscribers could not be notified
+ * - duplicate: identical content was already delivered recently, subscribers were not notified again
+ * - ignored: dropped outside any configured subdirectory
+ * - retrying: processing failed and left the file in place, the event is being retried
+ * - failed: rejected (format, validation, manifest) or could not be delivered to any subscriber
+ */
+export type DropState =
+  | 'held'
+  | 'delivered'
+  | 'partially-delivered'
+  | 'duplicate'
+  | 'ignored'
+  | 'retrying'
+  | 'failed';
+
+export type FileStatus = {
+  state: DropState;
+  originalKey: string;
+  newKey?: string;
+  subdirectory?: string;
+  action: ProcessingRecord['action'];
+  reason?: string;
+  subscribers?: SubscriberOutcome[];
+  eventTime: string;
+  processedAt: string;
+
+  /**
+   * Number of times the file was processed (e.g. retried, or dropped again under the same key)
+   */
+  processingCount: number;
+}
+
+export type DropStatusResponse = {
+  requestId?: string;
+  key?: string;
+  files: FileStatus[];
+}
+
+export const getDropState = (record: ProcessingRecord): DropState => {
+  switch (record.action) {
+    case 'held-for-manifest': return 'held';
+    case 'renamed':
+    case 'assembled': return 'delivered';
+    case 'partial-invoke': return 'partially-delivered';
+    case 'skipped-duplicate': return 'duplicate';
+    case 'skipped-no-match': return 'ignored';
+    default: return isRetryable(record) ? 'retrying' : 'failed';
+  }
+}
+
+/**
+ * Summarise the records of a drop into the latest status of each of its files
+ * @param records Processing records, oldest first
+ */
+export const summarise = (records: ProcessingRecord[]): FileStatus[] => {
+  const byOriginalKey = new Map<string, ProcessingRecord[]>();
+  records.forEach(record => {
+    byOriginalKey.set(record.originalKey, [...(byOriginalKey.get(record.originalKey) || []), record]);
+  });
+
+  return [...byOriginalKey.values()].map(history => {
+    const latest = history[history.length - 1];
+    return {
+      state: getDropState(latest),
+      originalKey: latest.originalKey,
+      newKey: latest.newKey,
+      subdirectory: latest.subdirectory,
+      action: latest.action,
+      reason: latest.reason,
+      subscribers: latest.subscribers,
+      eventTime: latest.eventTime,
+      processedAt: latest.processedAt,
+      processingCount: history.length
+    };
+  });
+}
+
+/**
+ * HTTP endpoint external systems poll after uploading a drop
+ * GET /status?requestId={requestId} finds the files of a drop by the requestId of its envelope or manifest
+ * GET /status?key={key} finds a file by the key it was uploaded to (or renamed to)
+ *
+ * Responds 404 while nothing is recorded, which is the case until the drop has been picked up.
+ * With named uploaders, each caller only sees the files of the subdirectories it may upload to.
+ */
+export class DropStatusApi {
+  private ledger: IProcessingLedger;
+  private uploaders: UploaderIdentity[];
+
+  constructor(ledger: IProcessingLedger, uploaders: UploaderIdentity[] = []) {
+    this.ledger = ledger;
+    this.uploaders = uploaders;
+  }
+
+  async handle(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    const { requestId, key } = event.queryStringParameters || {};
+    if (!requestId === !key) {
+      return DropStatusApi.respond(400, { message: 'Provide exactly one of the requestId or key query parameters' });
+    }
+
+    let subdirectories: string[] | undefined;
+    if (this.uploaders.length > 0) {
+      const userArn = event.requestContext?.identity?.userArn || '';
+      const uploader = findUploaderByArn(this.uploaders, userArn);
+      if (!uploader) {
+        logger.warn(`Drop status requested by ${userArn}, which is not a named uploader`);
+        return DropStatusApi.respond(403, { message: 'The caller is not a named uploader' });
+      }
+      subdirectories = uploader.subdirectories;
+    }
+
+    try {
+      const found = requestId
+        ? await this.ledger.findByRequestId(requestId)
+        : await this.ledger.findByKey(key!);
+
+      // Files of other uploaders are reported as not found, rather than revealing they exist
+      const records = subdirectories
+        ? found.filter(record => record.subdirectory && subdirectories!.includes(record.subdirectory))
+        : found;
+
+      if (records.length === 0) {
+        const lookup = requestId ? `requestId ${requestId}` : `key ${key}`;
+        return DropStatusApi.respond(404, { message: `No processing recorded for ${lookup}, it may not have been picked up yet` });
+      }
+
+      const response: DropStatusResponse = {
+        ...(requestId ? { requestId } : { key }),
+        files: summarise(records)
+      };
+      return DropStatusApi.respond(200, response);
+    } catch (error) {
+      logger.error('Error looking up drop status', { error });
+      return DropStatusApi.respond(500, { message: 'Failed to look up drop status' });
+    }
+  }
+
+  private static respond(statusCode: number, body: object): APIGatewayProxyResult {
+    return {
+      statusCode,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    };
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Error raised when the envelope stream is not well-formed JSON
+ * Carries the absolute byte offset and, when inside rawData, the index of the offending record
+ */
+export class EnvelopeParseError extends Error {
+  public readonly byteOffset: number;
+  public readonly recordIndex?: number;
+
+  constructor(message: string, byteOffset: number, recordIndex?: number) {
+    const location = recordIndex === undefined
+      ? `byte offset ${byteOffset}`
+      : `byte offset ${byteOffset}, record index ${recordIndex}`;
+    super(`${message} (at ${location})`);
+    this.name = 'EnvelopeParseError';
+    this.byteOffset = byteOffset;
+    this.recordIndex = recordIndex;
+  }
+}
+
+export type EnvelopeVisitor = {
+  /**
+   * Called once for every top-level envelope field other than the records array
+   */
+  onField?: (name: string, value: unknown) => void
+
+  /**
+   * Called once for every element of the records array, in order
+   */
+  onRecord: (record: unknown, index: number, byteOffset: number) => void
+}
+
+type State =
+  | 'before-envelope'
+  | 'before-key'
+  | 'key'
+  | 'before-colon'
+  | 'before-value'
+  | 'value'
+  | 'after-value'
+  | 'before-record'
+  | 'record'
+  | 'after-record'
+  | 'after-envelope';
+
+const WHITESPACE = new Set([0x20, 0x09, 0x0a, 0x0d]);
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+/**
+ * Incremental reader for the canonical envelope: { ..., "rawData": [ {...}, {...} ] }
+ *
+ * Bytes are scanned as they arrive. Only one record (or one small envelope field) is held in
+ * memory at a time, so memory use stays constant regardless of the size of the file.
+ * JSON structural characters are all ASCII, so the scan works on raw bytes and multi-byte
+ * UTF-8 sequences inside strings pass through untouched.
+ */
+export class EnvelopeReader {
+  private recordsField: string;
+  private visitor: EnvelopeVisitor;
+
+  private state: State = 'before-envelope';
+  private offset = 0;
+  private fieldCount = 0;
+  private recordIndex = 0;
+  private recordsArraySeen = false;
+  private currentKey = '';
+
+  // Capture of the value currently being scanned
+  private parts: Buffer[] = [];
+  private captureFrom = 0;
+  private captureOffset = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private scalar = false;
+
+  constructor(visitor: EnvelopeVisitor, recordsField = 'rawData') {
+    this.visitor = visitor;
+    this.recordsField = recordsField;
+  }
+
+  /**
+   * Read an entire stream, returning the number of records encountered
+   */
+  async read(stream: AsyncIterable<Uint8Array>): Promise<number> {
+    for await (const chunk of stream) {
+      this.write(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return this.end();
+  }
+
+  write(chunk: Buffer): void {
+    const capturing = () => this.state === 'key' || this.state === 'value' || this.state === 'record';
+    this.captureFrom = 0;
+
+    let i = 0;
+    while (i < chunk.length) {
+      const byte = chunk[i];
+
+      if (capturing()) {
+        if (this.scanCapture(chunk, i)) {
+          i++;
+          this.offset++;
+        }
+        continue;
+      }
+
+      if (WHITESPACE.has(byte)) {
+        i++;
+        this.offset++;
+        continue;
+      }
+
+      switch (this.state) {
+        case 'before-envelope':
+          if (byte !== OPEN_BRACE) {
+            throw this.error('Expected a JSON object envelope');
+          }
+          this.state = 'before-key';
+          break;
+
+        case 'before-key':
+          if (byte === QUOTE) {
+            this.startCapture(chunk, i, 'key');
+          } else if (byte === CLOSE_BRACE && this.fieldCount === 0) {
+            this.state = 'after-envelope';
+          } else {
+            throw this.error('Expected a property name');
+          }
+          break;
+
+        case 'before-colon':
+          if (byte !== COLON) {
+            throw this.error(`Expected ':' after property name "${this.currentKey}"`);
+          }
+          this.state = 'before-value';
+          break;
+
+        case 'before-value':
+          if (this.currentKey === this.recordsField && byte === OPEN_BRACKET) {
+            this.recordsArraySeen = true;
+            this.state = 'before-record';
+          } else {
+            this.startCapture(chunk, i, 'value');
+          }
+          break;
+
+        case 'after-value':
+          if (byte === COMMA) {
+            this.state = 'before-key';
+          } else if (byte === CLOSE_BRACE) {
+            this.state = 'after-envelope';
+          } else {
+            throw this.error(`Expected ',' or '}' after property "${this.currentKey}"`);
+          }
+          break;
+
+        case 'before-record':
+          if (byte === CLOSE_BRACKET && this.recordIndex === 0) {
+            this.state = 'after-value';
+          } else if (byte === CLOSE_BRACKET || byte === COMMA) {
+            throw this.error('Expected a record', this.recordIndex);
+          } else {
+            this.startCapture(chunk, i, 'record');
+          }
+          break;
+
+        case 'after-record':
+          if (byte === COMMA) {
+            this.state = 'before-record';
+          } else if (byte === CLOSE_BRACKET) {
+            this.state = 'after-value';
+          } else {
+            throw this.error(`Expected ',' or ']' after record`, this.recordIndex - 1);
+          }
+          break;
+
+        case 'after-envelope':
+          throw this.error('Unexpected data after end of envelope');
+      }
+
+      // startCapture() leaves the current byte to be consumed by scanCapture()
+      if (!capturing()) {
+        i++;
+        this.offset++;
+      }
+    }
+
+    if (capturing()) {
+      this.parts.push(chunk.subarray(this.captureFrom));
+    }
+  }
+
+  /**
+   * Signal end of input, returning the number of records encountered
+   */
+  end(): number {
+    if (this.state === 'value' && this.scalar) {
+      this.completeCapture();
+    }
+    if (this.state !== 'after-envelope') {
+      const recordIndex = this.state === 'record' ? this.recordIndex : undefined;
+      throw this.error('Unexpected end of input', recordIndex);
+    }
+    return this.recordIndex;
+  }
+
+  /**
+   * Whether the records field was present as an array (its elements are not reported via onField)
+   */
+  sawRecordsArray(): boolean {
+    return this.recordsArraySeen;
+  }
+
+  private startCapture(chunk: Buffer, i: number, state: 'key' | 'value' | 'record'): void {
+    const byte = chunk[i];
+    this.state = state;
+    this.parts = [];
+    this.captureFrom = i;
+    this.captureOffset = this.offset;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.scalar = byte !== QUOTE && byte !== OPEN_BRACE && byte !== OPEN_BRACKET;
+  }
+
+  /**
+   * Scan one byte of the value being captured.
+   * Returns false if the byte terminates a scalar and must be re-read by the outer state machine.
+   */
+  private scanCapture(chunk: Buffer, i: number): boolean {
+    const byte = chunk[i];
+
+    if (this.scalar) {
+      if (WHITESPACE.has(byte) || byte === COMMA || byte === CLOSE_BRACE || byte === CLOSE_BRACKET) {
+        this.parts.push(chunk.subarray(this.captureFrom, i));
+        this.completeCapture();
+        return false;
+      }
+      return true;
+    }
+
+    if (this.inString) {
+      if (this.escaped) {
+        this.escaped = false;
+      } else if (byte === BACKSLASH) {
+        this.escaped = true;
+      } else if (byte === QUOTE) {
+        this.inString = false;
+        if (this.depth === 0) {
+          this.finishAt(chunk, i);
+        }
+      }
+      return true;
+    }
+
+    if (byte === QUOTE) {
+      this.inString = true;
+    } else if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+      this.depth++;
+    } else if (byte === CLOSE_BRACE || byte === CLOSE_BRACKET) {
+      this.depth--;
+      if (this.depth === 0) {
+        this.finishAt(chunk, i);
+      }
+    }
+    return true;
+  }
+
+  private finishAt(chunk: Buffer, i: number): void {
+    this.parts.push(chunk.subarray(this.captureFrom, i + 1));
+    this.completeCapture();
+  }
+
+  private completeCapture(): void {
+    const text = Buffer.concat(this.parts).toString('utf8');
+    this.parts = [];
+    const recordIndex = this.state === 'record' ? this.recordIndex : undefined;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new EnvelopeParseError(`Malformed JSON: ${(error as Error).message}`, this.captureOffset, recordIndex);
+    }
+
+    switch (this.state) {
+      case 'key':
+        this.currentKey = value as string;
+        this.fieldCount++;
+        this.state = 'before-colon';
+        break;
+      case 'value':
+        this.visitor.onField?.(this.currentKey, value);
+        this.state = 'after-value';
+        break;
+      case 'record':
+        this.visitor.onRecord(value, this.recordIndex, this.captureOffset);
+        this.recordIndex++;
+        this.state = 'after-record';
+        break;
+    }
+  }
+
+  private error(message: string, recordIndex?: number): EnvelopeParseError {
+    return new EnvelopeParseError(message, this.offset, recordIndex);
+  }
+}
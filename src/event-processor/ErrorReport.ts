@@ -0,0 +1,77 @@
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { ProcessingResult } from './S3EventProcessor';
+
+/**
+ * Readable account of why a file was moved to {subfolder}/errors/, written next to it as {errorKey}.error.json
+ * Unlike the error-reason tag, which S3 caps at 256 characters, the reason is kept in full
+ */
+export type ErrorReport = {
+  bucket: string;
+  originalKey: string;
+  errorKey: string;
+  subdirectory: string;
+  reason: string;
+  movedAt: string;
+  correlationId?: string;
+
+  /**
+   * Stack of the error that caused the failure, when there was one
+   */
+  stack?: string;
+
+  /**
+   * What the event processor did with the file up to the failure
+   */
+  result?: ProcessingResult;
+}
+
+/**
+ * Details of a failure only the caller of moveToErrors knows
+ */
+export type ErrorReportDetails = Pick<ErrorReport, 'correlationId' | 'stack' | 'result'>;
+
+export type IErrorNotifier = {
+  notify: (report: ErrorReport, reportKey: string) => Promise<void>
+}
+
+export const getReportKey = (errorKey: string): string => `${errorKey}.error.json`;
+
+/**
+ * Publishes a summary of every file moved to errors to an SNS topic (e.g. the alarm topic, for email or chat),
+ * linking to its report
+ */
+export class SnsErrorNotifier implements IErrorNotifier {
+  private topicArn: string;
+  private snsClient: SNSClient;
+
+  constructor(topicArn: string, snsClient?: SNSClient) {
+    this.topicArn = topicArn;
+    this.snsClient = snsClient || new SNSClient({});
+  }
+
+  async notify(report: ErrorReport, reportKey: string): Promise<void> {
+    await this.snsClient.send(new PublishCommand({
+      TopicArn: this.topicArn,
+      Subject: `File moved to errors: ${report.originalKey}`.substring(0, 100),
+      Message: SnsErrorNotifier.summarise(report, reportKey)
+    }));
+  }
+
+  static summarise(report: ErrorReport, reportKey: string): string {
+    return [
+      `A file dropped in ${report.subdirectory}/ could not be processed and was moved to errors.`,
+      '',
+      `Original key:   ${report.originalKey}`,
+      `Moved to:       s3://${report.bucket}/${report.errorKey}`,
+      `At:             ${report.movedAt}`,
+      ...(report.correlationId ? [`Correlation id: ${report.correlationId}`] : []),
+      ...(report.result ? [`Action:         ${report.result.action}`] : []),
+      '',
+      'Reason:',
+      report.reason,
+      '',
+      `Full report: s3://${report.bucket}/${reportKey}`,
+      `https://s3.console.aws.amazon.com/s3/object/${report.bucket}?prefix=${encodeURIComponent(reportKey)}`
+    ].join('\n');
+  }
+}
@@ -0,0 +1,104 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { S3EventRecord } from 'aws-lambda';
+
+/**
+ * How long a delivered event is remembered. S3 redeliveries arrive well within this.
+ */
+const EVENT_RETENTION_DAYS = 7;
+
+export type EventLedgerEntry = {
+  /**
+   * Identifies one S3 event: "{bucket}/{key}#{sequencer}", falling back to the eTag when there is no sequencer
+   */
+  eventKey: string;
+  eventName: string;
+  receivedAt: string;
+}
+
+export type IEventLedger = {
+  /**
+   * Record the delivery of an event. Returns false if the same event was already recorded.
+   */
+  claim: (entry: EventLedgerEntry) => Promise<boolean>
+
+  /**
+   * Forget an event, so that a redelivery is processed again
+   */
+  release: (eventKey: string) => Promise<void>
+}
+
+/**
+ * Build the ledger key of an S3 event record
+ * The sequencer orders events for the same key, so two uploads of the same key are distinct events
+ * while two deliveries of the same upload share a key
+ */
+export const getEventKey = (record: S3EventRecord): string => {
+  const { bucket, object } = record.s3;
+  return `${bucket.name}/${object.key}#${object.sequencer || object.eTag}`;
+}
+
+/**
+ * DynamoDB-backed ledger of processed S3 event deliveries, one item per event
+ * Items carry an expiresAt attribute so DynamoDB TTL removes them after EVENT_RETENTION_DAYS
+ */
+export class DynamoDbEventLedger implements IEventLedger {
+  private tableName: string;
+  private client: DynamoDBDocumentClient;
+
+  constructor(tableName: string, client?: DynamoDBDocumentClient) {
+    this.tableName = tableName;
+    this.client = client || DynamoDBDocumentClient.from(new DynamoDBClient({}));
+  }
+
+  async claim(entry: EventLedgerEntry): Promise<boolean> {
+    const retentionMs = EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    try {
+      // Conditional put, so that concurrent deliveries of the same event cannot both claim it
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          ...entry,
+          expiresAt: Math.ceil((new Date(entry.receivedAt).getTime() + retentionMs) / 1000)
+        },
+        ConditionExpression: 'attribute_not_exists(eventKey)'
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async release(eventKey: string): Promise<void> {
+    await this.client.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { eventKey }
+    }));
+  }
+}
+
+/**
+ * In-memory stand-in for the DynamoDB ledger, for tests and local runs
+ */
+export class InMemoryEventLedger implements IEventLedger {
+  private entries = new Map<string, EventLedgerEntry>();
+
+  async claim(entry: EventLedgerEntry): Promise<boolean> {
+    if (this.entries.has(entry.eventKey)) {
+      return false;
+    }
+    this.entries.set(entry.eventKey, entry);
+    return true;
+  }
+
+  async release(eventKey: string): Promise<void> {
+    this.entries.delete(eventKey);
+  }
+
+  getEntries(): EventLedgerEntry[] {
+    return [...this.entries.values()];
+  }
+}
@@ -0,0 +1,133 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { ExpectedDropRegistration, IExpectedDropRegistry } from './ExpectedDrops';
+import { logger } from './Logger';
+import { UploaderIdentity, findUploaderByArn } from './Uploaders';
+import { isRecord } from './Validator';
+
+/**
+ * HTTP endpoint requesting processes use to register the drops they are waiting for
+ * POST /expected-drops with { "subdirectory": "...", "requestId": "...", "deadline": "<ISO timestamp>" } registers a drop
+ * GET /expected-drops?subdirectory={subdirectory}&requestId={requestId} returns a registration and its status
+ *
+ * With named uploaders, each caller can only register and look up drops in the subdirectories it may upload to.
+ */
+export class ExpectedDropApi {
+  private registry: IExpectedDropRegistry;
+  private subdirectories: string[];
+  private uploaders: UploaderIdentity[];
+  private now: () => Date;
+
+  /**
+   * @param subdirectories Paths of the configured subdirectories, the only ones drops can be expected in
+   */
+  constructor(registry: IExpectedDropRegistry, subdirectories: string[], uploaders: UploaderIdentity[] = [], now?: () => Date) {
+    this.registry = registry;
+    this.subdirectories = subdirectories;
+    this.uploaders = uploaders;
+    this.now = now || (() => new Date());
+  }
+
+  async handle(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    let subdirectories = this.subdirectories;
+    if (this.uploaders.length > 0) {
+      const userArn = event.requestContext?.identity?.userArn || '';
+      const uploader = findUploaderByArn(this.uploaders, userArn);
+      if (!uploader) {
+        logger.warn(`Expected drop request by ${userArn}, which is not a named uploader`);
+        return ExpectedDropApi.respond(403, { message: 'The caller is not a named uploader' });
+      }
+      subdirectories = subdirectories.filter(subdirectory => uploader.subdirectories.includes(subdirectory));
+    }
+
+    try {
+      switch (event.httpMethod) {
+        case 'POST': return await this.register(event.body, subdirectories);
+        case 'GET': return await this.get(event.queryStringParameters || {}, subdirectories);
+        default: return ExpectedDropApi.respond(405, { message: `Method ${event.httpMethod} is not supported` });
+      }
+    } catch (error) {
+      logger.error('Error handling expected drop request', { error });
+      return ExpectedDropApi.respond(500, { message: 'Failed to handle expected drop request' });
+    }
+  }
+
+  /**
+   * @param subdirectories Subdirectories the caller may expect drops in
+   */
+  private async register(body: string | null, subdirectories: string[]): Promise<APIGatewayProxyResult> {
+    let request: unknown;
+    try {
+      request = JSON.parse(body || '');
+    } catch {
+      return ExpectedDropApi.respond(400, { message: 'Request body must be JSON' });
+    }
+
+    const registration = this.parseRegistration(request, subdirectories);
+    if (typeof registration === 'string') {
+      return ExpectedDropApi.respond(400, { message: registration });
+    }
+
+    const { subdirectory, requestId } = registration;
+    if (!await this.registry.register(registration)) {
+      return ExpectedDropApi.respond(409, { message: `Drop ${requestId} is already expected in ${subdirectory}` });
+    }
+
+    logger.info(`Registered expected drop ${requestId} in ${subdirectory}, due by ${registration.deadline}`, { subdirectory, requestId });
+    return ExpectedDropApi.respond(201, { ...registration, status: 'pending' });
+  }
+
+  /**
+   * @param subdirectories Subdirectories the caller may look drops up in
+   */
+  private async get(query: Record<string, string | undefined>, subdirectories: string[]): Promise<APIGatewayProxyResult> {
+    const { subdirectory, requestId } = query;
+    if (!subdirectory || !requestId) {
+      return ExpectedDropApi.respond(400, { message: 'The subdirectory and requestId query parameters are required' });
+    }
+
+    // Drops of other uploaders are reported as not found, rather than revealing they are expected
+    const drop = subdirectories.includes(subdirectory)
+      ? await this.registry.get(subdirectory, requestId)
+      : undefined;
+    return drop
+      ? ExpectedDropApi.respond(200, drop)
+      : ExpectedDropApi.respond(404, { message: `No drop ${requestId} is expected in ${subdirectory}` });
+  }
+
+  /**
+   * Build the registration from a request body, or describe what is wrong with it
+   */
+  private parseRegistration(request: unknown, subdirectories: string[]): ExpectedDropRegistration | string {
+    if (!isRecord(request)) {
+      return 'Request body must be a JSON object';
+    }
+
+    const { subdirectory, requestId, deadline } = request;
+    if (typeof subdirectory !== 'string' || !subdirectories.includes(subdirectory)) {
+      return `subdirectory must be one of: ${subdirectories.join(', ')}`;
+    }
+    if (typeof requestId !== 'string' || requestId.length === 0) {
+      return 'requestId must be a non-empty string';
+    }
+    if (typeof deadline !== 'string' || isNaN(Date.parse(deadline))) {
+      return 'deadline must be an ISO 8601 timestamp';
+    }
+    if (Date.parse(deadline) <= this.now().getTime()) {
+      return 'deadline must be in the future';
+    }
+    return {
+      subdirectory,
+      requestId,
+      deadline: new Date(deadline).toISOString(),
+      registeredAt: this.now().toISOString()
+    };
+  }
+
+  private static respond(statusCode: number, body: object): APIGatewayProxyResult {
+    return {
+      statusCode,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    };
+  }
+}
@@ -0,0 +1,265 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+
+/**
+ * How long a registration is kept after its deadline, so late arrivals can still be matched and looked up
+ */
+const REGISTRATION_RETENTION_DAYS = 30;
+
+const EXPECTED_DROP_STATUSES = ['pending', 'fulfilled', 'overdue'] as const;
+
+export type ExpectedDropStatus = typeof EXPECTED_DROP_STATUSES[number];
+
+const isExpectedDropStatus = (value: unknown): value is ExpectedDropStatus =>
+  EXPECTED_DROP_STATUSES.some(status => status === value);
+
+/**
+ * A drop a requesting process told us to expect: the file carrying requestId should arrive in subdirectory before deadline
+ */
+export type ExpectedDrop = {
+  subdirectory: string;
+  requestId: string;
+  deadline: string;
+  registeredAt: string;
+  status: ExpectedDropStatus;
+
+  /**
+   * When the overdue notification was sent, kept if the drop arrives late
+   */
+  overdueAt?: string;
+  fulfilledAt?: string;
+
+  /**
+   * Key of the file that fulfilled the registration
+   */
+  fulfilledBy?: string;
+}
+
+export type ExpectedDropRegistration = Pick<ExpectedDrop, 'subdirectory' | 'requestId' | 'deadline' | 'registeredAt'>;
+
+export type IExpectedDropRegistry = {
+  /**
+   * Register an expected drop. Returns false if the same requestId is already registered for the subdirectory.
+   */
+  register: (registration: ExpectedDropRegistration) => Promise<boolean>
+
+  get: (subdirectory: string, requestId: string) => Promise<ExpectedDrop | undefined>
+
+  /**
+   * Mark a registration fulfilled by the arrival of a file, also when it is already overdue
+   * Returns false if nothing was registered or the registration was already fulfilled
+   */
+  fulfil: (subdirectory: string, requestId: string, key: string, fulfilledAt: string) => Promise<boolean>
+
+  /**
+   * Pending registrations whose deadline has passed
+   */
+  findOverdue: (now: Date) => Promise<ExpectedDrop[]>
+
+  /**
+   * Mark a pending registration overdue. Returns false if it is no longer pending (e.g. fulfilled meanwhile).
+   */
+  markOverdue: (subdirectory: string, requestId: string, overdueAt: string) => Promise<boolean>
+
+  /**
+   * Return an overdue registration to pending, so the next check notifies again
+   */
+  reopen: (subdirectory: string, requestId: string) => Promise<void>
+}
+
+/**
+ * DynamoDB-backed registry of expected drops
+ * Table layout:
+ * - Partition key dropKey ("{subdirectory}#{requestId}")
+ * - Index "by-status" on status and deadline, to find pending registrations past their deadline
+ * - Items carry an expiresAt attribute so DynamoDB TTL removes them REGISTRATION_RETENTION_DAYS after the deadline
+ */
+export class DynamoDbExpectedDropRegistry implements IExpectedDropRegistry {
+  public static readonly STATUS_INDEX = 'by-status';
+
+  private tableName: string;
+  private client: DynamoDBDocumentClient;
+
+  constructor(tableName: string, client?: DynamoDBDocumentClient) {
+    this.tableName = tableName;
+    this.client = client || DynamoDBDocumentClient.from(new DynamoDBClient({}));
+  }
+
+  async register(registration: ExpectedDropRegistration): Promise<boolean> {
+    const retentionMs = REGISTRATION_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return this.conditionally(() => this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: {
+        dropKey: DynamoDbExpectedDropRegistry.getDropKey(registration.subdirectory, registration.requestId),
+        ...registration,
+        status: 'pending',
+        expiresAt: Math.ceil((new Date(registration.deadline).getTime() + retentionMs) / 1000)
+      },
+      ConditionExpression: 'attribute_not_exists(dropKey)'
+    })));
+  }
+
+  async get(subdirectory: string, requestId: string): Promise<ExpectedDrop | undefined> {
+    const response = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { dropKey: DynamoDbExpectedDropRegistry.getDropKey(subdirectory, requestId) }
+    }));
+    return response.Item && DynamoDbExpectedDropRegistry.toExpectedDrop(response.Item);
+  }
+
+  async fulfil(subdirectory: string, requestId: string, key: string, fulfilledAt: string): Promise<boolean> {
+    return this.conditionally(() => this.client.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { dropKey: DynamoDbExpectedDropRegistry.getDropKey(subdirectory, requestId) },
+      UpdateExpression: 'SET #status = :fulfilled, fulfilledAt = :fulfilledAt, fulfilledBy = :key',
+      ConditionExpression: 'attribute_exists(dropKey) AND #status <> :fulfilled',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':fulfilled': 'fulfilled', ':fulfilledAt': fulfilledAt, ':key': key }
+    })));
+  }
+
+  async findOverdue(now: Date): Promise<ExpectedDrop[]> {
+    const drops: ExpectedDrop[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const response = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: DynamoDbExpectedDropRegistry.STATUS_INDEX,
+        KeyConditionExpression: '#status = :pending AND deadline < :now',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':pending': 'pending', ':now': now.toISOString() },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      (response.Items || []).forEach(item => drops.push(DynamoDbExpectedDropRegistry.toExpectedDrop(item)));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return drops;
+  }
+
+  async markOverdue(subdirectory: string, requestId: string, overdueAt: string): Promise<boolean> {
+    return this.conditionally(() => this.client.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { dropKey: DynamoDbExpectedDropRegistry.getDropKey(subdirectory, requestId) },
+      UpdateExpression: 'SET #status = :overdue, overdueAt = :overdueAt',
+      ConditionExpression: '#status = :pending',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':overdue': 'overdue', ':pending': 'pending', ':overdueAt': overdueAt }
+    })));
+  }
+
+  async reopen(subdirectory: string, requestId: string): Promise<void> {
+    await this.conditionally(() => this.client.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { dropKey: DynamoDbExpectedDropRegistry.getDropKey(subdirectory, requestId) },
+      UpdateExpression: 'SET #status = :pending REMOVE overdueAt',
+      ConditionExpression: '#status = :overdue',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':overdue': 'overdue', ':pending': 'pending' }
+    })));
+  }
+
+  /**
+   * Send a conditional write, returning false rather than throwing when its condition does not hold
+   */
+  private async conditionally(write: () => Promise<unknown>): Promise<boolean> {
+    try {
+      await write();
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private static getDropKey(subdirectory: string, requestId: string): string {
+    return `${subdirectory}#${requestId}`;
+  }
+
+  /**
+   * Build an expected drop from a table item, leaving out the table's own attributes
+   * Throws if the item is not a registration, rather than passing a malformed one on
+   */
+  private static toExpectedDrop(item: Record<string, unknown>): ExpectedDrop {
+    const { dropKey, subdirectory, requestId, deadline, registeredAt, status, overdueAt, fulfilledAt, fulfilledBy } = item;
+    if (typeof subdirectory !== 'string' || typeof requestId !== 'string' || typeof deadline !== 'string' || typeof registeredAt !== 'string') {
+      throw new Error(`Expected drop ${dropKey} needs string subdirectory, requestId, deadline and registeredAt attributes`);
+    }
+    if (!isExpectedDropStatus(status)) {
+      throw new Error(`Expected drop ${dropKey} has an unknown status ${status}`);
+    }
+
+    const optionalString = (name: string, value: unknown): string | undefined => {
+      if (value !== undefined && typeof value !== 'string') {
+        throw new Error(`Expected drop ${dropKey} has a non-string ${name}`);
+      }
+      return value;
+    };
+    return {
+      subdirectory,
+      requestId,
+      deadline,
+      registeredAt,
+      status,
+      overdueAt: optionalString('overdueAt', overdueAt),
+      fulfilledAt: optionalString('fulfilledAt', fulfilledAt),
+      fulfilledBy: optionalString('fulfilledBy', fulfilledBy)
+    };
+  }
+}
+
+/**
+ * In-memory stand-in for the DynamoDB registry, for tests and local runs
+ */
+export class InMemoryExpectedDropRegistry implements IExpectedDropRegistry {
+  private drops = new Map<string, ExpectedDrop>();
+
+  async register(registration: ExpectedDropRegistration): Promise<boolean> {
+    const dropKey = `${registration.subdirectory}#${registration.requestId}`;
+    if (this.drops.has(dropKey)) {
+      return false;
+    }
+    this.drops.set(dropKey, { ...registration, status: 'pending' });
+    return true;
+  }
+
+  async get(subdirectory: string, requestId: string): Promise<ExpectedDrop | undefined> {
+    const drop = this.drops.get(`${subdirectory}#${requestId}`);
+    return drop && { ...drop };
+  }
+
+  async fulfil(subdirectory: string, requestId: string, key: string, fulfilledAt: string): Promise<boolean> {
+    const drop = this.drops.get(`${subdirectory}#${requestId}`);
+    if (!drop || drop.status === 'fulfilled') {
+      return false;
+    }
+    Object.assign(drop, { status: 'fulfilled', fulfilledAt, fulfilledBy: key });
+    return true;
+  }
+
+  async findOverdue(now: Date): Promise<ExpectedDrop[]> {
+    return [...this.drops.values()]
+      .filter(drop => drop.status === 'pending' && drop.deadline < now.toISOString())
+      .map(drop => ({ ...drop }));
+  }
+
+  async markOverdue(subdirectory: string, requestId: string, overdueAt: string): Promise<boolean> {
+    const drop = this.drops.get(`${subdirectory}#${requestId}`);
+    if (drop?.status !== 'pending') {
+      return false;
+    }
+    Object.assign(drop, { status: 'overdue', overdueAt });
+    return true;
+  }
+
+  async reopen(subdirectory: string, requestId: string): Promise<void> {
+    const drop = this.drops.get(`${subdirectory}#${requestId}`);
+    if (drop?.status === 'overdue') {
+      drop.status = 'pending';
+      delete drop.overdueAt;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+
+export type HashLedgerEntry = {
+  subdirectory: string;
+  sha256: string;
+
+  /**
+   * Key the first copy of the content was (or is being) renamed to
+   */
+  key: string;
+
+  /**
+   * ISO timestamp of when the content was first seen
+   */
+  recordedAt: string;
+}
+
+export type IHashLedger = {
+  /**
+   * Record the content hash of a new drop unless the same content was already seen in the subdirectory
+   * since the given time. Returns the earlier entry for a duplicate, or undefined if the claim succeeded.
+   */
+  claim: (entry: HashLedgerEntry, since: Date) => Promise<HashLedgerEntry | undefined>
+
+  /**
+   * Forget a claim, so that a re-upload after a failed processing attempt is not treated as a duplicate
+   */
+  release: (subdirectory: string, sha256: string) => Promise<void>
+}
+
+const ledgerKey = (subdirectory: string, sha256: string) => `${subdirectory}#${sha256}`;
+
+/**
+ * DynamoDB-backed ledger of recent content hashes, one item per subdirectory and hash
+ * Items carry an expiresAt attribute so DynamoDB TTL removes them once they fall outside the window
+ */
+export class DynamoDbHashLedger implements IHashLedger {
+  private tableName: string;
+  private client: DynamoDBDocumentClient;
+
+  constructor(tableName: string, client?: DynamoDBDocumentClient) {
+    this.tableName = tableName;
+    this.client = client || DynamoDBDocumentClient.from(new DynamoDBClient({}));
+  }
+
+  async claim(entry: HashLedgerEntry, since: Date): Promise<HashLedgerEntry | undefined> {
+    const hashKey = ledgerKey(entry.subdirectory, entry.sha256);
+    const windowMs = new Date(entry.recordedAt).getTime() - since.getTime();
+
+    try {
+      // Conditional put, so that two copies processed at the same time cannot both claim the hash
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          hashKey,
+          ...entry,
+          expiresAt: Math.ceil((new Date(entry.recordedAt).getTime() + windowMs) / 1000)
+        },
+        ConditionExpression: 'attribute_not_exists(hashKey) OR recordedAt < :since',
+        ExpressionAttributeValues: { ':since': since.toISOString() }
+      }));
+      return undefined;
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+
+    const existing = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { hashKey },
+      ConsistentRead: true
+    }));
+    const { subdirectory, sha256, key, recordedAt } = existing.Item || entry;
+    return { subdirectory, sha256, key, recordedAt };
+  }
+
+  async release(subdirectory: string, sha256: string): Promise<void> {
+    await this.client.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { hashKey: ledgerKey(subdirectory, sha256) }
+    }));
+  }
+}
+
+/**
+ * In-memory stand-in for the DynamoDB ledger, for tests and local runs
+ */
+export class InMemoryHashLedger implements IHashLedger {
+  private entries = new Map<string, HashLedgerEntry>();
+
+  async claim(entry: HashLedgerEntry, since: Date): Promise<HashLedgerEntry | undefined> {
+    const hashKey = ledgerKey(entry.subdirectory, entry.sha256);
+    const existing = this.entries.get(hashKey);
+    if (existing && existing.recordedAt >= since.toISOString()) {
+      return existing;
+    }
+    this.entries.set(hashKey, entry);
+    return undefined;
+  }
+
+  async release(subdirectory: string, sha256: string): Promise<void> {
+    this.entries.delete(ledgerKey(subdirectory, sha256));
+  }
+
+  getEntries(): HashLedgerEntry[] {
+    return [...this.entries.values()];
+  }
+}
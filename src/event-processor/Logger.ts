@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Fields of a structured log record. key, subdirectory, action and durationMs are the ones
+ * Logs Insights queries rely on, any other field is logged as given.
+ */
+export type LogFields = {
+  key?: string;
+  subdirectory?: string;
+  action?: string;
+  durationMs?: number;
+  correlationId?: string;
+  [name: string]: unknown;
+}
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export type MetricUnit = 'Count' | 'Bytes' | 'Milliseconds';
+
+/**
+ * Metrics the event processor emits, dimensioned by subdirectory
+ */
+export type MetricName =
+  | 'FilesReceived'
+  | 'FilesRenamed'
+  | 'FilesSkipped'
+  | 'FilesErrored'
+  | 'FilesMovedToErrors'
+  | 'BytesProcessed'
+  | 'SubscriberLatency'
+  | 'StragglersFound'
+  | 'StragglersRecovered';
+
+/**
+ * CloudWatch namespace of the metrics, set per deployment by the construct
+ */
+const METRICS_NAMESPACE = process.env.METRICS_NAMESPACE || 'FileDrop';
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run fn with fields added to every log record written while it runs, including by the
+ * Bucket and Subscriber calls it makes
+ */
+export const withLogContext = <T>(fields: LogFields, fn: () => Promise<T>): Promise<T> =>
+  context.run({ ...context.getStore(), ...fields }, fn);
+
+/**
+ * Add fields to the context of the surrounding withLogContext, e.g. once the subdirectory is known
+ */
+export const addLogContext = (fields: LogFields): void => {
+  const store = context.getStore();
+  if (store) {
+    Object.assign(store, fields);
+  }
+}
+
+const write = (level: LogLevel, message: string, fields?: LogFields): void => {
+  const record = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    ...context.getStore(),
+    ...fields
+  }, serializeErrors);
+
+  switch (level) {
+    case 'error': console.error(record); break;
+    case 'warn': console.warn(record); break;
+    default: console.log(record);
+  }
+}
+
+/**
+ * Errors have no enumerable properties, so log their name, message and stack explicitly
+ */
+const serializeErrors = (_name: string, value: unknown): unknown =>
+  value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+
+/**
+ * Writes one JSON log record per line, carrying the fields of the surrounding log context
+ */
+export const logger = {
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields)
+}
+
+/**
+ * Write metric values in CloudWatch Embedded Metric Format, which CloudWatch turns into metrics
+ * from the log line without any API call
+ * https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch_Embedded_Metric_Format_Specification.html
+ */
+export const emitMetrics = (
+  subdirectory: string,
+  metrics: Partial<Record<MetricName, { value: number, unit: MetricUnit }>>
+): void => {
+  const names = Object.keys(metrics) as MetricName[];
+  if (names.length === 0) {
+    return;
+  }
+
+  console.log(JSON.stringify({
+    _aws: {
+      Timestamp: Date.now(),
+      CloudWatchMetrics: [{
+        Namespace: METRICS_NAMESPACE,
+        Dimensions: [['Subdirectory']],
+        Metrics: names.map(name => ({ Name: name, Unit: metrics[name]!.unit }))
+      }]
+    },
+    ...context.getStore(),
+    Subdirectory: subdirectory,
+    ...Object.fromEntries(names.map(name => [name, metrics[name]!.value]))
+  }));
+}
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import { EnvelopeReader } from './EnvelopeReader';
+import { isRecord } from './Validator';
+
+/**
+ * Filename that completes a multi-part drop in subdirectories with the manifest protocol enabled
+ */
+export const MANIFEST_FILENAME = '_manifest.json';
+
+export type ManifestPart = {
+  /**
+   * Key of the part, relative to the folder holding the manifest
+   */
+  key: string;
+
+  /**
+   * Optional number of rawData records the part is expected to contain
+   */
+  recordCount?: number;
+
+  /**
+   * Optional hex-encoded SHA-256 checksum of the part
+   */
+  sha256?: string;
+}
+
+/**
+ * Example:
+ *   {
+ *     "requestId": "req-123",
+ *     "parts": [
+ *       { "key": "part-001.json", "recordCount": 50000, "sha256": "9f86d0..." },
+ *       { "key": "part-002.json", "recordCount": 48210, "sha256": "60303a..." }
+ *     ]
+ *   }
+ */
+export type Manifest = {
+  requestId?: string;
+  parts: ManifestPart[];
+}
+
+export type PartInspection = {
+  sha256: string;
+  recordCount?: number;
+}
+
+export const isManifestFile = (filename: string): boolean => filename === MANIFEST_FILENAME;
+
+/**
+ * Check one entry of the manifest's parts array and narrow it to a ManifestPart
+ */
+const toManifestPart = (part: unknown, index: number): ManifestPart => {
+  if (!isRecord(part) || typeof part.key !== 'string' || !part.key) {
+    throw new Error(`Manifest part ${index} is missing a "key"`);
+  }
+  const { key, recordCount, sha256 } = part;
+  if (key.includes('/') || isManifestFile(key)) {
+    throw new Error(`Manifest part key "${key}" must be a file in the same folder as the manifest`);
+  }
+  if (recordCount !== undefined && (typeof recordCount !== 'number' || !Number.isInteger(recordCount))) {
+    throw new Error(`Manifest part "${key}" has a non-integer recordCount`);
+  }
+  if (sha256 !== undefined && (typeof sha256 !== 'string' || !/^[0-9a-fA-F]{64}$/.test(sha256))) {
+    throw new Error(`Manifest part "${key}" has an invalid sha256 checksum`);
+  }
+  return {
+    key,
+    ...(typeof recordCount === 'number' && { recordCount }),
+    ...(typeof sha256 === 'string' && { sha256 })
+  };
+}
+
+/**
+ * Parse and sanity-check a manifest file body
+ */
+export const parseManifest = (body: string): Manifest => {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(body);
+  } catch (error) {
+    throw new Error(`Malformed manifest: ${(error as Error).message}`);
+  }
+
+  if (!isRecord(manifest) || !Array.isArray(manifest.parts) || manifest.parts.length === 0) {
+    throw new Error('Manifest must contain a non-empty "parts" array');
+  }
+
+  const parts = manifest.parts.map(toManifestPart);
+  const keys = parts.map(part => part.key);
+  if (new Set(keys).size !== keys.length) {
+    throw new Error('Manifest lists the same part more than once');
+  }
+
+  return {
+    ...(typeof manifest.requestId === 'string' && { requestId: manifest.requestId }),
+    parts
+  };
+}
+
+/**
+ * Compute the checksum of a part and, if requested, count its rawData records in a single streaming pass
+ */
+export const inspectPart = async (stream: AsyncIterable<Uint8Array>, countRecords: boolean): Promise<PartInspection> => {
+  const hash = createHash('sha256');
+  const reader = countRecords ? new EnvelopeReader({ onRecord: () => {} }) : undefined;
+
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    hash.update(buffer);
+    reader?.write(buffer);
+  }
+
+  return {
+    sha256: hash.digest('hex'),
+    recordCount: reader?.end()
+  };
+}
+
+/**
+ * Compare what the manifest promised with what actually arrived
+ * Returns a list of problems, empty if the drop is complete and intact
+ */
+export const verifyManifest = (manifest: Manifest, inspections: Map<string, PartInspection | undefined>): string[] => {
+  const problems: string[] = [];
+
+  manifest.parts.forEach(part => {
+    const inspection = inspections.get(part.key);
+    if (!inspection) {
+      problems.push(`Part "${part.key}" is missing`);
+      return;
+    }
+    if (part.sha256 && part.sha256.toLowerCase() !== inspection.sha256) {
+      problems.push(`Part "${part.key}" checksum mismatch: manifest ${part.sha256.toLowerCase()}, actual ${inspection.sha256}`);
+    }
+    if (part.recordCount !== undefined && part.recordCount !== inspection.recordCount) {
+      problems.push(`Part "${part.key}" record count mismatch: manifest ${part.recordCount}, actual ${inspection.recordCount}`);
+    }
+  });
+
+  return problems;
+}
@@ -0,0 +1,58 @@
+import { IBucket } from './Bucket';
+import { logger } from './Logger';
+import { isManifestFile } from './Manifest';
+import { S3EventProcessor } from './S3EventProcessor';
+
+export type ManifestTimeoutResult = {
+  subdirectory: string;
+  escalated: string[];
+  failed: string[];
+}
+
+/**
+ * Escalates parts of multi-part drops whose manifest never arrived
+ * Responsibilities:
+ * - Find held parts (not yet renamed, not in errors/) in subdirectories using the manifest protocol
+ * - Move parts older than the subdirectory's manifest timeout to the errors subfolder
+ */
+export class ManifestTimeoutChecker {
+  private bucket: IBucket;
+  private now: () => Date;
+
+  constructor(bucket: IBucket, now?: () => Date) {
+    this.bucket = bucket;
+    this.now = now || (() => new Date());
+  }
+
+  async check(): Promise<ManifestTimeoutResult[]> {
+    const results: ManifestTimeoutResult[] = [];
+    const subdirectories = this.bucket.getConfig().subdirectories.filter(subdir => subdir.manifest);
+
+    for (const subdir of subdirectories) {
+      const { timeoutMinutes } = subdir.manifest!;
+      const cutoff = this.now().getTime() - timeoutMinutes * 60 * 1000;
+      const result: ManifestTimeoutResult = { subdirectory: subdir.path, escalated: [], failed: [] };
+
+      const objects = await this.bucket.listObjects(`${subdir.path}/`);
+      const overdue = objects.filter(object => {
+        const filename = object.key.split('/').pop() || '';
+        return filename
+          && !object.key.startsWith(`${subdir.path}/errors/`)
+          && !S3EventProcessor.hasTimestampPrefix(filename)
+          && !isManifestFile(filename)
+          && object.lastModified.getTime() < cutoff;
+      });
+
+      for (const object of overdue) {
+        const reason = `No manifest arrived within ${timeoutMinutes} minutes of this part being uploaded`;
+        logger.warn(`Escalating held part ${object.key}: ${reason}`, { key: object.key, subdirectory: subdir.path });
+        const moved = await this.bucket.moveToErrors(object.key, subdir.path, reason);
+        (moved ? result.escalated : result.failed).push(object.key);
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,307 @@
+import { Readable, pipeline } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { createGunzip } from 'zlib';
+import { InputFormat } from '../../context/IContext';
+
+export type SourceFormat = 'json' | 'ndjson' | 'csv';
+
+export type DetectedFormat = {
+  format: SourceFormat;
+  compressed: boolean;
+}
+
+export type OpenedSource = {
+  detected: DetectedFormat;
+
+  /**
+   * Decompressed content of the source object
+   */
+  content: AsyncIterable<Buffer>;
+}
+
+export type EnvelopeHeader = {
+  requestId: string;
+  timestamp: string;
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const CONTENT_TYPE_FORMATS: Record<string, SourceFormat> = {
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'application/x-jsonlines': 'ndjson',
+  'text/csv': 'csv',
+  'application/csv': 'csv'
+};
+
+const EXTENSION_FORMATS: Record<string, SourceFormat> = {
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  csv: 'csv'
+};
+
+/**
+ * Converts NDJSON, CSV and gzip-compressed drops into the canonical JSON envelope:
+ *   { "requestId": "...", "timestamp": "...", "rawData": [ ... ], "recordCount": N }
+ *
+ * Everything is streamed, so files of any size are converted in constant memory.
+ * Detection order:
+ * - Compression: gzip magic bytes
+ * - Format: Content-Type, then file extension, then the first bytes of the (decompressed) content
+ */
+export class Normalizer {
+  private accepted: InputFormat[];
+
+  constructor(accepted: InputFormat[]) {
+    this.accepted = accepted;
+  }
+
+  /**
+   * Detect the format of a source stream and return its decompressed content
+   * Throws if the detected format is not accepted
+   */
+  async open(source: AsyncIterable<Uint8Array>, filename: string, contentType?: string): Promise<OpenedSource> {
+    let { head, stream } = await peek(source);
+
+    const compressed = GZIP_MAGIC.every((byte, i) => head[i] === byte);
+    if (compressed) {
+      ({ head, stream } = await peek(gunzip(stream)));
+    }
+
+    const format = formatFromContentType(contentType)
+      || formatFromExtension(filename)
+      || sniffFormat(head);
+
+    const detected = { format, compressed };
+    this.assertAccepted(detected);
+    return { detected, content: stream };
+  }
+
+  /**
+   * Whether a detected format differs from the canonical (uncompressed JSON) form
+   */
+  static needsNormalization(detected: DetectedFormat): boolean {
+    return detected.compressed || detected.format !== 'json';
+  }
+
+  /**
+   * Describe a detected format for logs and results, e.g. "csv+gzip"
+   */
+  static describe(detected: DetectedFormat): string {
+    return detected.compressed ? `${detected.format}+gzip` : detected.format;
+  }
+
+  /**
+   * Produce the canonical envelope as a stream of JSON text
+   * JSON sources are already envelopes and pass through unchanged (after decompression)
+   */
+  toEnvelope(opened: OpenedSource, header: EnvelopeHeader): Readable {
+    const { detected: { format }, content } = opened;
+    if (format === 'json') {
+      return Readable.from(content);
+    }
+    const records = format === 'ndjson' ? parseNdjson(content) : parseCsv(content);
+    return Readable.from(writeEnvelope(records, header));
+  }
+
+  private assertAccepted(detected: DetectedFormat): void {
+    if (!this.accepted.includes(detected.format)) {
+      throw new Error(`Input format "${detected.format}" is not accepted (accepted: ${this.accepted.join(', ')})`);
+    }
+    if (detected.compressed && !this.accepted.includes('gzip')) {
+      throw new Error(`Gzip-compressed input is not accepted (accepted: ${this.accepted.join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Read the first chunk of a stream without losing it
+ */
+const peek = async (source: AsyncIterable<Uint8Array>): Promise<{ head: Buffer, stream: AsyncIterable<Buffer> }> => {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const head = first.done ? Buffer.alloc(0) : Buffer.from(first.value);
+
+  async function* rest(): AsyncIterable<Buffer> {
+    if (first.done) return;
+    yield head;
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield Buffer.from(next.value);
+    }
+  }
+
+  return { head, stream: rest() };
+}
+
+const gunzip = (source: AsyncIterable<Buffer>): AsyncIterable<Buffer> => {
+  // Errors in either stream surface when the gunzip stream is iterated
+  return pipeline(Readable.from(source), createGunzip(), () => {});
+}
+
+const formatFromContentType = (contentType?: string): SourceFormat | undefined => {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+  return mediaType ? CONTENT_TYPE_FORMATS[mediaType] : undefined;
+}
+
+const formatFromExtension = (filename: string): SourceFormat | undefined => {
+  const parts = filename.toLowerCase().replace(/\.gz$/, '').split('.');
+  return parts.length > 1 ? EXTENSION_FORMATS[parts[parts.length - 1]] : undefined;
+}
+
+/**
+ * Guess the format from the first bytes of content
+ * - Starts with '[' or a multi-line JSON document: json
+ * - First line is a complete JSON object followed by another object: ndjson
+ * - Anything else: csv
+ */
+const sniffFormat = (head: Buffer): SourceFormat => {
+  const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('[')) {
+    return 'json';
+  }
+  if (text.startsWith('{')) {
+    const newline = text.indexOf('\n');
+    if (newline === -1) {
+      return 'json';
+    }
+    try {
+      JSON.parse(text.substring(0, newline));
+      return text.substring(newline + 1).trimStart().startsWith('{') ? 'ndjson' : 'json';
+    } catch {
+      return 'json';
+    }
+  }
+  return 'csv';
+}
+
+/**
+ * Parse newline-delimited JSON, one record per non-blank line
+ */
+export async function* parseNdjson(content: AsyncIterable<Buffer>): AsyncIterable<unknown> {
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+  let lineNumber = 0;
+
+  const parseLine = (line: string): unknown => {
+    lineNumber++;
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Malformed NDJSON at line ${lineNumber}: ${(error as Error).message}`);
+    }
+  };
+
+  for await (const chunk of content) {
+    pending += decoder.write(chunk);
+    const lines = pending.split('\n');
+    pending = lines.pop()!;
+    for (const line of lines) {
+      const record = parseLine(line);
+      if (record !== undefined) yield record;
+    }
+  }
+
+  const record = parseLine(pending + decoder.end());
+  if (record !== undefined) yield record;
+}
+
+/**
+ * Parse RFC 4180 CSV with a header row into one object per data row
+ * Quoted fields may contain commas, doubled quotes and line breaks. Values are kept as strings.
+ */
+export async function* parseCsv(content: AsyncIterable<Buffer>): AsyncIterable<Record<string, string>> {
+  const decoder = new StringDecoder('utf8');
+  let header: string[] | undefined;
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteClosed = false;
+  let rowNumber = 0;
+
+  const completeRow = (): Record<string, string> | undefined => {
+    row.push(field);
+    const values = row;
+    field = '';
+    row = [];
+    rowNumber++;
+
+    if (values.length === 1 && values[0] === '') {
+      return undefined; // blank line
+    }
+    if (!header) {
+      header = values.map((name, i) => (i === 0 ? name.replace(/^\uFEFF/, '') : name).trim());
+      return undefined;
+    }
+    if (values.length !== header.length) {
+      throw new Error(`Malformed CSV at row ${rowNumber}: expected ${header.length} fields but found ${values.length}`);
+    }
+    return Object.fromEntries(header.map((name, i) => [name, values[i]]));
+  };
+
+  const parse = function* (text: string): Iterable<Record<string, string>> {
+    for (const char of text) {
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          quoteClosed = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (quoteClosed && char === '"') {
+        // Doubled quote inside a quoted field
+        field += '"';
+        inQuotes = true;
+        quoteClosed = false;
+        continue;
+      }
+      quoteClosed = false;
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        const record = completeRow();
+        if (record) yield record;
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  };
+
+  for await (const chunk of content) {
+    yield* parse(decoder.write(chunk));
+  }
+  yield* parse(decoder.end());
+
+  if (inQuotes) {
+    throw new Error(`Malformed CSV at row ${rowNumber + 1}: unterminated quoted field`);
+  }
+  if (field !== '' || row.length > 0) {
+    const record = completeRow();
+    if (record) yield record;
+  }
+}
+
+async function* writeEnvelope(records: AsyncIterable<unknown>, header: EnvelopeHeader): AsyncIterable<string> {
+  yield `{"requestId":${JSON.stringify(header.requestId)},"timestamp":${JSON.stringify(header.timestamp)},"rawData":[`;
+  let recordCount = 0;
+  for await (const record of records) {
+    yield (recordCount > 0 ? ',' : '') + JSON.stringify(record);
+    recordCount++;
+  }
+  yield `],"recordCount":${recordCount}}`;
+}
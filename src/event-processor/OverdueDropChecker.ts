@@ -0,0 +1,72 @@
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { ExpectedDrop, IExpectedDropRegistry } from './ExpectedDrops';
+import { logger } from './Logger';
+
+export type OverdueDropResult = {
+  notified: string[];
+  failed: string[];
+}
+
+/**
+ * Notifies about registered drops that did not arrive by their deadline
+ * Responsibilities:
+ * - Find pending registrations whose deadline has passed
+ * - Mark each one overdue and publish an "overdue drop" notification to the SNS topic
+ * - Return registrations whose notification could not be published to pending, so the next check retries
+ */
+export class OverdueDropChecker {
+  private registry: IExpectedDropRegistry;
+  private topicArn: string;
+  private snsClient: SNSClient;
+  private now: () => Date;
+
+  constructor(registry: IExpectedDropRegistry, topicArn: string, snsClient?: SNSClient, now?: () => Date) {
+    this.registry = registry;
+    this.topicArn = topicArn;
+    this.snsClient = snsClient || new SNSClient({});
+    this.now = now || (() => new Date());
+  }
+
+  async check(): Promise<OverdueDropResult> {
+    const result: OverdueDropResult = { notified: [], failed: [] };
+    const now = this.now();
+    const overdue = await this.registry.findOverdue(now);
+
+    for (const drop of overdue) {
+      const id = `${drop.subdirectory}#${drop.requestId}`;
+
+      // Mark before notifying, so a drop fulfilled in the meantime is not reported
+      if (!await this.registry.markOverdue(drop.subdirectory, drop.requestId, now.toISOString())) {
+        logger.info(`Expected drop ${id} is no longer pending, not notifying`, { subdirectory: drop.subdirectory, requestId: drop.requestId });
+        continue;
+      }
+
+      try {
+        await this.notify(drop, now);
+        logger.warn(`Expected drop ${id} is overdue since ${drop.deadline}, notification published`, { subdirectory: drop.subdirectory, requestId: drop.requestId });
+        result.notified.push(id);
+      } catch (error) {
+        logger.error(`Failed to publish overdue notification for ${id}`, { subdirectory: drop.subdirectory, requestId: drop.requestId, error });
+        await this.registry.reopen(drop.subdirectory, drop.requestId);
+        result.failed.push(id);
+      }
+    }
+
+    return result;
+  }
+
+  private async notify(drop: ExpectedDrop, now: Date): Promise<void> {
+    await this.snsClient.send(new PublishCommand({
+      TopicArn: this.topicArn,
+      Subject: `Overdue drop: ${drop.requestId} in ${drop.subdirectory}`.substring(0, 100),
+      Message: JSON.stringify({
+        type: 'overdue-drop',
+        subdirectory: drop.subdirectory,
+        requestId: drop.requestId,
+        deadline: drop.deadline,
+        registeredAt: drop.registeredAt,
+        checkedAt: now.toISOString()
+      }, null, 2)
+    }));
+  }
+}
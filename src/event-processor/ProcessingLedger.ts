@@ -0,0 +1,188 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand, QueryCommandInput } from '@aws-sdk/lib-dynamodb';
+import { S3EventRecord } from 'aws-lambda';
+import { ProcessingResult } from './S3EventProcessor';
+
+/**
+ * Everything known about one dropped file after it was processed: the S3 event that announced it
+ * and the outcome of processing it
+ */
+export type ProcessingRecord = ProcessingResult & {
+  bucket: string;
+  size: number;
+  eTag: string;
+  sequencer: string;
+
+  /**
+   * When S3 reported the file as created (ISO timestamp)
+   */
+  eventTime: string;
+
+  /**
+   * When processing finished (ISO timestamp)
+   */
+  processedAt: string;
+}
+
+export type IProcessingLedger = {
+  record: (record: ProcessingRecord) => Promise<void>
+
+  /**
+   * Every processing of a file, oldest first, found by the key it was dropped at or the key it was renamed to
+   */
+  findByKey: (key: string) => Promise<ProcessingRecord[]>
+
+  /**
+   * Every processing of the files of a drop, oldest first, found by the requestId of its envelope or manifest
+   */
+  findByRequestId: (requestId: string) => Promise<ProcessingRecord[]>
+
+  /**
+   * Files dropped in a subdirectory between two times (inclusive), oldest first
+   */
+  findDroppedBetween: (subdirectory: string, from: Date, to: Date) => Promise<ProcessingRecord[]>
+}
+
+/**
+ * Outcomes that do not describe a dropped file: the events caused by the processor's own renames,
+ * and redeliveries of an event that is already recorded
+ */
+const UNRECORDED_ACTIONS: ProcessingResult['action'][] = ['skipped-already-processed', 'skipped-duplicate-event'];
+
+export const shouldRecord = (result: ProcessingResult): boolean => !UNRECORDED_ACTIONS.includes(result.action);
+
+export const toProcessingRecord = (record: S3EventRecord, result: ProcessingResult, processedAt: string): ProcessingRecord => ({
+  ...result,
+  bucket: record.s3.bucket.name,
+  size: record.s3.object.size,
+  eTag: record.s3.object.eTag,
+  sequencer: record.s3.object.sequencer,
+  eventTime: record.eventTime,
+  processedAt
+});
+
+/**
+ * DynamoDB-backed processing ledger
+ * Table layout:
+ * - Partition key originalKey, sort key eventId ("{eventTime}#{sequencer}"), one item per processed event
+ * - Index "by-new-key" on newKey, to find a file by its renamed key
+ * - Index "by-request-id" on requestId, to find the files of a drop by the requestId of its envelope or manifest
+ * - Index "by-subdirectory" on subdirectory and eventTime, to find files by drop time
+ */
+export class DynamoDbProcessingLedger implements IProcessingLedger {
+  public static readonly NEW_KEY_INDEX = 'by-new-key';
+  public static readonly REQUEST_ID_INDEX = 'by-request-id';
+  public static readonly SUBDIRECTORY_INDEX = 'by-subdirectory';
+
+  private tableName: string;
+  private client: DynamoDBDocumentClient;
+
+  constructor(tableName: string, client?: DynamoDBDocumentClient) {
+    this.tableName = tableName;
+    this.client = client || DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: { removeUndefinedValues: true }
+    });
+  }
+
+  async record(record: ProcessingRecord): Promise<void> {
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: {
+        ...record,
+        eventId: `${record.eventTime}#${record.sequencer}`
+      }
+    }));
+  }
+
+  async findByKey(key: string): Promise<ProcessingRecord[]> {
+    const [byOriginalKey, byNewKey] = await Promise.all([
+      this.query({
+        KeyConditionExpression: 'originalKey = :key',
+        ExpressionAttributeValues: { ':key': key }
+      }),
+      this.query({
+        IndexName: DynamoDbProcessingLedger.NEW_KEY_INDEX,
+        KeyConditionExpression: 'newKey = :key',
+        ExpressionAttributeValues: { ':key': key }
+      })
+    ]);
+    return [...byOriginalKey, ...byNewKey].sort((a, b) => a.eventTime.localeCompare(b.eventTime));
+  }
+
+  async findByRequestId(requestId: string): Promise<ProcessingRecord[]> {
+    const records = await this.query({
+      IndexName: DynamoDbProcessingLedger.REQUEST_ID_INDEX,
+      KeyConditionExpression: 'requestId = :requestId',
+      ExpressionAttributeValues: { ':requestId': requestId }
+    });
+    return records.sort((a, b) => a.eventTime.localeCompare(b.eventTime));
+  }
+
+  async findDroppedBetween(subdirectory: string, from: Date, to: Date): Promise<ProcessingRecord[]> {
+    return this.query({
+      IndexName: DynamoDbProcessingLedger.SUBDIRECTORY_INDEX,
+      KeyConditionExpression: 'subdirectory = :subdirectory AND eventTime BETWEEN :from AND :to',
+      ExpressionAttributeValues: {
+        ':subdirectory': subdirectory,
+        ':from': from.toISOString(),
+        ':to': to.toISOString()
+      }
+    });
+  }
+
+  /**
+   * Run a query, following pagination, and strip the table's own key attributes
+   */
+  private async query(input: Omit<QueryCommandInput, 'TableName'>): Promise<ProcessingRecord[]> {
+    const records: ProcessingRecord[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const response = await this.client.send(new QueryCommand({
+        ...input,
+        TableName: this.tableName,
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      (response.Items || []).forEach(({ eventId, ...record }) => records.push(record as ProcessingRecord));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return records;
+  }
+}
+
+/**
+ * In-memory stand-in for the DynamoDB ledger, for tests and local runs
+ */
+export class InMemoryProcessingLedger implements IProcessingLedger {
+  private records: ProcessingRecord[] = [];
+
+  async record(record: ProcessingRecord): Promise<void> {
+    this.records = this.records.filter(existing =>
+      existing.originalKey !== record.originalKey
+      || existing.eventTime !== record.eventTime
+      || existing.sequencer !== record.sequencer
+    );
+    this.records.push(record);
+  }
+
+  async findByKey(key: string): Promise<ProcessingRecord[]> {
+    return this.sorted(this.records.filter(record => record.originalKey === key || record.newKey === key));
+  }
+
+  async findByRequestId(requestId: string): Promise<ProcessingRecord[]> {
+    return this.sorted(this.records.filter(record => record.requestId === requestId));
+  }
+
+  async findDroppedBetween(subdirectory: string, from: Date, to: Date): Promise<ProcessingRecord[]> {
+    return this.sorted(this.records.filter(record =>
+      record.subdirectory === subdirectory
+      && record.eventTime >= from.toISOString()
+      && record.eventTime <= to.toISOString()
+    ));
+  }
+
+  private sorted(records: ProcessingRecord[]): ProcessingRecord[] {
+    return [...records].sort((a, b) => a.eventTime.localeCompare(b.eventTime));
+  }
+}
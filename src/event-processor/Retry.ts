@@ -0,0 +1,98 @@
+import { logger } from './Logger';
+
+export type RetryPolicy = {
+  /**
+   * Total number of attempts, including the first
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay before the first retry, doubled for each further retry
+   */
+  baseDelayMs: number;
+
+  /**
+   * Upper bound on the delay before any one retry
+   */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 200,
+  maxDelayMs: 5000
+};
+
+/**
+ * AWS error codes that are known to clear up on their own
+ */
+const TRANSIENT_ERROR_NAMES = new Set([
+  'SlowDown',
+  'Throttling',
+  'ThrottlingException',
+  'ThrottledException',
+  'TooManyRequestsException',
+  'RequestLimitExceeded',
+  'ProvisionedThroughputExceededException',
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'TimeoutError',
+  'ServiceUnavailable',
+  'ServiceException',
+  'InternalError',
+  'InternalFailure',
+  'EC2ThrottledException',
+  'ENILimitReachedException',
+  'ResourceConflictException'
+]);
+
+/**
+ * Network-level error codes raised by Node.js before a response is received
+ */
+const TRANSIENT_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN']);
+
+/**
+ * Classify an error as transient (worth retrying) or permanent (retrying cannot help)
+ * - Known throttling, timeout and service-side error codes, HTTP 408, 429 and 5xx, and network errors are transient
+ * - Any other AWS error with a 4xx status (AccessDenied, NoSuchKey, ResourceNotFoundException, ...) is permanent
+ * - Errors that carry no classification, such as a subscriber's own failure, are treated as transient
+ */
+export const isTransientError = (error: unknown): boolean => {
+  const err = error as { name?: string, code?: string, $retryable?: unknown, $metadata?: { httpStatusCode?: number } };
+  if (!err || typeof err !== 'object') {
+    return true;
+  }
+  if (err.$retryable || TRANSIENT_ERROR_NAMES.has(err.name || '') || TRANSIENT_NETWORK_CODES.has(err.code || '')) {
+    return true;
+  }
+  const status = err.$metadata?.httpStatusCode;
+  if (status === undefined) {
+    return true;
+  }
+  return status === 408 || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff
+ * Permanent failures, and the last transient failure, are rethrown
+ */
+export const withRetry = async <T>(
+  description: string,
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isTransientError(error)) {
+        throw error;
+      }
+      const delayMs = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+      logger.warn(`${description} failed with a transient error (attempt ${attempt} of ${policy.maxAttempts}), retrying in ${delayMs}ms`, { error });
+      await sleep(delayMs);
+    }
+  }
+}
@@ -1,33 +1,147 @@
 import { S3EventRecord } from 'aws-lambda';
-import { BucketConfig, BucketSubdirectory } from '../../context/IContext';
-import { IBucket } from './Bucket';
-import { ISubscriber, Subscriber } from './Subscriber';
+import { randomUUID } from 'crypto';
+import { BucketConfig, BucketSubdirectory, getSubscriberTarget, getSubscribers } from '../../context/IContext';
+import { IBucket, PROCESSED_TAGS, toTagValue } from './Bucket';
+import { IEventLedger, getEventKey } from './EventLedger';
+import { IExpectedDropRegistry } from './ExpectedDrops';
+import { HashLedgerEntry, IHashLedger } from './HashLedger';
+import { addLogContext, emitMetrics, logger, withLogContext } from './Logger';
+import { MANIFEST_FILENAME, Manifest, PartInspection, inspectPart, isManifestFile, parseManifest, verifyManifest } from './Manifest';
+import { Normalizer } from './Normalizer';
+import { isTransientError } from './Retry';
+import { createSubscriber } from './Subscriber';
+import { IUploaderDirectory, Uploader } from './Uploaders';
+import { SchemaValidator, ValidationResult } from './Validator';
 
 export type ProcessingResult = {
   success: boolean;
-  action: 'skipped-no-match' | 'skipped-already-processed' | 'renamed' | 'error-rename' | 'error-invoke';
+  action:
+    | 'skipped-no-match'
+    | 'skipped-already-processed'
+    | 'skipped-duplicate'
+    | 'skipped-duplicate-event'
+    | 'held-for-manifest'
+    | 'renamed'
+    | 'assembled'
+    | 'error-format'
+    | 'error-validation'
+    | 'error-manifest'
+    | 'error-unauthorized'
+    | 'error-rename'
+    | 'error-invoke'
+    | 'partial-invoke';
   reason?: string;
   originalKey: string;
+  subdirectory?: string;
+
+  /**
+   * requestId of the drop, from its envelope or manifest (or its request-id metadata), so the uploader can look it up
+   */
+  requestId?: string;
+
+  /**
+   * Traces the drop across tags, logs and subscriber payloads: the request-id metadata of the upload,
+   * the envelope or manifest requestId, or a generated id
+   */
+  correlationId?: string;
+
+  /**
+   * Principal that uploaded the file, from the S3 event record, and the named uploader it belongs to (if any)
+   */
+  principalId?: string;
+  uploader?: string;
   newKey?: string;
   subscriberInvoked?: boolean;
   movedToErrors?: boolean;
+  recordCount?: number;
+  inputFormat?: string;
+  normalizedFrom?: string;
+  parts?: string[];
+  sha256?: string;
+  duplicateOf?: string;
+  subscribers?: SubscriberOutcome[];
+
+  /**
+   * Whether the file fulfilled a drop registered in the expected-drop registry
+   */
+  fulfilledExpectedDrop?: boolean;
+}
+
+export type SubscriberOutcome = {
+  /**
+   * ARN (or URL, for webhooks) of the subscriber
+   */
+  target: string;
+  invoked: boolean;
+  attempts: number;
+  error?: string;
 }
 
 export type ClockFunction = () => string;
 
+/**
+ * Whether a failed result left the object where it landed, so processing the same event again may succeed
+ * (e.g. the rename failed after retries), rather than renaming it or moving it to errors
+ */
+export const isRetryable = (result: ProcessingResult): boolean =>
+  !result.success && !result.newKey && !result.movedToErrors;
+
+export type S3EventProcessorOptions = {
+  /**
+   * Ledger of handled S3 event deliveries, used to recognise redeliveries of the same event
+   */
+  eventLedger?: IEventLedger;
+
+  /**
+   * Ledger of recent content hashes, used by subdirectories with duplicateWindowHours set
+   */
+  hashLedger?: IHashLedger;
+
+  /**
+   * Registry of drops requesting processes are waiting for, marked fulfilled when a file with a matching requestId arrives
+   */
+  expectedDrops?: IExpectedDropRegistry;
+
+  /**
+   * Named uploaders, used to record who dropped each file and to reject files from uploaders not allowed in the subfolder
+   */
+  uploaders?: IUploaderDirectory;
+
+  /**
+   * Delay before the first retry of a failed subscriber, doubled for each further retry
+   * Defaults to RETRY_BASE_DELAY_MS
+   */
+  retryBaseDelayMs?: number;
+}
+
 /**
  * Processes S3 event records for file arrival handling
  * Responsibilities:
  * - Match files to configured subdirectories
+ * - Carry a correlation id through tags, log lines, subscriber payloads and error entries
  * - Detect and skip already-processed files (recursion prevention)
+ * - Detect and skip redeliveries of an already handled S3 event
+ * - Record the uploader of each file, and reject files from uploaders not allowed in the subfolder (if configured)
+ * - Hold multi-part drops until their manifest arrives, then verify and dispatch them as one set (if configured)
+ * - Skip identical re-uploads within the subfolder's duplicate window (if configured)
+ * - Normalize NDJSON, CSV and gzip-compressed drops into the canonical JSON envelope (if configured)
+ * - Validate file contents against the subfolder's JSON Schema (if configured)
  * - Rename files with timestamp prefix
- * - Invoke subscriber Lambda functions
- * - Move failed invocation files to errors subfolder
+ * - Notify subscribers (Lambda, SQS, SNS, EventBridge, Step Functions or webhook), retrying only the ones that failed
+ * - Move files no subscriber could be invoked for to errors subfolder
+ * - Mark the expected drop with the file's requestId fulfilled (if registered)
+ * - Log structured JSON records and emit per-subdirectory metrics in Embedded Metric Format
  */
 export class S3EventProcessor {
   private record: S3EventRecord;
   private bucket: IBucket;
   private clockFn: ClockFunction;
+  private hashLedger?: IHashLedger;
+  private eventLedger?: IEventLedger;
+  private expectedDrops?: IExpectedDropRegistry;
+  private uploaders?: IUploaderDirectory;
+  private retryBaseDelayMs: number;
+  private correlationId?: string;
 
   /**
    * Strict ISO 8601 timestamp pattern for recursion detection
@@ -38,24 +152,62 @@ export class S3EventProcessor {
    */
   private static readonly TIMESTAMP_PREFIX_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z-?/;
 
+  /**
+   * Files larger than this are validated by streaming the rawData array record by record
+   * rather than reading the whole body into memory (keeps within the Lambda memory budget)
+   */
+  private static readonly STREAMING_VALIDATION_THRESHOLD_BYTES = 10 * 1024 * 1024;
+
+  /**
+   * Number of times each subscriber is invoked before it is reported as failed
+   */
+  private static readonly MAX_INVOKE_ATTEMPTS = 3;
+
+  private static readonly RETRY_BASE_DELAY_MS = 200;
+
   constructor(
     record: S3EventRecord,
     bucket: IBucket,
-    clockFn?: ClockFunction
+    clockFn?: ClockFunction,
+    options?: S3EventProcessorOptions
   ) {
     this.record = record;
     this.bucket = bucket;
     this.clockFn = clockFn || (() => new Date().toISOString());
+    this.hashLedger = options?.hashLedger;
+    this.eventLedger = options?.eventLedger;
+    this.expectedDrops = options?.expectedDrops;
+    this.uploaders = options?.uploaders;
+    this.retryBaseDelayMs = options?.retryBaseDelayMs ?? S3EventProcessor.RETRY_BASE_DELAY_MS;
   }
 
   /**
    * Process the S3 event record
    */
   async process(): Promise<ProcessingResult> {
-    const bucketName = this.record.s3.bucket.name;
     const key = decodeURIComponent(this.record.s3.object.key.replace(/\+/g, ' '));
+    const startedAt = Date.now();
 
-    console.log(`Processing object: s3://${bucketName}/${key}`);
+    return withLogContext({ key }, async () => {
+      const result = await this.processKey(key);
+      logger.info(`Processed ${key}: ${result.action}`, {
+        action: result.action,
+        reason: result.reason,
+        newKey: result.newKey,
+        durationMs: Date.now() - startedAt
+      });
+      this.emitFileMetrics(result);
+      return result;
+    });
+  }
+
+  /**
+   * Match the object to its subfolder and process it, unless it was processed before
+   */
+  private async processKey(key: string): Promise<ProcessingResult> {
+    const bucketName = this.record.s3.bucket.name;
+
+    logger.info(`Processing object: s3://${bucketName}/${key}`);
 
     const result: ProcessingResult = {
       success: false,
@@ -66,7 +218,7 @@ export class S3EventProcessor {
     // Find matching subdirectory configuration
     const subfolderConfig = this.findSubfolderConfig(key);
     if (!subfolderConfig) {
-      console.log(`Object not in any configured subfolder. Logging and exiting.`);
+      logger.info(`Object not in any configured subfolder. Logging and exiting.`);
       return {
         ...result,
         success: true,
@@ -75,12 +227,14 @@ export class S3EventProcessor {
       };
     }
 
-    console.log(`Matched subfolder: ${subfolderConfig.path}`);
+    logger.info(`Matched subfolder: ${subfolderConfig.path}`);
+    result.subdirectory = subfolderConfig.path;
+    addLogContext({ subdirectory: subfolderConfig.path });
 
     // Skip if file has already been processed (recursion prevention)
     const filename = key.split('/').pop() || '';
     if (this.isAlreadyProcessed(filename)) {
-      console.log(`File ${filename} has already been processed (matches timestamp prefix pattern). Skipping to avoid recursive loop.`);
+      logger.info(`File ${filename} has already been processed (matches timestamp prefix pattern). Skipping to avoid recursive loop.`);
       return {
         ...result,
         success: true,
@@ -89,20 +243,363 @@ export class S3EventProcessor {
       };
     }
 
+    // S3 delivers events at least once, so recognise a redelivery before touching the object again
+    if (this.eventLedger) {
+      return this.processUnlessRedelivered(key, subfolderConfig, result, this.eventLedger);
+    }
+
+    return this.processMatched(key, subfolderConfig, result);
+  }
+
+  /**
+   * Record the delivery of the event and process it, unless the same event was already delivered.
+   * The claim is released if processing failed before the object was renamed or moved, so a redelivery can retry.
+   */
+  private async processUnlessRedelivered(
+    key: string,
+    subfolderConfig: BucketSubdirectory,
+    result: ProcessingResult,
+    eventLedger: IEventLedger
+  ): Promise<ProcessingResult> {
+    const eventKey = getEventKey(this.record);
+    try {
+      const claimed = await eventLedger.claim({ eventKey, eventName: this.record.eventName, receivedAt: this.clockFn() });
+      if (!claimed) {
+        logger.info(`Event ${eventKey} has already been delivered. Skipping redelivery.`);
+        return {
+          ...result,
+          success: true,
+          action: 'skipped-duplicate-event',
+          reason: 'S3 event was already delivered and handled'
+        };
+      }
+    } catch (error) {
+      // Processing a redelivery is preferable to dropping an event, so carry on without the check
+      logger.error(`Redelivery check failed for ${eventKey}, processing without it`, { error });
+      return this.processMatched(key, subfolderConfig, result);
+    }
+
+    const processed = await this.processMatched(key, subfolderConfig, result);
+    if (isRetryable(processed)) {
+      try {
+        await eventLedger.release(eventKey);
+      } catch (error) {
+        logger.error(`Failed to release event ${eventKey}, redeliveries will be skipped`, { error });
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Process a file that matched a subfolder and has not been processed before
+   */
+  private async processMatched(
+    key: string,
+    subfolderConfig: BucketSubdirectory,
+    result: ProcessingResult
+  ): Promise<ProcessingResult> {
+    await this.resolveCorrelationId(key, result);
+
+    const routed = await this.rejectUnauthorizedUploader(key, subfolderConfig, result)
+      || await this.routeMatched(key, subfolderConfig, result);
+    const processed = { ...routed, correlationId: this.getCorrelationId() };
+    if (this.expectedDrops) {
+      return this.fulfilExpectedDrop(processed, this.expectedDrops);
+    }
+    return processed;
+  }
+
+  /**
+   * Record who uploaded the file, and move it to errors when it comes from a named uploader not allowed in the subfolder
+   * Files from principals that are not named uploaders (e.g. pre-signed uploads, or an administrator) are processed
+   */
+  private async rejectUnauthorizedUploader(
+    key: string,
+    subfolderConfig: BucketSubdirectory,
+    result: ProcessingResult
+  ): Promise<ProcessingResult | undefined> {
+    const principalId = this.record.userIdentity?.principalId;
+    if (!principalId) {
+      return undefined;
+    }
+    result.principalId = principalId;
+    if (!this.uploaders) {
+      return undefined;
+    }
+
+    let uploader: Uploader | undefined;
+    try {
+      uploader = await this.uploaders.identify(principalId);
+    } catch (error) {
+      // The uploader's IAM policy already keeps it out of other subfolders, so carry on without the check
+      logger.error(`Could not identify the uploader of ${key} (${principalId}), processing without the check`, { error });
+      return undefined;
+    }
+    if (!uploader) {
+      return undefined;
+    }
+
+    result.uploader = uploader.name;
+    addLogContext({ uploader: uploader.name });
+    if (uploader.subdirectories.includes(subfolderConfig.path)) {
+      return undefined;
+    }
+
+    logger.warn(`Uploader ${uploader.name} is not allowed to write to ${subfolderConfig.path}, moving ${key} to errors`);
+    return this.moveAllToErrors([key], subfolderConfig.path, {
+      ...result,
+      success: false,
+      action: 'error-unauthorized',
+      reason: `Uploader ${uploader.name} is not allowed to write to ${subfolderConfig.path}`
+    });
+  }
+
+  /**
+   * Take the correlation id from the upload's request-id metadata, when it has one
+   * Otherwise it is taken from the envelope or manifest requestId once read, or generated when first needed
+   */
+  private async resolveCorrelationId(key: string, result: ProcessingResult): Promise<void> {
+    try {
+      const requestId = (await this.bucket.getObjectInfo(key)).metadata['request-id'];
+      if (requestId) {
+        this.setCorrelationId(requestId);
+        result.requestId = requestId;
+      }
+    } catch (error) {
+      logger.warn(`Could not read metadata of ${key}, the correlation id will come from its contents or be generated`, { error });
+    }
+  }
+
+  /**
+   * Record the requestId found in an envelope or manifest, and use it as correlation id unless one is already in use
+   */
+  private setRequestId(result: ProcessingResult, requestId: string | undefined): void {
+    if (requestId) {
+      result.requestId = requestId;
+      if (!this.correlationId) {
+        this.setCorrelationId(requestId);
+      }
+    }
+  }
+
+  private setCorrelationId(correlationId: string): void {
+    this.correlationId = correlationId;
+    addLogContext({ correlationId });
+  }
+
+  private getCorrelationId(): string {
+    if (!this.correlationId) {
+      this.setCorrelationId(randomUUID());
+    }
+    return this.correlationId!;
+  }
+
+  /**
+   * Tag carrying the correlation id, with characters S3 does not accept in tag values replaced
+   */
+  private getCorrelationTags(): Record<string, string> {
+    return { 'correlation-id': toTagValue(this.getCorrelationId()) };
+  }
+
+  /**
+   * Tags of a renamed file: the correlation id, and the tag its subdirectory's lifecycle rule applies to
+   */
+  private getRenameTags(): Record<string, string> {
+    return { ...this.getCorrelationTags(), ...PROCESSED_TAGS };
+  }
+
+  /**
+   * Mark the registered drop with the requestId of the file fulfilled
+   * Any outcome counts as an arrival, except parts held for their manifest and failures that will be retried
+   */
+  private async fulfilExpectedDrop(result: ProcessingResult, expectedDrops: IExpectedDropRegistry): Promise<ProcessingResult> {
+    if (!result.requestId || !result.subdirectory || result.action === 'held-for-manifest' || isRetryable(result)) {
+      return result;
+    }
+    try {
+      const fulfilled = await expectedDrops.fulfil(result.subdirectory, result.requestId, result.newKey || result.originalKey, this.clockFn());
+      if (fulfilled) {
+        logger.info(`File fulfilled expected drop ${result.requestId} in ${result.subdirectory}`);
+      }
+      return { ...result, fulfilledExpectedDrop: fulfilled };
+    } catch (error) {
+      // The drop arrived regardless, so do not fail processing. The checker may report it overdue.
+      logger.error(`Failed to mark expected drop ${result.requestId} in ${result.subdirectory} fulfilled`, { error });
+      return result;
+    }
+  }
+
+  /**
+   * Route a matched file to multi-part assembly, duplicate detection or single-file processing
+   */
+  private async routeMatched(
+    key: string,
+    subfolderConfig: BucketSubdirectory,
+    result: ProcessingResult
+  ): Promise<ProcessingResult> {
+    // Multi-part drops are assembled from their manifest rather than processed file by file
+    if (subfolderConfig.manifest) {
+      return this.processManifestDrop(key, subfolderConfig, result);
+    }
+
     // For nested subdirectories, preserve the structure
     // Extract relative path within the configured subfolder
     const relativePath = key.substring(subfolderConfig.path.length + 1); // +1 for the '/'
     const pathParts = relativePath.split('/');
     const filenameOnly = pathParts[pathParts.length - 1];
     const nestedPath = pathParts.slice(0, -1).join('/'); // Get parent directories if any
-    
+
     // Rename with timestamp prefix to preserve original filename completely
-    const newKey = this.generateDateBasedFileName(subfolderConfig.path, nestedPath, filenameOnly);
-    console.log(`Renaming ${key} to ${newKey}`);
-    
-    const renamed = await this.bucket.renameObject(key, newKey);
+    const renamedKey = this.generateDateBasedFileName(subfolderConfig.path, nestedPath, filenameOnly);
+
+    if (subfolderConfig.duplicateWindowHours && this.hashLedger) {
+      return this.processUnlessDuplicate(key, renamedKey, subfolderConfig, result, this.hashLedger);
+    }
+
+    return this.processFile(key, renamedKey, subfolderConfig, result);
+  }
+
+  /**
+   * Record the content hash of the file and process it, unless identical content already arrived
+   * in the subfolder within its duplicate window. A duplicate is renamed and tagged "duplicate-of"
+   * but the subscriber is not invoked. If processing fails, the hash is released so a corrected
+   * re-upload is not mistaken for a duplicate.
+   */
+  private async processUnlessDuplicate(
+    key: string,
+    renamedKey: string,
+    subfolderConfig: BucketSubdirectory,
+    result: ProcessingResult,
+    hashLedger: IHashLedger
+  ): Promise<ProcessingResult> {
+    let existing: HashLedgerEntry | undefined;
+    try {
+      const { sha256 } = await inspectPart(await this.bucket.getObjectStream(key), false);
+      result.sha256 = sha256;
+
+      const recordedAt = this.clockFn();
+      const windowMs = subfolderConfig.duplicateWindowHours! * 60 * 60 * 1000;
+      const since = new Date(new Date(recordedAt).getTime() - windowMs);
+      existing = await hashLedger.claim({ subdirectory: subfolderConfig.path, sha256, key: renamedKey, recordedAt }, since);
+    } catch (error) {
+      // Dispatching twice is preferable to dropping a file, so carry on without duplicate detection
+      logger.error(`Duplicate check failed for ${key}, processing without it`, { error });
+      result.sha256 = undefined;
+      return this.processFile(key, renamedKey, subfolderConfig, result);
+    }
+
+    if (existing) {
+      const reason = `Identical content already received as ${existing.key} at ${existing.recordedAt}`;
+      logger.info(`File ${key} is a duplicate. ${reason}. Skipping dispatch.`);
+
+      const renamed = await this.bucket.renameObject(key, renamedKey, {
+        'duplicate-of': existing.key,
+        'sha256': result.sha256!,
+        ...this.getRenameTags()
+      });
+      if (!renamed) {
+        logger.error(`Failed to rename duplicate to date-based filename`);
+        return {
+          ...result,
+          action: 'error-rename',
+          reason: 'Failed to rename duplicate object in S3'
+        };
+      }
+
+      return {
+        ...result,
+        success: true,
+        action: 'skipped-duplicate',
+        reason,
+        newKey: renamedKey,
+        duplicateOf: existing.key
+      };
+    }
+
+    const processed = await this.processFile(key, renamedKey, subfolderConfig, result);
+    if (!processed.success) {
+      try {
+        await hashLedger.release(subfolderConfig.path, result.sha256!);
+      } catch (error) {
+        logger.error(`Failed to release content hash of ${key}, re-uploads will be treated as duplicates until the window passes`, { error });
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Normalize, validate, rename and dispatch a single file
+   */
+  private async processFile(
+    key: string,
+    renamedKey: string,
+    subfolderConfig: BucketSubdirectory,
+    result: ProcessingResult
+  ): Promise<ProcessingResult> {
+    const pathParts = key.substring(subfolderConfig.path.length + 1).split('/');
+    const filenameOnly = pathParts[pathParts.length - 1];
+    const nestedPath = pathParts.slice(0, -1).join('/');
+
+    // Convert NDJSON, CSV and gzip-compressed drops into the canonical JSON envelope
+    let normalizedKey: string | undefined;
+    let synthesizedRequestId: string | undefined;
+    if (subfolderConfig.inputFormats) {
+      try {
+        const normalizedFilename = `${this.getStem(filenameOnly)}.normalized.json`;
+        const candidateKey = this.generateDateBasedFileName(subfolderConfig.path, nestedPath, normalizedFilename);
+        const inputFormat = await this.normalize(key, filenameOnly, subfolderConfig, candidateKey);
+        result.inputFormat = inputFormat.description;
+        synthesizedRequestId = inputFormat.synthesizedRequestId;
+        normalizedKey = inputFormat.normalized ? candidateKey : undefined;
+      } catch (error) {
+        const reason = `File could not be normalized: ${error instanceof Error ? error.message : error}`;
+        logger.error(reason);
+
+        return this.moveAllToErrors([key], subfolderConfig.path, {
+          ...result,
+          success: false,
+          action: 'error-format',
+          reason
+        }, error);
+      }
+    }
+
+    // Validate file contents before anything is renamed or dispatched
+    if (subfolderConfig.schema) {
+      const validation = normalizedKey
+        ? await this.validate(normalizedKey, subfolderConfig.schema, true)
+        : await this.validate(key, subfolderConfig.schema);
+      result.recordCount = validation.recordCount;
+      // The envelope written for NDJSON or CSV carries the correlation id, which the uploader never sent
+      if (validation.requestId !== synthesizedRequestId) {
+        this.setRequestId(result, validation.requestId);
+      }
+      if (!validation.valid) {
+        const reason = `File failed validation against schema "${subfolderConfig.schema}": ${validation.errors?.join('; ')}`;
+        logger.error(reason);
+
+        if (normalizedKey) {
+          await this.bucket.deleteObject(normalizedKey);
+        }
+
+        return this.moveAllToErrors([key], subfolderConfig.path, {
+          ...result,
+          success: false,
+          action: 'error-validation',
+          reason
+        });
+      }
+      logger.info(`File conforms to schema "${subfolderConfig.schema}" (${validation.recordCount ?? 'unknown'} records)`);
+    }
+
+    logger.info(`Renaming ${key} to ${renamedKey}`);
+
+    const renamed = await this.bucket.renameObject(key, renamedKey, this.getRenameTags());
     if (!renamed) {
-      console.error(`Failed to rename object to date-based filename`);
+      logger.error(`Failed to rename object to date-based filename`);
+      if (normalizedKey) {
+        await this.bucket.deleteObject(normalizedKey);
+      }
       return {
         ...result,
         action: 'error-rename',
@@ -110,37 +607,366 @@ export class S3EventProcessor {
       };
     }
 
+    // Subscribers receive the normalized output when there is one, the original is kept next to it
+    const newKey = normalizedKey || renamedKey;
+    if (normalizedKey) {
+      result.normalizedFrom = renamedKey;
+    }
+
     result.newKey = newKey;
     result.action = 'renamed';
 
     // Invoke subscriber Lambda function for this subfolder
-    try {
-      const subscriber = new Subscriber(subfolderConfig.subscriberLambdaArn);
-      await subscriber.notify(this.bucket, newKey);
+    return this.invokeSubscribers(subfolderConfig, result, newKey);
+  }
+
+  /**
+   * Invoke every subscriber for a processed file (or multi-part set)
+   * Subscribers that fail with a transient error are retried on their own with exponential backoff,
+   * the ones that succeeded or failed permanently (e.g. function not found, access denied) are not invoked again.
+   * Only if no subscriber could be invoked are the file and any parts moved to the errors subfolder.
+   */
+  private async invokeSubscribers(
+    subfolderConfig: BucketSubdirectory,
+    result: ProcessingResult,
+    newKey: string,
+    parts?: string[]
+  ): Promise<ProcessingResult> {
+    const subscribers = getSubscribers(subfolderConfig);
+    const outcomes: SubscriberOutcome[] = subscribers.map(subscriber => ({
+      target: getSubscriberTarget(subscriber),
+      invoked: false,
+      attempts: 0
+    }));
+
+    const permanentlyFailed = new Set<SubscriberOutcome>();
+
+    for (let attempt = 1; attempt <= S3EventProcessor.MAX_INVOKE_ATTEMPTS; attempt++) {
+      const pending = outcomes.filter(outcome => !outcome.invoked && !permanentlyFailed.has(outcome));
+      if (pending.length === 0) break;
+
+      if (attempt > 1) {
+        const delayMs = this.retryBaseDelayMs * 2 ** (attempt - 2);
+        logger.info(`Retrying ${pending.length} subscriber(s) in ${delayMs}ms`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+
+      await Promise.all(pending.map(async outcome => {
+        outcome.attempts = attempt;
+        const startedAt = Date.now();
+        try {
+          const subscriber = createSubscriber(subscribers[outcomes.indexOf(outcome)], subfolderConfig.invocationMode);
+          await subscriber.notify(this.bucket, newKey, parts, this.getCorrelationId());
+          outcome.invoked = true;
+          outcome.error = undefined;
+        } catch (error) {
+          logger.error(`Error notifying subscriber ${outcome.target} (attempt ${attempt} of ${S3EventProcessor.MAX_INVOKE_ATTEMPTS})`, { error });
+          outcome.error = `${error}`;
+          if (!isTransientError(error)) {
+            permanentlyFailed.add(outcome);
+          }
+        } finally {
+          emitMetrics(subfolderConfig.path, { SubscriberLatency: { value: Date.now() - startedAt, unit: 'Milliseconds' } });
+        }
+      }));
+    }
+
+    result.subscribers = outcomes;
+    const failed = outcomes.filter(outcome => !outcome.invoked);
+
+    if (failed.length === 0) {
       result.subscriberInvoked = true;
       result.success = true;
-      console.log(`Successfully processed: ${newKey}`);
-    } catch (error) {
-      console.error(`Error invoking subscriber Lambda. Moving file to errors subfolder.`, error);
-      
-      // Move to errors subfolder
-      const movedToErrors = await this.bucket.moveToErrors(
-        newKey,
-        subfolderConfig.path,
-        `Subscriber Lambda invocation failed: ${error}`
-      );
-      
+      logger.info(`Successfully processed: ${newKey}`);
+      return result;
+    }
+
+    const failures = failed.map(outcome => `${outcome.target}: ${outcome.error}`).join('; ');
+
+    if (failed.length < outcomes.length) {
+      // The file stays in place for the subscribers that did receive it
+      const reason = `Subscriber Lambda invocation failed for ${failed.length} of ${outcomes.length} subscribers: ${failures}`;
+      logger.error(reason);
       return {
         ...result,
         success: false,
-        action: 'error-invoke',
-        reason: `Subscriber Lambda invocation failed: ${error}`,
-        subscriberInvoked: false,
-        movedToErrors
+        action: 'partial-invoke',
+        reason,
+        subscriberInvoked: true
       };
     }
 
-    return result;
+    logger.error(`Error invoking subscriber Lambda. Moving file to errors subfolder.`);
+
+    // Move to errors subfolder
+    return this.moveAllToErrors([newKey, ...(parts || [])], subfolderConfig.path, {
+      ...result,
+      success: false,
+      action: 'error-invoke',
+      reason: `Subscriber Lambda invocation failed: ${failures}`,
+      subscriberInvoked: false
+    });
+  }
+
+  /**
+   * Handle a file in a subdirectory that uses the multi-part manifest protocol
+   * - Parts are held (left untouched) until the manifest arrives
+   * - When the manifest arrives, every listed part is verified, renamed, and the subscriber is invoked once for the set
+   * Parts whose manifest never arrives are escalated to errors/ by the ManifestTimeoutChecker
+   */
+  private async processManifestDrop(
+    key: string,
+    subfolderConfig: BucketSubdirectory,
+    result: ProcessingResult
+  ): Promise<ProcessingResult> {
+    const pathParts = key.substring(subfolderConfig.path.length + 1).split('/');
+    const filenameOnly = pathParts[pathParts.length - 1];
+    const nestedPath = pathParts.slice(0, -1).join('/');
+    const folder = nestedPath ? `${subfolderConfig.path}/${nestedPath}` : subfolderConfig.path;
+
+    if (!isManifestFile(filenameOnly)) {
+      logger.info(`Holding part ${key} until ${MANIFEST_FILENAME} arrives`);
+      return {
+        ...result,
+        success: true,
+        action: 'held-for-manifest',
+        reason: `Part held until ${MANIFEST_FILENAME} completes the multi-part drop`
+      };
+    }
+
+    // Read the manifest and check every part it lists against what actually arrived
+    let manifest: Manifest;
+    const partKeys: string[] = [];
+    try {
+      manifest = parseManifest(await this.bucket.readObject(key));
+      this.setRequestId(result, manifest.requestId);
+      manifest.parts.forEach(part => partKeys.push(`${folder}/${part.key}`));
+
+      const inspections = new Map<string, PartInspection | undefined>();
+      for (const part of manifest.parts) {
+        const partKey = `${folder}/${part.key}`;
+        if (!await this.bucket.objectExists(partKey)) {
+          inspections.set(part.key, undefined);
+          continue;
+        }
+        const countRecords = part.recordCount !== undefined;
+        inspections.set(part.key, await inspectPart(await this.bucket.getObjectStream(partKey), countRecords));
+      }
+
+      const problems = verifyManifest(manifest, inspections);
+      if (problems.length > 0) {
+        throw new Error(problems.join('; '));
+      }
+    } catch (error) {
+      const reason = `Multi-part drop failed manifest verification: ${error instanceof Error ? error.message : error}`;
+      logger.error(reason);
+
+      const existingParts: string[] = [];
+      for (const partKey of partKeys) {
+        if (await this.bucket.objectExists(partKey)) existingParts.push(partKey);
+      }
+      return this.moveAllToErrors([key, ...existingParts], subfolderConfig.path, {
+        ...result,
+        success: false,
+        action: 'error-manifest',
+        reason
+      }, error);
+    }
+
+    logger.info(`Manifest verified: ${partKeys.length} parts present and intact`);
+
+    // Validate every part before anything is renamed or dispatched
+    if (subfolderConfig.schema) {
+      let recordCount = 0;
+      for (const partKey of partKeys) {
+        const validation = await this.validate(partKey, subfolderConfig.schema, true);
+        if (!validation.valid) {
+          const reason = `Part ${partKey} failed validation against schema "${subfolderConfig.schema}": ${validation.errors?.join('; ')}`;
+          logger.error(reason);
+          return this.moveAllToErrors([key, ...partKeys], subfolderConfig.path, {
+            ...result,
+            success: false,
+            action: 'error-validation',
+            reason
+          });
+        }
+        recordCount += validation.recordCount || 0;
+      }
+      result.recordCount = recordCount;
+    }
+
+    // Rename the parts and the manifest with a shared timestamp prefix
+    const newPartKeys: string[] = [];
+    for (const [index, part] of manifest.parts.entries()) {
+      const newPartKey = this.generateDateBasedFileName(subfolderConfig.path, nestedPath, part.key);
+      if (!await this.bucket.renameObject(partKeys[index], newPartKey, this.getRenameTags())) {
+        return this.abandonManifestRenames(key, partKeys, newPartKeys, subfolderConfig.path, {
+          ...result,
+          action: 'error-rename',
+          reason: `Failed to rename part ${partKeys[index]} in S3`
+        });
+      }
+      newPartKeys.push(newPartKey);
+    }
+
+    const newKey = this.generateDateBasedFileName(subfolderConfig.path, nestedPath, filenameOnly);
+    if (!await this.bucket.renameObject(key, newKey, this.getRenameTags())) {
+      return this.abandonManifestRenames(key, partKeys, newPartKeys, subfolderConfig.path, {
+        ...result,
+        action: 'error-rename',
+        reason: 'Failed to rename manifest in S3'
+      });
+    }
+
+    result.newKey = newKey;
+    result.parts = newPartKeys;
+    result.action = 'assembled';
+
+    return this.invokeSubscribers(subfolderConfig, result, newKey, newPartKeys);
+  }
+
+  /**
+   * Undo the part renames of a multi-part drop whose renaming failed part way, so a retry finds the drop as it arrived
+   * newPartKeys holds the new keys of the first parts, in the order of partKeys
+   * A part that cannot be renamed back would leave the drop half renamed, so the whole drop is moved to errors instead
+   */
+  private async abandonManifestRenames(
+    key: string,
+    partKeys: string[],
+    newPartKeys: string[],
+    subfolderPath: string,
+    failed: ProcessingResult
+  ): Promise<ProcessingResult> {
+    const currentKeys = [...partKeys];
+    for (const [index, newPartKey] of newPartKeys.entries()) {
+      if (!await this.bucket.renameObject(newPartKey, partKeys[index])) {
+        currentKeys[index] = newPartKey;
+        continue;
+      }
+      try {
+        const tags = await this.bucket.getTags(partKeys[index]);
+        await this.bucket.putTags(partKeys[index], Object.fromEntries(Object.entries(tags).filter(([tag]) => !(tag in PROCESSED_TAGS))));
+      } catch (error) {
+        logger.warn(`Could not remove the processed tags of ${partKeys[index]}`, { key: partKeys[index], error });
+      }
+    }
+
+    const stranded = currentKeys.filter((currentKey, index) => currentKey !== partKeys[index]);
+    if (stranded.length === 0) {
+      logger.warn(`${failed.reason}, rolled back the renamed parts`);
+      return { ...failed, reason: `${failed.reason}, rolled back the renamed parts` };
+    }
+
+    const reason = `${failed.reason}, and parts ${stranded.join(', ')} could not be renamed back`;
+    logger.error(reason);
+    return this.moveAllToErrors([key, ...currentKeys], subfolderPath, { ...failed, reason });
+  }
+
+  /**
+   * Move the objects of a failed result to the errors subfolder, each with a report of the failure
+   * movedToErrors is true only if all were moved
+   */
+  private async moveAllToErrors(
+    keys: string[],
+    subfolderPath: string,
+    failed: ProcessingResult,
+    error?: unknown
+  ): Promise<ProcessingResult> {
+    const correlationId = this.getCorrelationId();
+    const details = {
+      correlationId,
+      stack: error instanceof Error ? error.stack : undefined,
+      result: { ...failed, correlationId }
+    };
+
+    let movedToErrors = true;
+    for (const key of keys) {
+      movedToErrors = await this.bucket.moveToErrors(key, subfolderPath, failed.reason!, this.getCorrelationTags(), details) && movedToErrors;
+    }
+    return { ...failed, movedToErrors };
+  }
+
+  /**
+   * Read the object and validate it against the named schema
+   * Large files are streamed so memory use stays constant
+   * Failures to read the object are reported as validation failures
+   */
+  private async validate(key: string, schemaName: string, stream = false): Promise<ValidationResult> {
+    try {
+      const validator = new SchemaValidator(schemaName);
+      if (stream || this.record.s3.object.size > S3EventProcessor.STREAMING_VALIDATION_THRESHOLD_BYTES) {
+        logger.info(`Streaming validation of ${key}`);
+        const stream = await this.bucket.getObjectStream(key);
+        return await validator.validateStream(stream);
+      }
+      const body = await this.bucket.readObject(key);
+      return validator.validate(body);
+    } catch (error) {
+      return { valid: false, errors: [`${error}`] };
+    }
+  }
+
+  /**
+   * Detect the format of a drop and, if it is not already uncompressed JSON, write the
+   * canonical envelope to normalizedKey. The original object is left untouched.
+   * NDJSON and CSV have no envelope of their own, so theirs gets the correlation id as synthesizedRequestId.
+   * It is not the drop's requestId: compressed JSON keeps the requestId of its own envelope.
+   */
+  private async normalize(
+    key: string,
+    filename: string,
+    subfolderConfig: BucketSubdirectory,
+    normalizedKey: string
+  ): Promise<{ description: string, normalized: boolean, synthesizedRequestId?: string }> {
+    const normalizer = new Normalizer(subfolderConfig.inputFormats!);
+    const info = await this.bucket.getObjectInfo(key);
+    const source = await this.bucket.getObjectStream(key);
+    const opened = await normalizer.open(source, filename, info.contentType);
+    const description = Normalizer.describe(opened.detected);
+
+    if (!Normalizer.needsNormalization(opened.detected)) {
+      logger.info(`Detected ${description} input, no normalization needed`);
+      return { description, normalized: false };
+    }
+
+    logger.info(`Detected ${description} input, writing normalized envelope to ${normalizedKey}`);
+    const synthesizedRequestId = opened.detected.format === 'json' ? undefined : this.getCorrelationId();
+    // Compressed JSON is passed through with its own envelope, the header only applies to NDJSON and CSV
+    const envelope = normalizer.toEnvelope(opened, {
+      requestId: synthesizedRequestId ?? '',
+      timestamp: this.clockFn()
+    });
+    await this.bucket.writeObject(normalizedKey, envelope, 'application/json');
+    return { description, normalized: true, synthesizedRequestId };
+  }
+
+  /**
+   * Strip compression and format extensions from a filename
+   * Example: "people.csv.gz" becomes "people"
+   */
+  private getStem(filename: string): string {
+    const withoutGzip = filename.replace(/\.gz$/i, '');
+    const lastDot = withoutGzip.lastIndexOf('.');
+    return lastDot > 0 ? withoutGzip.substring(0, lastDot) : withoutGzip;
+  }
+
+  /**
+   * Emit the file counts and bytes of a processed file for its subdirectory
+   * Files the processor renamed itself are not counted, they are not new arrivals
+   */
+  private emitFileMetrics(result: ProcessingResult): void {
+    if (!result.subdirectory || result.action === 'skipped-already-processed') {
+      return;
+    }
+    const redelivered = result.action === 'skipped-duplicate-event';
+    const count = (counted: boolean) => ({ value: counted ? 1 : 0, unit: 'Count' as const });
+    emitMetrics(result.subdirectory, {
+      FilesReceived: count(!redelivered),
+      FilesRenamed: count(result.newKey !== undefined),
+      FilesSkipped: count(result.action.startsWith('skipped-')),
+      FilesErrored: count(!result.success),
+      BytesProcessed: { value: redelivered ? 0 : this.record.s3.object.size || 0, unit: 'Bytes' }
+    });
   }
 
   /**
@@ -148,6 +974,13 @@ export class S3EventProcessor {
    * Uses strict ISO 8601 timestamp pattern followed by hyphen
    */
   private isAlreadyProcessed(filename: string): boolean {
+    return S3EventProcessor.hasTimestampPrefix(filename);
+  }
+
+  /**
+   * Check if a filename carries the timestamp prefix given to processed files
+   */
+  public static hasTimestampPrefix(filename: string): boolean {
     return S3EventProcessor.TIMESTAMP_PREFIX_PATTERN.test(filename);
   }
 
@@ -1,50 +1,313 @@
 import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { SNSClient, PublishCommand } from '@aws-sdk/client-sns';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { SFNClient, StartExecutionCommand } from '@aws-sdk/client-sfn';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { createHmac } from 'crypto';
+import {
+  EventBridgeSubscriberConfig,
+  InvocationMode,
+  SubscriberConfig,
+  WebhookSubscriberConfig
+} from '../../context/IContext';
 import { IBucket } from "./Bucket"
+import { logger } from './Logger';
 
 export type ISubscriber = {
-  notify: (bucket: IBucket, newKey: string) => Promise<void>
+  notify: (bucket: IBucket, newKey: string, parts?: string[], correlationId?: string) => Promise<void>
 }
 
+/**
+ * Payload every subscriber receives, whatever the target type
+ */
+export type SubscriberPayload = {
+  s3Path: string;
+  bucket: string;
+  key: string;
+  parts?: { s3Path: string, key: string }[];
+
+  /**
+   * Traces the drop across the bucket, the event processor and the subscriber's logs
+   */
+  correlationId?: string;
+  processingMetadata: {
+    processedAt: string;
+    processorVersion: string;
+  };
+}
+
+/**
+ * @param key Key of the processed file (the manifest, for multi-part drops)
+ * @param parts Keys of the parts of a multi-part drop, in manifest order
+ * @param correlationId Taken from the upload's request-id metadata or envelope requestId, or generated
+ */
+export const buildPayload = (bucketName: string, key: string, parts?: string[], correlationId?: string): SubscriberPayload => ({
+  s3Path: `s3://${bucketName}/${key}`,
+  bucket: bucketName,
+  key,
+  ...(parts && {
+    parts: parts.map(partKey => ({
+      s3Path: `s3://${bucketName}/${partKey}`,
+      key: partKey
+    }))
+  }),
+  ...(correlationId && { correlationId }),
+  processingMetadata: {
+    processedAt: new Date().toISOString(),
+    processorVersion: '1.0.0'
+  }
+});
+
+/**
+ * Create the subscriber for a configured target
+ * @param invocationMode Applies to Lambda targets only
+ */
+export const createSubscriber = (config: SubscriberConfig, invocationMode?: InvocationMode): ISubscriber => {
+  switch (config.type) {
+    case 'sqs': return new SqsSubscriber(config.queueArn);
+    case 'sns': return new SnsSubscriber(config.topicArn);
+    case 'eventbridge': return new EventBridgeSubscriber(config);
+    case 'stepfunctions': return new StepFunctionsSubscriber(config.stateMachineArn);
+    case 'webhook': return new WebhookSubscriber(config);
+    default: return new Subscriber(config.lambdaArn, undefined, invocationMode);
+  }
+}
+
+/**
+ * Invokes a Lambda function with the payload
+ * Asynchronously by default. In RequestResponse mode the invocation fails if the function errors
+ * or returns a statusCode of 400 or above, with the subscriber's own error message.
+ */
 export class Subscriber implements ISubscriber {
   private subscriberLambdaArn: string;
   private lambdaClient: LambdaClient;
+  private invocationMode: InvocationMode;
 
-  constructor(subscriberLambdaArn: string, lambdaClient?: LambdaClient) {
+  constructor(subscriberLambdaArn: string, lambdaClient?: LambdaClient, invocationMode?: InvocationMode) {
     this.subscriberLambdaArn = subscriberLambdaArn;
     this.lambdaClient = lambdaClient || new LambdaClient({});
+    this.invocationMode = invocationMode || 'Event';
   }
 
-  async notify(bucket: IBucket, newKey: string): Promise<void> {
-    await this.invokeSubscriberLambda(bucket.getName(), newKey);
+  async notify(bucket: IBucket, newKey: string, parts?: string[], correlationId?: string): Promise<void> {
+    await this.invokeSubscriberLambda(bucket.getName(), newKey, parts, correlationId);
   }
 
-  private invokeSubscriberLambda = async (bucketName: string, key: string): Promise<void> => {
-    const s3Path = `s3://${bucketName}/${key}`;
-
+  private invokeSubscriberLambda = async (bucketName: string, key: string, parts?: string[], correlationId?: string): Promise<void> => {
     try {
-      console.log(`Invoking subscriber Lambda: ${this.subscriberLambdaArn}`);
-      
-      const payload = {
-        s3Path,
-        bucket: bucketName,
-        key,
-        processingMetadata: {
-          processedAt: new Date().toISOString(),
-          processorVersion: '1.0.0'
-        }
-      };
+      logger.info(`Invoking subscriber Lambda: ${this.subscriberLambdaArn}`);
+
+      const payload = buildPayload(bucketName, key, parts, correlationId);
 
       const command = new InvokeCommand({
         FunctionName: this.subscriberLambdaArn,
-        InvocationType: 'Event', // Async invocation
+        InvocationType: this.invocationMode,
         Payload: Buffer.from(JSON.stringify(payload))
       });
 
-      await this.lambdaClient.send(command);
-      console.log(`Successfully invoked subscriber Lambda: ${this.subscriberLambdaArn}`);
+      const response = await this.lambdaClient.send(command);
+      if (this.invocationMode === 'RequestResponse') {
+        this.inspectResponse(response.FunctionError, response.Payload);
+      }
+      logger.info(`Successfully invoked subscriber Lambda: ${this.subscriberLambdaArn}`);
     } catch (error) {
-      console.error(`Error invoking subscriber Lambda (${this.subscriberLambdaArn}):`, error);
+      logger.error(`Error invoking subscriber Lambda (${this.subscriberLambdaArn})`, { error });
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Throw with the subscriber's own error if a synchronous invocation failed
+   */
+  private inspectResponse(functionError: string | undefined, payload: Uint8Array | undefined): void {
+    const text = payload ? Buffer.from(payload).toString() : '';
+    let result: unknown;
+    try {
+      result = text ? JSON.parse(text) : undefined;
+    } catch {
+      result = text;
+    }
+    const fields: Record<string, unknown> = typeof result === 'object' && result !== null ? { ...result } : {};
+
+    if (functionError) {
+      const message = (typeof fields.errorMessage === 'string' && fields.errorMessage) || text || functionError;
+      const type = (typeof fields.errorType === 'string' && fields.errorType) || functionError;
+      throw new Error(`Subscriber Lambda failed with ${type}: ${message}`);
+    }
+
+    if (typeof fields.statusCode === 'number' && fields.statusCode >= 400) {
+      const body = typeof fields.body === 'string' ? fields.body : JSON.stringify(fields.body);
+      throw new Error(`Subscriber Lambda returned status ${fields.statusCode}${body ? `: ${body}` : ''}`);
+    }
+  }
+}
+
+/**
+ * Sends the payload as a message to an SQS queue
+ */
+export class SqsSubscriber implements ISubscriber {
+  private queueArn: string;
+  private sqsClient: SQSClient;
+
+  constructor(queueArn: string, sqsClient?: SQSClient) {
+    this.queueArn = queueArn;
+    this.sqsClient = sqsClient || new SQSClient({});
+  }
+
+  async notify(bucket: IBucket, newKey: string, parts?: string[], correlationId?: string): Promise<void> {
+    logger.info(`Sending message to subscriber queue: ${this.queueArn}`);
+    await this.sqsClient.send(new SendMessageCommand({
+      QueueUrl: SqsSubscriber.getQueueUrl(this.queueArn),
+      MessageBody: JSON.stringify(buildPayload(bucket.getName(), newKey, parts, correlationId))
+    }));
+  }
+
+  /**
+   * Example: "arn:aws:sqs:us-east-2:123456789012:chunker" becomes "https://sqs.us-east-2.amazonaws.com/123456789012/chunker"
+   */
+  public static getQueueUrl(queueArn: string): string {
+    const [, , , region, account, name] = queueArn.split(':');
+    return `https://sqs.${region}.amazonaws.com/${account}/${name}`;
+  }
+}
+
+/**
+ * Publishes the payload to an SNS topic
+ */
+export class SnsSubscriber implements ISubscriber {
+  private topicArn: string;
+  private snsClient: SNSClient;
+
+  constructor(topicArn: string, snsClient?: SNSClient) {
+    this.topicArn = topicArn;
+    this.snsClient = snsClient || new SNSClient({});
+  }
+
+  async notify(bucket: IBucket, newKey: string, parts?: string[], correlationId?: string): Promise<void> {
+    logger.info(`Publishing to subscriber topic: ${this.topicArn}`);
+    await this.snsClient.send(new PublishCommand({
+      TopicArn: this.topicArn,
+      Message: JSON.stringify(buildPayload(bucket.getName(), newKey, parts, correlationId))
+    }));
+  }
+}
+
+/**
+ * Puts an event on an EventBridge bus with the payload as its detail
+ */
+export class EventBridgeSubscriber implements ISubscriber {
+  private config: EventBridgeSubscriberConfig;
+  private eventBridgeClient: EventBridgeClient;
+
+  constructor(config: EventBridgeSubscriberConfig, eventBridgeClient?: EventBridgeClient) {
+    this.config = config;
+    this.eventBridgeClient = eventBridgeClient || new EventBridgeClient({});
+  }
+
+  async notify(bucket: IBucket, newKey: string, parts?: string[], correlationId?: string): Promise<void> {
+    const { eventBusArn, source = 'file-drop', detailType = 'File Dropped' } = this.config;
+    logger.info(`Putting event on subscriber bus: ${eventBusArn}`);
+
+    const response = await this.eventBridgeClient.send(new PutEventsCommand({
+      Entries: [{
+        EventBusName: eventBusArn,
+        Source: source,
+        DetailType: detailType,
+        Detail: JSON.stringify(buildPayload(bucket.getName(), newKey, parts, correlationId))
+      }]
+    }));
+
+    // PutEvents reports rejected entries in the response rather than throwing
+    if (response.FailedEntryCount) {
+      const [entry] = response.Entries || [];
+      throw new Error(`EventBridge rejected the event: ${entry?.ErrorCode} ${entry?.ErrorMessage}`);
+    }
+  }
+}
+
+/**
+ * Starts a Step Functions execution with the payload as input
+ */
+export class StepFunctionsSubscriber implements ISubscriber {
+  private stateMachineArn: string;
+  private sfnClient: SFNClient;
+
+  constructor(stateMachineArn: string, sfnClient?: SFNClient) {
+    this.stateMachineArn = stateMachineArn;
+    this.sfnClient = sfnClient || new SFNClient({});
+  }
+
+  async notify(bucket: IBucket, newKey: string, parts?: string[], correlationId?: string): Promise<void> {
+    logger.info(`Starting execution of subscriber state machine: ${this.stateMachineArn}`);
+    await this.sfnClient.send(new StartExecutionCommand({
+      stateMachineArn: this.stateMachineArn,
+      input: JSON.stringify(buildPayload(bucket.getName(), newKey, parts, correlationId))
+    }));
+  }
+}
+
+/**
+ * Error raised when a webhook responds with a non-2xx status
+ * Carries the status like AWS errors do, so isTransientError only retries 408, 429 and 5xx responses
+ */
+export class WebhookResponseError extends Error {
+  public readonly $metadata: { httpStatusCode: number };
+
+  constructor(status: number, statusText: string) {
+    super(`Webhook responded with HTTP ${status} ${statusText}`);
+    this.name = 'WebhookResponseError';
+    this.$metadata = { httpStatusCode: status };
+  }
+}
+
+/**
+ * POSTs the payload to an HTTPS endpoint, signed with an HMAC-SHA256 of "{timestamp}.{body}"
+ * The receiver should recompute the signature with the shared key and reject stale timestamps
+ */
+export class WebhookSubscriber implements ISubscriber {
+  private static readonly TIMEOUT_MS = 10000;
+
+  private config: WebhookSubscriberConfig;
+  private secretsClient: SecretsManagerClient;
+
+  constructor(config: WebhookSubscriberConfig, secretsClient?: SecretsManagerClient) {
+    this.config = config;
+    this.secretsClient = secretsClient || new SecretsManagerClient({});
+  }
+
+  async notify(bucket: IBucket, newKey: string, parts?: string[], correlationId?: string): Promise<void> {
+    const { url, signingSecretArn } = this.config;
+    if (!url.startsWith('https://')) {
+      throw new Error(`Webhook URL must use HTTPS: ${url}`);
+    }
+
+    const secret = await this.secretsClient.send(new GetSecretValueCommand({ SecretId: signingSecretArn }));
+    if (!secret.SecretString) {
+      throw new Error(`Webhook signing secret ${signingSecretArn} has no string value`);
+    }
+
+    const body = JSON.stringify(buildPayload(bucket.getName(), newKey, parts, correlationId));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    logger.info(`Posting to subscriber webhook: ${url}`);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Timestamp': timestamp,
+        'X-Signature-256': `sha256=${WebhookSubscriber.sign(secret.SecretString, timestamp, body)}`
+      },
+      body,
+      signal: AbortSignal.timeout(WebhookSubscriber.TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new WebhookResponseError(response.status, response.statusText);
+    }
+  }
+
+  public static sign(key: string, timestamp: string, body: string): string {
+    return createHmac('sha256', key).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
@@ -0,0 +1,135 @@
+import { S3EventRecord } from 'aws-lambda';
+import { IBucket, ListedObject } from './Bucket';
+import { emitMetrics, logger } from './Logger';
+import { isManifestFile } from './Manifest';
+import { ProcessingResult, S3EventProcessor, isRetryable } from './S3EventProcessor';
+
+/**
+ * Runs a record through the event processor, the same way the S3 event would have
+ */
+export type RecordProcessor = (record: S3EventRecord) => Promise<ProcessingResult>;
+
+export type SweepResult = {
+  subdirectory: string;
+
+  /**
+   * Files older than the minimum age that still sit where they were uploaded
+   */
+  found: string[];
+
+  /**
+   * Files the sweep renamed or moved to the errors subfolder
+   */
+  recovered: string[];
+
+  /**
+   * Files left in place after a failed attempt, picked up again by the next sweep
+   */
+  failed: string[];
+
+  /**
+   * Files the event processor left in place without failing, e.g. skipped as a redelivered event
+   * Sweeping them again would end the same way, so they need a look
+   */
+  unresolved: string[];
+}
+
+/**
+ * Build the S3 event record S3 would have delivered for a listed object
+ * Keys are URL-encoded with "+" for spaces, like in S3 event notifications. There is no sequencer,
+ * so the event ledger tells sweeps of the same upload apart by its eTag.
+ */
+export const toSweepRecord = (bucketName: string, object: ListedObject): S3EventRecord => ({
+  eventVersion: '2.1',
+  eventSource: 'aws:s3',
+  awsRegion: process.env.AWS_REGION || '',
+  eventTime: object.lastModified.toISOString(),
+  eventName: 'ObjectCreated:Sweep',
+  userIdentity: { principalId: '' },
+  requestParameters: { sourceIPAddress: '' },
+  responseElements: { 'x-amz-request-id': '', 'x-amz-id-2': '' },
+  s3: {
+    s3SchemaVersion: '1.0',
+    configurationId: 'sweeper',
+    bucket: { name: bucketName, ownerIdentity: { principalId: '' }, arn: `arn:aws:s3:::${bucketName}` },
+    object: {
+      key: encodeURIComponent(object.key).replace(/%20/g, '+'),
+      size: object.size,
+      eTag: object.eTag?.replace(/"/g, '') || '',
+      sequencer: ''
+    }
+  }
+});
+
+/**
+ * Recovers files the event processor never saw, e.g. because an S3 event was lost
+ * Responsibilities:
+ * - Find stragglers: files older than the minimum age that are not renamed and not in errors/
+ * - Leave parts of multi-part drops to their manifest (or the manifest timeout checker), only sweeping manifests
+ * - Run each straggler through the event processor and report which were recovered, failed or left unresolved
+ * - Emit per-subdirectory metrics of stragglers found and recovered
+ */
+export class Sweeper {
+  private bucket: IBucket;
+  private minAgeMinutes: number;
+  private processRecord: RecordProcessor;
+  private now: () => Date;
+
+  constructor(bucket: IBucket, minAgeMinutes: number, processRecord: RecordProcessor, now?: () => Date) {
+    this.bucket = bucket;
+    this.minAgeMinutes = minAgeMinutes;
+    this.processRecord = processRecord;
+    this.now = now || (() => new Date());
+  }
+
+  async sweep(): Promise<SweepResult[]> {
+    const results: SweepResult[] = [];
+    const cutoff = this.now().getTime() - this.minAgeMinutes * 60 * 1000;
+
+    for (const subdir of this.bucket.getConfig().subdirectories) {
+      const result: SweepResult = { subdirectory: subdir.path, found: [], recovered: [], failed: [], unresolved: [] };
+
+      const objects = await this.bucket.listObjects(`${subdir.path}/`);
+      const stragglers = objects.filter(object => {
+        const filename = object.key.split('/').pop() || '';
+        return filename
+          && !object.key.startsWith(`${subdir.path}/errors/`)
+          && !S3EventProcessor.hasTimestampPrefix(filename)
+          && (!subdir.manifest || isManifestFile(filename))
+          && object.lastModified.getTime() < cutoff;
+      });
+
+      for (const object of stragglers) {
+        logger.warn(`Found unprocessed file ${object.key}, last modified ${object.lastModified.toISOString()}`, { key: object.key, subdirectory: subdir.path });
+        result.found.push(object.key);
+        try {
+          const processed = await this.processRecord(toSweepRecord(this.bucket.getName(), object));
+          if (processed.newKey || processed.movedToErrors) {
+            result.recovered.push(object.key);
+          } else if (isRetryable(processed)) {
+            result.failed.push(object.key);
+          } else {
+            logger.error(`Sweep left ${object.key} in place with action ${processed.action}`, {
+              key: object.key,
+              subdirectory: subdir.path,
+              action: processed.action,
+              reason: processed.reason
+            });
+            result.unresolved.push(object.key);
+          }
+        } catch (error) {
+          logger.error(`Error sweeping ${object.key}`, { key: object.key, subdirectory: subdir.path, error });
+          result.failed.push(object.key);
+        }
+      }
+
+      emitMetrics(subdir.path, {
+        StragglersFound: { value: result.found.length, unit: 'Count' },
+        StragglersRecovered: { value: result.recovered.length, unit: 'Count' }
+      });
+      results.push(result);
+    }
+
+    return results;
+  }
+}
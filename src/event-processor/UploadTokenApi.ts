@@ -0,0 +1,184 @@
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { UploadTokenConfig } from '../../context/IContext';
+import { logger } from './Logger';
+import { S3EventProcessor } from './S3EventProcessor';
+import { isRecord } from './Validator';
+
+export const DEFAULT_UPLOAD_TOKEN_EXPIRY_SECONDS = 900;
+export const DEFAULT_UPLOAD_MAX_SIZE_BYTES = 5 * 1024 * 1024 * 1024;
+export const DEFAULT_UPLOAD_CONTENT_TYPES = ['application/json', 'application/x-ndjson', 'text/csv', 'application/gzip'];
+
+export type UploadMethod = 'PUT' | 'POST';
+
+export type UploadToken = {
+  method: UploadMethod;
+  url: string;
+  key: string;
+  expiresAt: string;
+
+  /**
+   * Headers the PUT request must send exactly as given, they are part of the signature
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Form fields the POST request must send before the file field
+   */
+  fields?: Record<string, string>;
+}
+
+/**
+ * An upload token request whose fields have been checked
+ */
+type UploadTokenRequest = {
+  subdirectory: string;
+  filename: string;
+  contentType: string;
+} & ({ method: 'PUT', contentLength: number } | { method: 'POST' });
+
+/**
+ * HTTP endpoint issuing short-lived pre-signed uploads, so external systems need no static AWS credentials
+ * POST /upload-tokens with { "subdirectory": "...", "filename": "...", "contentType": "...", "method": "PUT" | "POST", "contentLength": n }
+ * - PUT (default): a pre-signed URL for exactly that key, content type and content length
+ * - POST: a pre-signed POST policy for that key and content type, accepting any size up to the configured maximum
+ */
+export class UploadTokenApi {
+  private bucketName: string;
+  private subdirectories: string[];
+  private expiresInSeconds: number;
+  private maxSizeBytes: number;
+  private contentTypes: string[];
+  private s3Client: S3Client;
+  private now: () => Date;
+
+  /**
+   * @param subdirectories Paths of the configured subdirectories, the only ones uploads can be issued for
+   */
+  constructor(bucketName: string, subdirectories: string[], config: UploadTokenConfig, s3Client?: S3Client, now?: () => Date) {
+    this.bucketName = bucketName;
+    this.subdirectories = subdirectories;
+    this.expiresInSeconds = config.expiresInSeconds || DEFAULT_UPLOAD_TOKEN_EXPIRY_SECONDS;
+    this.maxSizeBytes = config.maxSizeBytes || DEFAULT_UPLOAD_MAX_SIZE_BYTES;
+    this.contentTypes = config.contentTypes || DEFAULT_UPLOAD_CONTENT_TYPES;
+    this.s3Client = s3Client || new S3Client({});
+    this.now = now || (() => new Date());
+  }
+
+  async handle(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    if (event.httpMethod !== 'POST') {
+      return UploadTokenApi.respond(405, { message: `Method ${event.httpMethod} is not supported` });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(event.body || '');
+    } catch {
+      return UploadTokenApi.respond(400, { message: 'Request body must be JSON' });
+    }
+
+    const request = this.parseRequest(body);
+    if (typeof request === 'string') {
+      return UploadTokenApi.respond(400, { message: request });
+    }
+
+    try {
+      const { subdirectory, filename, contentType, method } = request;
+      const key = `${subdirectory}/${filename}`;
+      const token = request.method === 'POST'
+        ? await this.presignPost(key, contentType)
+        : await this.presignPut(key, contentType, request.contentLength);
+      logger.info(`Issued pre-signed ${method} upload for ${key}, valid until ${token.expiresAt}`, { key, subdirectory });
+      return UploadTokenApi.respond(201, token);
+    } catch (error) {
+      logger.error('Error issuing upload token', { error });
+      return UploadTokenApi.respond(500, { message: 'Failed to issue upload token' });
+    }
+  }
+
+  private async presignPut(key: string, contentType: string, contentLength: number): Promise<UploadToken> {
+    const url = await getSignedUrl(this.s3Client, new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: contentType,
+      ContentLength: contentLength
+    }), {
+      expiresIn: this.expiresInSeconds,
+      signableHeaders: new Set(['content-type', 'content-length'])
+    });
+
+    return {
+      method: 'PUT',
+      url,
+      key,
+      expiresAt: this.getExpiresAt(),
+      headers: { 'Content-Type': contentType, 'Content-Length': `${contentLength}` }
+    };
+  }
+
+  private async presignPost(key: string, contentType: string): Promise<UploadToken> {
+    const { url, fields } = await createPresignedPost(this.s3Client, {
+      Bucket: this.bucketName,
+      Key: key,
+      Conditions: [
+        ['content-length-range', 1, this.maxSizeBytes],
+        ['eq', '$Content-Type', contentType]
+      ],
+      Fields: { 'Content-Type': contentType },
+      Expires: this.expiresInSeconds
+    });
+
+    return { method: 'POST', url, key, expiresAt: this.getExpiresAt(), fields };
+  }
+
+  private getExpiresAt(): string {
+    return new Date(this.now().getTime() + this.expiresInSeconds * 1000).toISOString();
+  }
+
+  /**
+   * Check the fields of an upload token request, or describe what is wrong with it
+   */
+  private parseRequest(body: unknown): UploadTokenRequest | string {
+    if (!isRecord(body)) {
+      return 'Request body must be a JSON object';
+    }
+
+    const { subdirectory, filename, contentType, contentLength, method = 'PUT' } = body;
+    if (typeof subdirectory !== 'string' || !this.subdirectories.includes(subdirectory)) {
+      return `subdirectory must be one of: ${this.subdirectories.join(', ')}`;
+    }
+    if (typeof filename !== 'string' || filename.length === 0 || filename.includes('/') || filename === '.' || filename === '..') {
+      return 'filename must be a file name without a path';
+    }
+    if (S3EventProcessor.hasTimestampPrefix(filename)) {
+      // The event processor would take the upload for a file it already renamed, and skip it
+      return 'filename must not start with a timestamp';
+    }
+    if (typeof contentType !== 'string' || !this.contentTypes.includes(contentType)) {
+      return `contentType must be one of: ${this.contentTypes.join(', ')}`;
+    }
+    if (method !== 'PUT' && method !== 'POST') {
+      return 'method must be PUT or POST';
+    }
+    if (typeof contentLength === 'number' && contentLength > this.maxSizeBytes) {
+      return `contentLength must not exceed ${this.maxSizeBytes} bytes`;
+    }
+    if (method === 'POST') {
+      return { subdirectory, filename, contentType, method };
+    }
+    if (typeof contentLength !== 'number' || !Number.isInteger(contentLength) || contentLength < 1) {
+      return 'contentLength must be given in bytes for a PUT upload';
+    }
+    return { subdirectory, filename, contentType, method, contentLength };
+  }
+
+  private static respond(statusCode: number, body: object): APIGatewayProxyResult {
+    return {
+      statusCode,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    };
+  }
+}
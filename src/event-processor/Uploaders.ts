@@ -0,0 +1,97 @@
+import { GetRoleCommand, GetUserCommand, IAMClient } from '@aws-sdk/client-iam';
+
+/**
+ * A named uploader and the subdirectories it may write to
+ */
+export type Uploader = {
+  name: string;
+  subdirectories: string[];
+}
+
+/**
+ * IAM identity of an uploader, a user or a role in this account
+ */
+export type UploaderIdentity = Uploader & {
+  userName?: string;
+  roleName?: string;
+}
+
+export type IUploaderDirectory = {
+  /**
+   * Find the uploader behind the principal id of an S3 event record, if it is one
+   */
+  identify: (principalId: string) => Promise<Uploader | undefined>
+}
+
+/**
+ * Unique id of the IAM user or role behind a principal id
+ * Users appear as "AWS:AIDA...", and sessions of a role as "AWS:AROA...:session-name"
+ */
+export const getUniqueId = (principalId: string): string => principalId.replace(/^AWS:/, '').split(':')[0];
+
+/**
+ * Find the uploader behind the ARN of a caller, e.g. the userArn of an IAM-authorized API Gateway request
+ * Users appear as "arn:aws:iam::{account}:user/{path}{userName}", and sessions of a role as
+ * "arn:aws:sts::{account}:assumed-role/{roleName}/{session}"
+ */
+export const findUploaderByArn = (identities: UploaderIdentity[], userArn: string): Uploader | undefined => {
+  const [type, ...names] = userArn.split(':').slice(5).join(':').split('/');
+  const found = type === 'user'
+    ? identities.find(identity => identity.userName === names[names.length - 1])
+    : type === 'assumed-role'
+      ? identities.find(identity => identity.roleName === names[0])
+      : undefined;
+  if (!found) {
+    return undefined;
+  }
+  const { userName, roleName, ...uploader } = found;
+  return uploader;
+}
+
+/**
+ * Uploaders keyed by the unique id of their IAM user or role
+ */
+export class InMemoryUploaderDirectory implements IUploaderDirectory {
+  private uploaders: Map<string, Uploader>;
+
+  constructor(uploaders: Record<string, Uploader> = {}) {
+    this.uploaders = new Map(Object.entries(uploaders));
+  }
+
+  async identify(principalId: string): Promise<Uploader | undefined> {
+    return this.uploaders.get(getUniqueId(principalId));
+  }
+}
+
+/**
+ * Uploaders identified by looking up the unique ids of their IAM users and roles, once per Lambda container
+ */
+export class IamUploaderDirectory implements IUploaderDirectory {
+  private identities: UploaderIdentity[];
+  private iamClient: IAMClient;
+  private directory?: Promise<InMemoryUploaderDirectory>;
+
+  constructor(identities: UploaderIdentity[], iamClient?: IAMClient) {
+    this.identities = identities;
+    this.iamClient = iamClient || new IAMClient({});
+  }
+
+  async identify(principalId: string): Promise<Uploader | undefined> {
+    if (!this.directory) {
+      this.directory = this.load();
+      // Look the ids up again next time rather than caching a failure
+      this.directory.catch(() => this.directory = undefined);
+    }
+    return (await this.directory).identify(principalId);
+  }
+
+  private async load(): Promise<InMemoryUploaderDirectory> {
+    const entries = await Promise.all(this.identities.map(async ({ userName, roleName, ...uploader }) => {
+      const uniqueId = userName
+        ? (await this.iamClient.send(new GetUserCommand({ UserName: userName }))).User?.UserId
+        : (await this.iamClient.send(new GetRoleCommand({ RoleName: roleName }))).Role?.RoleId;
+      return [uniqueId!, uploader] as const;
+    }));
+    return new InMemoryUploaderDirectory(Object.fromEntries(entries));
+  }
+}
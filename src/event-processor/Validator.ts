@@ -0,0 +1,227 @@
+import { Ajv, ErrorObject, SchemaObject, ValidateFunction } from 'ajv';
+import { EnvelopeParseError, EnvelopeReader } from './EnvelopeReader';
+import { SCHEMAS } from './schemas';
+
+export type ValidationResult = {
+  valid: boolean;
+  errors?: string[];
+  recordCount?: number;
+
+  /**
+   * requestId field of the envelope, when it has one
+   */
+  requestId?: string;
+}
+
+export type IValidator = {
+  validate: (body: string) => ValidationResult
+  validateStream: (stream: AsyncIterable<Uint8Array>) => Promise<ValidationResult>
+}
+
+type CompiledSchema = {
+  /**
+   * Validates a whole document
+   */
+  document: ValidateFunction;
+
+  /**
+   * Validates the envelope with the records array reduced to an empty array (streaming only)
+   */
+  envelope: ValidateFunction;
+
+  /**
+   * Validates a single element of the records array (streaming only)
+   */
+  record?: ValidateFunction;
+}
+
+/**
+ * Maximum number of schema violations reported for a single file.
+ * Keeps error reasons readable when every record in a large file has the same problem.
+ */
+const MAX_REPORTED_ERRORS = 5;
+
+const ajv = new Ajv({ allErrors: true });
+
+/**
+ * Name of the envelope property holding the array of records
+ */
+const RECORDS_FIELD = 'rawData';
+
+// Compiled validators are cached for the lifetime of the Lambda container
+const compiled = new Map<string, CompiledSchema>();
+
+/**
+ * Narrow parsed JSON to an object whose properties can be read
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates file contents against a named JSON Schema from the schema registry
+ *
+ * Two paths are available:
+ * - validate(): parses the whole body in memory (small files)
+ * - validateStream(): walks the rawData array record by record, keeping memory constant (large files)
+ * Both check a declared recordCount against the number of records.
+ */
+export class SchemaValidator implements IValidator {
+  private schemaName: string;
+  private compiledSchema: CompiledSchema;
+
+  constructor(schemaName: string) {
+    this.schemaName = schemaName;
+    this.compiledSchema = SchemaValidator.getCompiledSchema(schemaName);
+  }
+
+  validate(body: string): ValidationResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch (error) {
+      return {
+        valid: false,
+        errors: [`Malformed JSON: ${(error as Error).message}`]
+      };
+    }
+
+    const fields = isRecord(data) ? data : {};
+    const records = fields[RECORDS_FIELD];
+    const recordCount = Array.isArray(records) ? records.length : undefined;
+    const requestId = SchemaValidator.getRequestId(fields.requestId);
+    const { document } = this.compiledSchema;
+
+    const messages = document(data) ? [] : SchemaValidator.formatErrors(document.errors || []);
+    const countMismatch = SchemaValidator.checkDeclaredCount(fields.recordCount, recordCount);
+    if (countMismatch) {
+      messages.push(countMismatch);
+    }
+
+    return messages.length === 0
+      ? { valid: true, recordCount, requestId }
+      : { valid: false, errors: messages, recordCount, requestId };
+  }
+
+  /**
+   * Validate a stream without holding the whole document in memory.
+   * Each rawData record is validated as it is read, the remaining envelope fields are
+   * validated once the stream ends, and a declared recordCount is checked against the actual count.
+   */
+  async validateStream(stream: AsyncIterable<Uint8Array>): Promise<ValidationResult> {
+    const { envelope, record: recordFn } = this.compiledSchema;
+    const fields: Record<string, unknown> = {};
+    const errors: ErrorObject[] = [];
+    let invalidRecords = 0;
+
+    const reader = new EnvelopeReader({
+      onField: (name, value) => {
+        fields[name] = value;
+      },
+      onRecord: (record, index) => {
+        if (recordFn && !recordFn(record)) {
+          invalidRecords++;
+          if (errors.length < MAX_REPORTED_ERRORS) {
+            (recordFn.errors || []).forEach(error => errors.push({
+              ...error,
+              instancePath: `/${RECORDS_FIELD}/${index}${error.instancePath}`
+            }));
+          }
+        }
+      }
+    }, RECORDS_FIELD);
+
+    let recordCount: number;
+    try {
+      recordCount = await reader.read(stream);
+    } catch (error) {
+      if (error instanceof EnvelopeParseError) {
+        return { valid: false, errors: [error.message] };
+      }
+      throw error;
+    }
+
+    // Records were consumed by the reader, so stand in an empty array for the envelope check
+    const envelopeData = reader.sawRecordsArray()
+      ? { ...fields, [RECORDS_FIELD]: [] }
+      : fields;
+    if (!envelope(envelopeData)) {
+      errors.unshift(...(envelope.errors || []));
+    }
+
+    const messages = SchemaValidator.formatErrors(errors);
+    if (invalidRecords > 0) {
+      messages.push(`${invalidRecords} of ${recordCount} records are invalid`);
+    }
+
+    const countMismatch = SchemaValidator.checkDeclaredCount(fields['recordCount'], recordCount);
+    if (countMismatch) {
+      messages.push(countMismatch);
+    }
+
+    const requestId = SchemaValidator.getRequestId(fields['requestId']);
+    return messages.length === 0
+      ? { valid: true, recordCount, requestId }
+      : { valid: false, errors: messages, recordCount, requestId };
+  }
+
+  getSchemaName(): string {
+    return this.schemaName;
+  }
+
+  private static getRequestId(value: unknown): string | undefined {
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+
+  /**
+   * Compare the recordCount an envelope declares with the number of records it holds
+   * @returns The error message, when a declared count does not match
+   */
+  private static checkDeclaredCount(declaredCount: unknown, recordCount: number | undefined): string | undefined {
+    if (typeof declaredCount !== 'number' || recordCount === undefined || declaredCount === recordCount) {
+      return undefined;
+    }
+    return `recordCount declares ${declaredCount} records but ${RECORDS_FIELD} contains ${recordCount}`;
+  }
+
+  private static getCompiledSchema(schemaName: string): CompiledSchema {
+    let compiledSchema = compiled.get(schemaName);
+    if (!compiledSchema) {
+      const schema: SchemaObject | undefined = SCHEMAS[schemaName];
+      if (!schema) {
+        throw new Error(`Unknown schema "${schemaName}". Registered schemas: ${Object.keys(SCHEMAS).join(', ')}`);
+      }
+
+      // Split the schema so the records array can be validated one element at a time
+      const recordsSchema = schema.properties?.[RECORDS_FIELD];
+      const envelopeSchema = {
+        ...schema,
+        properties: {
+          ...schema.properties,
+          [RECORDS_FIELD]: { type: 'array' }
+        }
+      };
+
+      compiledSchema = {
+        document: ajv.compile(schema),
+        envelope: ajv.compile(envelopeSchema),
+        record: recordsSchema?.items ? ajv.compile(recordsSchema.items) : undefined
+      };
+      compiled.set(schemaName, compiledSchema);
+    }
+    return compiledSchema;
+  }
+
+  /**
+   * Convert ajv errors into short human-readable messages
+   * Example: "/rawData/3 must have required property 'personid'"
+   */
+  private static formatErrors(errors: ErrorObject[]): string[] {
+    const messages = errors
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map(error => `${error.instancePath || '/'} ${error.message}`);
+    if (errors.length > MAX_REPORTED_ERRORS) {
+      messages.push(`...and ${errors.length - MAX_REPORTED_ERRORS} more`);
+    }
+    return messages;
+  }
+}
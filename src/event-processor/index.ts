@@ -1,15 +1,33 @@
 import { S3Event, Context as LambdaContext } from 'aws-lambda';
 import { BucketConfig } from '../../context/IContext';
 import { Bucket } from './Bucket';
-import { S3EventProcessor } from './S3EventProcessor';
+import { SnsErrorNotifier } from './ErrorReport';
+import { DynamoDbEventLedger } from './EventLedger';
+import { DynamoDbExpectedDropRegistry } from './ExpectedDrops';
+import { DynamoDbHashLedger } from './HashLedger';
+import { logger } from './Logger';
+import { DynamoDbProcessingLedger, shouldRecord, toProcessingRecord } from './ProcessingLedger';
+import { S3EventProcessor, isRetryable } from './S3EventProcessor';
+import { IamUploaderDirectory, UploaderIdentity } from './Uploaders';
 
 const BUCKET_CONFIG: BucketConfig = JSON.parse(process.env.BUCKET_CONFIG || '{"subdirectories": []}');
+const HASH_LEDGER_TABLE = process.env.HASH_LEDGER_TABLE;
+const EVENT_LEDGER_TABLE = process.env.EVENT_LEDGER_TABLE;
+const PROCESSING_LEDGER_TABLE = process.env.PROCESSING_LEDGER_TABLE;
+const EXPECTED_DROP_TABLE = process.env.EXPECTED_DROP_TABLE;
+const ERROR_TOPIC_ARN = process.env.ERROR_TOPIC_ARN;
+const UPLOADERS: UploaderIdentity[] = JSON.parse(process.env.UPLOADERS || '[]');
+
+// Unique ids of the uploaders are looked up once per container
+const uploaders = UPLOADERS.length > 0 ? new IamUploaderDirectory(UPLOADERS) : undefined;
 
 /**
  * Lambda handler for processing S3 events
  */
 export async function handler(event: S3Event, context: LambdaContext): Promise<void> {
-  console.log('Received S3 event:', JSON.stringify(event, null, 2));
+  logger.info('Received S3 event', { event });
+
+  const retryableKeys: string[] = [];
 
   for (const record of event.Records) {
     try {
@@ -26,14 +44,38 @@ export async function handler(event: S3Event, context: LambdaContext): Promise<v
         );
       }
       
-      const bucket = new Bucket(BUCKET_CONFIG);
-      const processor = new S3EventProcessor(record, bucket);
+      const errorNotifier = ERROR_TOPIC_ARN ? new SnsErrorNotifier(ERROR_TOPIC_ARN) : undefined;
+      const bucket = new Bucket(BUCKET_CONFIG, undefined, undefined, errorNotifier);
+      const hashLedger = HASH_LEDGER_TABLE ? new DynamoDbHashLedger(HASH_LEDGER_TABLE) : undefined;
+      const eventLedger = EVENT_LEDGER_TABLE ? new DynamoDbEventLedger(EVENT_LEDGER_TABLE) : undefined;
+      const expectedDrops = EXPECTED_DROP_TABLE ? new DynamoDbExpectedDropRegistry(EXPECTED_DROP_TABLE) : undefined;
+      const processor = new S3EventProcessor(record, bucket, undefined, { hashLedger, eventLedger, expectedDrops, uploaders });
       const result = await processor.process();
       
-      console.log('Processing result:', JSON.stringify(result, null, 2));
+      logger.info('Processing result', { result });
+
+      // Keep a queryable record of what happened to the file, beyond the log retention period
+      if (PROCESSING_LEDGER_TABLE && shouldRecord(result)) {
+        try {
+          const processingLedger = new DynamoDbProcessingLedger(PROCESSING_LEDGER_TABLE);
+          await processingLedger.record(toProcessingRecord(record, result, new Date().toISOString()));
+        } catch (error) {
+          logger.error(`Failed to record processing result of ${result.originalKey} in the processing ledger`, { error });
+        }
+      }
+
+      if (isRetryable(result)) {
+        retryableKeys.push(result.originalKey);
+      }
     } catch (error) {
-      console.error('Error processing record:', error);
+      logger.error('Error processing record', { error });
       // Continue processing other records even if one fails
     }
   }
+
+  // Fail the invocation so Lambda retries the event for files left in place
+  // Records that were already handled are recognised as redeliveries by the event ledger
+  if (retryableKeys.length > 0) {
+    throw new Error(`${retryableKeys.length} file(s) left unprocessed after a failed attempt, retrying the event: ${retryableKeys.join(', ')}`);
+  }
 }
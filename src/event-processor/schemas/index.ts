@@ -0,0 +1,10 @@
+import { SchemaObject } from 'ajv';
+import { personEnvelopeSchema } from './person-envelope';
+
+/**
+ * Registry of JSON Schemas that a BucketSubdirectory can name in its "schema" property.
+ * Schemas are bundled into the event processor Lambda, so adding one means adding it here.
+ */
+export const SCHEMAS: Record<string, SchemaObject> = {
+  'person-envelope': personEnvelopeSchema
+};
@@ -0,0 +1,24 @@
+/**
+ * JSON Schema for the person population envelope delivered by SnapLogic/CDM
+ * Example:
+ *   { "requestId": "...", "timestamp": "...", "recordCount": 2, "rawData": [ { "personid": "U12345678", ... }, ... ] }
+ */
+export const personEnvelopeSchema = {
+  type: 'object',
+  required: ['rawData'],
+  properties: {
+    requestId: { type: 'string', minLength: 1 },
+    timestamp: { type: 'string', minLength: 1 },
+    recordCount: { type: 'integer', minimum: 0 },
+    rawData: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['personid'],
+        properties: {
+          personid: { type: 'string', minLength: 1 }
+        }
+      }
+    }
+  }
+};
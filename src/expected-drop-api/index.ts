@@ -0,0 +1,22 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { BucketConfig } from '../../context/IContext';
+import { ExpectedDropApi } from '../event-processor/ExpectedDropApi';
+import { DynamoDbExpectedDropRegistry } from '../event-processor/ExpectedDrops';
+import { UploaderIdentity } from '../event-processor/Uploaders';
+
+const BUCKET_CONFIG: BucketConfig = JSON.parse(process.env.BUCKET_CONFIG || '{"subdirectories": []}');
+const EXPECTED_DROP_TABLE = process.env.EXPECTED_DROP_TABLE || '';
+const UPLOADERS: UploaderIdentity[] = JSON.parse(process.env.UPLOADERS || '[]');
+
+const api = new ExpectedDropApi(
+  new DynamoDbExpectedDropRegistry(EXPECTED_DROP_TABLE),
+  BUCKET_CONFIG.subdirectories.map(subdir => subdir.path),
+  UPLOADERS
+);
+
+/**
+ * API Gateway handler registering and looking up expected drops
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  return api.handle(event);
+}
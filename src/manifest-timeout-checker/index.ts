@@ -0,0 +1,26 @@
+import { ScheduledEvent, Context as LambdaContext } from 'aws-lambda';
+import { BucketConfig } from '../../context/IContext';
+import { Bucket } from '../event-processor/Bucket';
+import { SnsErrorNotifier } from '../event-processor/ErrorReport';
+import { logger } from '../event-processor/Logger';
+import { ManifestTimeoutChecker } from '../event-processor/ManifestTimeoutChecker';
+
+const BUCKET_CONFIG: BucketConfig = JSON.parse(process.env.BUCKET_CONFIG || '{"subdirectories": []}');
+const ERROR_TOPIC_ARN = process.env.ERROR_TOPIC_ARN;
+
+/**
+ * Scheduled Lambda handler that escalates multi-part drop parts whose manifest never arrived
+ */
+export async function handler(event: ScheduledEvent, context: LambdaContext): Promise<void> {
+  const errorNotifier = ERROR_TOPIC_ARN ? new SnsErrorNotifier(ERROR_TOPIC_ARN) : undefined;
+  const checker = new ManifestTimeoutChecker(new Bucket(BUCKET_CONFIG, undefined, undefined, errorNotifier));
+  const results = await checker.check();
+
+  const escalated = results.reduce((sum, result) => sum + result.escalated.length, 0);
+  logger.info(`Manifest timeout check escalated ${escalated} part(s)`, { results });
+
+  const failed = results.flatMap(result => result.failed);
+  if (failed.length > 0) {
+    throw new Error(`Failed to escalate ${failed.length} overdue part(s): ${failed.join(', ')}`);
+  }
+}
@@ -0,0 +1,21 @@
+import { ScheduledEvent, Context as LambdaContext } from 'aws-lambda';
+import { DynamoDbExpectedDropRegistry } from '../event-processor/ExpectedDrops';
+import { logger } from '../event-processor/Logger';
+import { OverdueDropChecker } from '../event-processor/OverdueDropChecker';
+
+const EXPECTED_DROP_TABLE = process.env.EXPECTED_DROP_TABLE || '';
+const OVERDUE_DROP_TOPIC_ARN = process.env.OVERDUE_DROP_TOPIC_ARN || '';
+
+/**
+ * Scheduled Lambda handler that notifies about expected drops that missed their deadline
+ */
+export async function handler(event: ScheduledEvent, context: LambdaContext): Promise<void> {
+  const checker = new OverdueDropChecker(new DynamoDbExpectedDropRegistry(EXPECTED_DROP_TABLE), OVERDUE_DROP_TOPIC_ARN);
+  const result = await checker.check();
+
+  logger.info(`Overdue drop check notified about ${result.notified.length} drop(s)`, { result });
+
+  if (result.failed.length > 0) {
+    throw new Error(`Failed to notify about ${result.failed.length} overdue drop(s): ${result.failed.join(', ')}`);
+  }
+}
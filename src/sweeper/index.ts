@@ -0,0 +1,60 @@
+import { ScheduledEvent, Context as LambdaContext } from 'aws-lambda';
+import { BucketConfig } from '../../context/IContext';
+import { Bucket } from '../event-processor/Bucket';
+import { SnsErrorNotifier } from '../event-processor/ErrorReport';
+import { DynamoDbEventLedger } from '../event-processor/EventLedger';
+import { DynamoDbExpectedDropRegistry } from '../event-processor/ExpectedDrops';
+import { DynamoDbHashLedger } from '../event-processor/HashLedger';
+import { logger } from '../event-processor/Logger';
+import { DynamoDbProcessingLedger, shouldRecord, toProcessingRecord } from '../event-processor/ProcessingLedger';
+import { S3EventProcessor } from '../event-processor/S3EventProcessor';
+import { Sweeper } from '../event-processor/Sweeper';
+
+const BUCKET_CONFIG: BucketConfig = JSON.parse(process.env.BUCKET_CONFIG || '{"subdirectories": []}');
+const HASH_LEDGER_TABLE = process.env.HASH_LEDGER_TABLE;
+const EVENT_LEDGER_TABLE = process.env.EVENT_LEDGER_TABLE;
+const PROCESSING_LEDGER_TABLE = process.env.PROCESSING_LEDGER_TABLE;
+const EXPECTED_DROP_TABLE = process.env.EXPECTED_DROP_TABLE;
+const ERROR_TOPIC_ARN = process.env.ERROR_TOPIC_ARN;
+const MIN_AGE_MINUTES = parseInt(process.env.MIN_AGE_MINUTES || '60');
+
+/**
+ * Scheduled Lambda handler that runs files the event processor never saw through it
+ */
+export async function handler(event: ScheduledEvent, context: LambdaContext): Promise<void> {
+  const errorNotifier = ERROR_TOPIC_ARN ? new SnsErrorNotifier(ERROR_TOPIC_ARN) : undefined;
+  const bucket = new Bucket(BUCKET_CONFIG, undefined, undefined, errorNotifier);
+  const hashLedger = HASH_LEDGER_TABLE ? new DynamoDbHashLedger(HASH_LEDGER_TABLE) : undefined;
+  const eventLedger = EVENT_LEDGER_TABLE ? new DynamoDbEventLedger(EVENT_LEDGER_TABLE) : undefined;
+  const expectedDrops = EXPECTED_DROP_TABLE ? new DynamoDbExpectedDropRegistry(EXPECTED_DROP_TABLE) : undefined;
+  const processingLedger = PROCESSING_LEDGER_TABLE ? new DynamoDbProcessingLedger(PROCESSING_LEDGER_TABLE) : undefined;
+
+  // A listing does not say who uploaded a file, so stragglers are processed without the uploader check
+  const sweeper = new Sweeper(bucket, MIN_AGE_MINUTES, async record => {
+    const result = await new S3EventProcessor(record, bucket, undefined, { hashLedger, eventLedger, expectedDrops }).process();
+
+    // Keep a queryable record of what happened to the file, beyond the log retention period
+    if (processingLedger && shouldRecord(result)) {
+      try {
+        await processingLedger.record(toProcessingRecord(record, result, new Date().toISOString()));
+      } catch (error) {
+        logger.error(`Failed to record processing result of ${result.originalKey} in the processing ledger`, { error });
+      }
+    }
+    return result;
+  });
+  const results = await sweeper.sweep();
+
+  const recovered = results.reduce((sum, result) => sum + result.recovered.length, 0);
+  logger.info(`Sweep recovered ${recovered} straggler(s)`, { results });
+
+  const unresolved = results.flatMap(result => result.unresolved);
+  if (unresolved.length > 0) {
+    logger.error(`Sweep left ${unresolved.length} straggler(s) in place that sweeping again cannot resolve: ${unresolved.join(', ')}`, { unresolved });
+  }
+
+  const failed = results.flatMap(result => result.failed);
+  if (failed.length > 0) {
+    throw new Error(`Failed to recover ${failed.length} straggler(s), the next sweep retries them: ${failed.join(', ')}`);
+  }
+}
@@ -7,6 +7,7 @@ interface EventPayload {
   s3Path: string;
   bucket: string;
   key: string;
+  correlationId?: string;
   processingMetadata?: {
     processedAt: string;
     processorVersion: string;
@@ -0,0 +1,19 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { BucketConfig, UploadTokenConfig } from '../../context/IContext';
+import { UploadTokenApi } from '../event-processor/UploadTokenApi';
+
+const BUCKET_CONFIG: BucketConfig = JSON.parse(process.env.BUCKET_CONFIG || '{"subdirectories": []}');
+const UPLOAD_TOKEN_CONFIG: UploadTokenConfig = JSON.parse(process.env.UPLOAD_TOKEN_CONFIG || '{}');
+
+const api = new UploadTokenApi(
+  BUCKET_CONFIG.name!,
+  BUCKET_CONFIG.subdirectories.map(subdir => subdir.path),
+  UPLOAD_TOKEN_CONFIG
+);
+
+/**
+ * API Gateway handler issuing pre-signed uploads
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  return api.handle(event);
+}
@@ -0,0 +1,198 @@
+import { CreateAccessKeyCommand, DeleteAccessKeyCommand, IAMClient, ListAccessKeysCommand } from '@aws-sdk/client-iam';
+import {
+  DescribeSecretCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+  UpdateSecretVersionStageCommand
+} from '@aws-sdk/client-secrets-manager';
+import { GetCallerIdentityCommand, STSClient } from '@aws-sdk/client-sts';
+import { SecretsManagerRotationEvent } from 'aws-lambda';
+import { AccessKeyRotator, AccessKeySecret } from '../src/event-processor/AccessKeyRotation';
+
+describe('AccessKeyRotator', () => {
+  const secretId = 'arn:aws:secretsmanager:us-east-2:123456789012:secret:file-drop-bucket-access-keys-dev';
+  const token = 'token-2';
+  const now = new Date('2026-02-22T10:00:00.000Z');
+  const current: AccessKeySecret = {
+    accessKeyId: 'AKIAOLD',
+    secretAccessKey: 'old-secret',
+    bucketName: 'test-bucket',
+    bucketArn: 'arn:aws:s3:::test-bucket',
+    region: 'us-east-2'
+  };
+
+  let secrets: Record<string, AccessKeySecret>;
+  let versionIdsToStages: Record<string, string[]>;
+  let accessKeyIds: string[];
+  let secretsSend: jest.Mock;
+  let iamSend: jest.Mock;
+  let stsSend: jest.Mock;
+  let rotator: AccessKeyRotator;
+
+  const rotate = (Step: SecretsManagerRotationEvent['Step']) => rotator.rotate({ SecretId: secretId, ClientRequestToken: token, Step });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+
+    secrets = { 'token-1': current };
+    versionIdsToStages = { 'token-1': ['AWSCURRENT'], [token]: ['AWSPENDING'] };
+    accessKeyIds = ['AKIAOLD'];
+
+    secretsSend = jest.fn(async (command: any) => {
+      const input = command.input;
+      if (command instanceof DescribeSecretCommand) {
+        return { RotationEnabled: true, VersionIdsToStages: versionIdsToStages };
+      }
+      if (command instanceof GetSecretValueCommand) {
+        const versionId = input.VersionId || Object.keys(versionIdsToStages).find(id => versionIdsToStages[id].includes(input.VersionStage));
+        if (!versionId || !secrets[versionId]) {
+          throw Object.assign(new Error('Secrets Manager can\'t find the specified secret value'), { name: 'ResourceNotFoundException' });
+        }
+        return { SecretString: JSON.stringify(secrets[versionId]) };
+      }
+      if (command instanceof PutSecretValueCommand) {
+        secrets[input.ClientRequestToken] = JSON.parse(input.SecretString);
+        return {};
+      }
+      return {};
+    });
+    iamSend = jest.fn(async (command: any) => {
+      if (command instanceof ListAccessKeysCommand) {
+        return { AccessKeyMetadata: accessKeyIds.map(AccessKeyId => ({ AccessKeyId })) };
+      }
+      if (command instanceof CreateAccessKeyCommand) {
+        accessKeyIds.push('AKIANEW');
+        return { AccessKey: { AccessKeyId: 'AKIANEW', SecretAccessKey: 'new-secret' } };
+      }
+      if (command instanceof DeleteAccessKeyCommand) {
+        accessKeyIds = accessKeyIds.filter(id => id !== command.input.AccessKeyId);
+      }
+      return {};
+    });
+    stsSend = jest.fn().mockResolvedValue({ Arn: 'arn:aws:iam::123456789012:user/file-drop-service-user-dev' });
+
+    rotator = new AccessKeyRotator(
+      'file-drop-service-user-dev',
+      24,
+      { send: secretsSend } as unknown as SecretsManagerClient,
+      { send: iamSend } as unknown as IAMClient,
+      () => ({ send: stsSend }) as unknown as STSClient,
+      () => now,
+      { attempts: 3, delayMs: 0 }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create a new access key and store it as the pending version, remembering the previous key', async () => {
+    await rotate('createSecret');
+
+    expect(iamSend.mock.calls.find(([command]) => command instanceof CreateAccessKeyCommand)[0].input)
+      .toEqual({ UserName: 'file-drop-service-user-dev' });
+    const put = secretsSend.mock.calls.find(([command]) => command instanceof PutSecretValueCommand)[0];
+    expect(put.input.VersionStages).toEqual(['AWSPENDING']);
+    expect(JSON.parse(put.input.SecretString)).toEqual({
+      ...current,
+      accessKeyId: 'AKIANEW',
+      secretAccessKey: 'new-secret',
+      previousAccessKeyId: 'AKIAOLD',
+      rotatedAt: '2026-02-22T10:00:00.000Z'
+    });
+  });
+
+  it('should not create another key when the pending version already exists', async () => {
+    await rotate('createSecret');
+    await rotate('createSecret');
+
+    expect(iamSend.mock.calls.filter(([command]) => command instanceof CreateAccessKeyCommand)).toHaveLength(1);
+  });
+
+  it('should delete keys other than the current one to stay within the IAM limit of two keys', async () => {
+    accessKeyIds = ['AKIAOLD', 'AKIAOLDER'];
+
+    await rotate('createSecret');
+
+    expect(accessKeyIds).toEqual(['AKIAOLD', 'AKIANEW']);
+  });
+
+  it('should test the new key with STS, waiting for IAM to accept it', async () => {
+    await rotate('createSecret');
+    stsSend.mockRejectedValueOnce(Object.assign(new Error('The security token included in the request is invalid'), { name: 'InvalidClientTokenId' }));
+
+    await rotate('testSecret');
+
+    expect(stsSend).toHaveBeenCalledTimes(2);
+    expect(stsSend.mock.calls[1][0]).toBeInstanceOf(GetCallerIdentityCommand);
+  });
+
+  it('should pass the test step for uploaders with allowedIpRanges, whose bucket policy denies the rotation Lambda', async () => {
+    const createClient = jest.fn((secret: AccessKeySecret) => ({ send: stsSend }) as unknown as STSClient);
+    rotator = new AccessKeyRotator(
+      'file-drop-service-user-dev',
+      24,
+      { send: secretsSend } as unknown as SecretsManagerClient,
+      { send: iamSend } as unknown as IAMClient,
+      createClient,
+      () => now,
+      { attempts: 3, delayMs: 0 }
+    );
+    await rotate('createSecret');
+
+    await rotate('testSecret');
+
+    // The only request made with the new key goes to STS, which the bucket policy's IP condition does not apply to
+    expect(createClient).toHaveBeenCalledWith(expect.objectContaining({ accessKeyId: 'AKIANEW', bucketName: 'test-bucket' }));
+    expect(stsSend.mock.calls.map(([command]) => command.constructor)).toEqual([GetCallerIdentityCommand]);
+  });
+
+  it('should fail the test step when the new key belongs to someone else', async () => {
+    await rotate('createSecret');
+    stsSend.mockResolvedValue({ Arn: 'arn:aws:iam::123456789012:user/other-user' });
+
+    await expect(rotate('testSecret')).rejects.toThrow('not to file-drop-service-user-dev');
+    expect(stsSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('should move AWSCURRENT to the new version', async () => {
+    await rotate('finishSecret');
+
+    const update = secretsSend.mock.calls.find(([command]) => command instanceof UpdateSecretVersionStageCommand)[0];
+    expect(update.input).toEqual({
+      SecretId: secretId,
+      VersionStage: 'AWSCURRENT',
+      MoveToVersionId: token,
+      RemoveFromVersionId: 'token-1'
+    });
+  });
+
+  it('should refuse versions that are not pending', async () => {
+    versionIdsToStages = { 'token-1': ['AWSCURRENT'], [token]: [] };
+
+    await expect(rotate('createSecret')).rejects.toThrow('is not AWSPENDING');
+  });
+
+  describe('deleteExpiredPreviousKey', () => {
+    beforeEach(() => {
+      accessKeyIds = ['AKIAOLD', 'AKIANEW'];
+    });
+
+    it('should keep the previous key during the grace period', async () => {
+      secrets['token-1'] = { ...current, accessKeyId: 'AKIANEW', previousAccessKeyId: 'AKIAOLD', rotatedAt: '2026-02-21T10:00:00.001Z' };
+
+      expect(await rotator.deleteExpiredPreviousKey(secretId)).toBeUndefined();
+      expect(accessKeyIds).toEqual(['AKIAOLD', 'AKIANEW']);
+    });
+
+    it('should delete the previous key once the grace period is over, once', async () => {
+      secrets['token-1'] = { ...current, accessKeyId: 'AKIANEW', previousAccessKeyId: 'AKIAOLD', rotatedAt: '2026-02-21T10:00:00.000Z' };
+
+      expect(await rotator.deleteExpiredPreviousKey(secretId)).toBe('AKIAOLD');
+      expect(await rotator.deleteExpiredPreviousKey(secretId)).toBeUndefined();
+      expect(accessKeyIds).toEqual(['AKIANEW']);
+    });
+  });
+});
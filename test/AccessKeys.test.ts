@@ -0,0 +1,231 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { BucketConfig, IContext, UploaderConfig } from '../context/IContext';
+import { BucketAccessKeys, getUploaderIdentities } from '../lib/AccessKeys';
+
+describe('BucketAccessKeys', () => {
+  const createContext = (bucketConfig: Partial<BucketConfig>): IContext => ({
+    STACK_ID: 'test-stack',
+    ACCOUNT: '123456789012',
+    REGION: 'us-east-2',
+    TAGS: { Landscape: 'test', Service: 'integration', Function: 'file-processing' },
+    BUCKET: {
+      name: 'test-bucket',
+      subdirectories: [
+        { path: 'person-full', objectLifetimeDays: 7 },
+        { path: 'person-delta', objectLifetimeDays: 3, uploaderCanRead: true }
+      ],
+      ...bucketConfig
+    },
+    LAMBDA: { eventProcessor: {} }
+  } as IContext);
+
+  /**
+   * Helper to synthesize the access keys of a bucket with the given configuration
+   * and return the statements of the service user's policy
+   */
+  const synthesizeUserStatements = (bucketConfig: Partial<BucketConfig>, uploader?: UploaderConfig): any[] => {
+    const stack = new Stack(new App(), 'TestStack');
+    const context = createContext(bucketConfig);
+
+    const accessKeys = new BucketAccessKeys(stack, 'access-keys', { context, bucket: new Bucket(stack, 'bucket'), uploader });
+    const template = Template.fromStack(stack);
+
+    const policies = template.findResources('AWS::IAM::Policy', {
+      Properties: { Users: Match.arrayWith([{ Ref: Match.stringLikeRegexp('bucketserviceuser') }]) }
+    });
+    expect(accessKeys.user).toBeDefined();
+    return Object.values(policies).flatMap((policy: any) => policy.Properties.PolicyDocument.Statement);
+  };
+
+  /**
+   * Path of an object ARN within the bucket, e.g. /person-full/*
+   */
+  const objectPath = (resource: any): string => resource['Fn::Join'][1][1];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only allow uploads to the configured subdirectories', () => {
+    const statements = synthesizeUserStatements({});
+
+    expect(statements).toContainEqual(expect.objectContaining({
+      Effect: 'Allow',
+      Action: ['s3:PutObject', 's3:PutObjectTagging', 's3:AbortMultipartUpload', 's3:ListMultipartUploadParts']
+    }));
+    const upload = statements.find(statement => statement.Action.includes?.('s3:AbortMultipartUpload'));
+    expect(upload.Resource.map(objectPath)).toEqual(['/person-full/*', '/person-delta/*']);
+
+    const actions = statements.filter(statement => statement.Effect === 'Allow').flatMap(statement => statement.Action);
+    expect(actions).not.toContain('s3:DeleteObject');
+    expect(actions).not.toContain('s3:PutObjectRetention');
+  });
+
+  it('should deny uploads to the errors folders', () => {
+    const statements = synthesizeUserStatements({});
+
+    const deny = statements.find(statement => statement.Effect === 'Deny');
+    expect(deny.Action).toEqual(['s3:PutObject', 's3:PutObjectTagging']);
+    expect(deny.Resource.map(objectPath)).toEqual(['/person-full/errors/*', '/person-delta/errors/*']);
+  });
+
+  it('should allow read-back of subdirectories with uploaderCanRead only', () => {
+    const statements = synthesizeUserStatements({});
+
+    const read = statements.find(statement => statement.Action[0] === 's3:GetObject');
+    expect(read.Action).toEqual(['s3:GetObject', 's3:GetObjectTagging']);
+    expect(objectPath(read.Resource)).toBe('/person-delta/*');
+    expect(statements).toContainEqual({
+      Effect: 'Allow',
+      Action: 's3:ListBucket',
+      Resource: { 'Fn::GetAtt': [expect.any(String), 'Arn'] },
+      Condition: { StringLike: { 's3:prefix': ['person-delta/*'] } }
+    });
+  });
+
+  it('should grant the broad access of earlier versions with uploaderFullAccess', () => {
+    const statements = synthesizeUserStatements({ uploaderFullAccess: true });
+
+    const actions = statements.flatMap(statement => statement.Action);
+    expect(actions).toEqual(expect.arrayContaining(['s3:ListBucket', 's3:GetObject', 's3:DeleteObject', 's3:PutObjectRetention']));
+    expect(statements.some(statement => statement.Effect === 'Deny')).toBe(false);
+  });
+
+  describe('named uploaders', () => {
+    const hrSystem: UploaderConfig = { name: 'hr-system', subdirectories: ['person-delta'], allowedIpRanges: ['203.0.113.0/24'] };
+
+    it('should name the uploader\'s user and secret after it', () => {
+      const stack = new Stack(new App(), 'TestStack');
+      new BucketAccessKeys(stack, 'access-keys', { context: createContext({}), bucket: new Bucket(stack, 'bucket'), uploader: hrSystem });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::IAM::User', { UserName: 'test-stack-hr-system-service-user-test' });
+      template.hasResourceProperties('AWS::SecretsManager::Secret', { Name: 'test-stack-hr-system-bucket-access-keys-test' });
+    });
+
+    it('should only allow the uploader\'s own subdirectories, from its IP ranges', () => {
+      const statements = synthesizeUserStatements({}, hrSystem);
+
+      const upload = statements.find(statement => statement.Action.includes?.('s3:AbortMultipartUpload'));
+      expect(objectPath(upload.Resource)).toBe('/person-delta/*');
+      expect(statements).toContainEqual(expect.objectContaining({
+        Effect: 'Deny',
+        Action: 's3:*',
+        Condition: { NotIpAddress: { 'aws:SourceIp': ['203.0.113.0/24'] } }
+      }));
+    });
+
+    it('should grant the permissions to an existing role without creating keys', () => {
+      const stack = new Stack(new App(), 'TestStack');
+      const accessKeys = new BucketAccessKeys(stack, 'access-keys', {
+        context: createContext({}),
+        bucket: new Bucket(stack, 'bucket'),
+        uploader: { name: 'delta-feed', subdirectories: ['person-delta'], roleArn: 'arn:aws:iam::123456789012:role/delta-feed-uploader' }
+      });
+      const template = Template.fromStack(stack);
+
+      expect(accessKeys.user).toBeUndefined();
+      expect(accessKeys.secretArn).toBeUndefined();
+      template.resourceCountIs('AWS::IAM::User', 0);
+      template.resourceCountIs('AWS::SecretsManager::Secret', 0);
+      template.hasResourceProperties('AWS::IAM::Policy', { Roles: ['delta-feed-uploader'] });
+    });
+
+    it('should keep the ARN of an existing role with an IAM path, which its name does not carry', () => {
+      const roleArn = 'arn:aws:iam::123456789012:role/team/delta-feed-uploader';
+      const identities = getUploaderIdentities(createContext({
+        uploaders: [{ name: 'delta-feed', subdirectories: ['person-delta'], roleArn }]
+      }));
+
+      expect(identities).toEqual([{ name: 'delta-feed', subdirectories: ['person-delta'], roleName: 'delta-feed-uploader', roleArn }]);
+    });
+
+    it('should create a role partner accounts assume with the external id', () => {
+      const stack = new Stack(new App(), 'TestStack');
+      const accessKeys = new BucketAccessKeys(stack, 'access-keys', {
+        context: createContext({}),
+        bucket: new Bucket(stack, 'bucket'),
+        uploader: {
+          name: 'partner',
+          subdirectories: ['person-full'],
+          crossAccount: { principalArns: ['arn:aws:iam::111122223333:root'], externalId: 'partner-file-drop' }
+        }
+      });
+      const template = Template.fromStack(stack);
+
+      expect(accessKeys.secretArn).toBeUndefined();
+      expect(accessKeys.roleArn).toBeDefined();
+      template.resourceCountIs('AWS::IAM::User', 0);
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'test-stack-partner-uploader-role-test',
+        AssumeRolePolicyDocument: {
+          Statement: [{
+            Action: 'sts:AssumeRole',
+            Effect: 'Allow',
+            Principal: { AWS: 'arn:aws:iam::111122223333:root' },
+            Condition: { StringEquals: { 'sts:ExternalId': 'partner-file-drop' } }
+          }]
+        }
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        Roles: [{ Ref: Match.stringLikeRegexp('uploaderrole') }],
+        PolicyDocument: { Statement: Match.arrayWith([Match.objectLike({ Action: Match.arrayWith(['s3:PutObject']) })]) }
+      });
+    });
+
+    it('should enforce bucket-owner-full-control on cross-account uploads in the bucket policy', () => {
+      const stack = new Stack(new App(), 'TestStack');
+      new BucketAccessKeys(stack, 'access-keys', {
+        context: createContext({}),
+        bucket: new Bucket(stack, 'bucket'),
+        uploader: {
+          name: 'partner',
+          subdirectories: ['person-full'],
+          crossAccount: { principalArns: ['arn:aws:iam::111122223333:root'], externalId: 'partner-file-drop' }
+        }
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::S3::BucketPolicy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([Match.objectLike({
+            Effect: 'Deny',
+            Action: 's3:PutObject',
+            Principal: { AWS: { 'Fn::GetAtt': [Match.stringLikeRegexp('uploaderrole'), 'Arn'] } },
+            Condition: { StringNotEqualsIfExists: { 's3:x-amz-acl': 'bucket-owner-full-control' } }
+          })])
+        }
+      });
+    });
+
+    it('should reject cross-account uploaders without a valid external id', () => {
+      const stack = new Stack(new App(), 'TestStack');
+
+      expect(() => new BucketAccessKeys(stack, 'access-keys', {
+        context: createContext({}),
+        bucket: new Bucket(stack, 'bucket'),
+        uploader: {
+          name: 'partner',
+          subdirectories: ['person-full'],
+          crossAccount: { principalArns: ['arn:aws:iam::111122223333:root'], externalId: 'x' }
+        }
+      })).toThrow('external id');
+    });
+
+    it('should reject uploaders of unknown subdirectories', () => {
+      const stack = new Stack(new App(), 'TestStack');
+
+      expect(() => new BucketAccessKeys(stack, 'access-keys', {
+        context: createContext({}),
+        bucket: new Bucket(stack, 'bucket'),
+        uploader: { name: 'hr-system', subdirectories: ['person-archive'] }
+      })).toThrow('unknown subdirectories: person-archive');
+    });
+  });
+});
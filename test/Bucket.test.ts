@@ -0,0 +1,224 @@
+import { CopyObjectCommand, DeleteObjectCommand, GetObjectTaggingCommand, PutObjectCommand, PutObjectTaggingCommand, RestoreObjectCommand, S3Client, S3ServiceException } from '@aws-sdk/client-s3';
+import { Bucket } from '../src/event-processor/Bucket';
+
+const awsError = (name: string, httpStatusCode: number) => new S3ServiceException({
+  name,
+  $fault: httpStatusCode >= 500 ? 'server' : 'client',
+  $metadata: { httpStatusCode },
+  message: name
+});
+
+describe('Bucket', () => {
+  const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 2 };
+  let send: jest.Mock;
+  let bucket: Bucket;
+
+  beforeEach(() => {
+    send = jest.fn().mockResolvedValue({});
+    bucket = new Bucket({ name: 'test-bucket', subdirectories: [] }, { send } as unknown as S3Client, policy);
+  });
+
+  const commands = () => send.mock.calls.map(([command]) => [command.constructor.name, command.input.Key]);
+
+  describe('renameObject', () => {
+    it('should copy then delete the original', async () => {
+      await expect(bucket.renameObject('person-full/data.json', 'person-full/ts-data.json')).resolves.toBe(true);
+
+      expect(commands()).toEqual([
+        ['CopyObjectCommand', 'person-full/ts-data.json'],
+        ['DeleteObjectCommand', 'person-full/data.json']
+      ]);
+      expect(send.mock.calls[0][0].input.CopySource).toBe('test-bucket/person-full/data.json');
+    });
+
+    it('should retry a throttled copy', async () => {
+      send.mockRejectedValueOnce(awsError('SlowDown', 503));
+
+      await expect(bucket.renameObject('person-full/data.json', 'person-full/ts-data.json')).resolves.toBe(true);
+      expect(send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail without retrying when access is denied', async () => {
+      send.mockRejectedValueOnce(awsError('AccessDenied', 403));
+
+      await expect(bucket.renameObject('person-full/data.json', 'person-full/ts-data.json')).resolves.toBe(false);
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back the copy when the original cannot be deleted', async () => {
+      send.mockImplementation(async command => {
+        if (command instanceof DeleteObjectCommand && command.input.Key === 'person-full/data.json') {
+          throw awsError('AccessDenied', 403);
+        }
+        return {};
+      });
+
+      await expect(bucket.renameObject('person-full/data.json', 'person-full/ts-data.json')).resolves.toBe(false);
+
+      expect(commands()).toEqual([
+        ['CopyObjectCommand', 'person-full/ts-data.json'],
+        ['DeleteObjectCommand', 'person-full/data.json'],
+        ['DeleteObjectCommand', 'person-full/ts-data.json']
+      ]);
+    });
+
+    it('should add the given tags to the ones the object already has', async () => {
+      send.mockImplementation(async command => command instanceof GetObjectTaggingCommand
+        ? { TagSet: [{ Key: 'source', Value: 'snaplogic' }] }
+        : {});
+
+      await bucket.renameObject('person-full/data.json', 'person-full/ts-data.json', { 'duplicate-of': 'person-full/a b.json' });
+
+      const copy = send.mock.calls[1][0] as CopyObjectCommand;
+      expect(copy.input.TaggingDirective).toBe('REPLACE');
+      expect(copy.input.Tagging).toBe('source=snaplogic&duplicate-of=person-full%2Fa+b.json');
+    });
+  });
+
+  describe('restoreObject', () => {
+    it('should request a restore with the given days and tier', async () => {
+      await bucket.restoreObject('person-full/ts-data.json', 3, 'Bulk');
+
+      expect(send.mock.calls[0][0]).toBeInstanceOf(RestoreObjectCommand);
+      expect(send.mock.calls[0][0].input).toEqual({
+        Bucket: 'test-bucket',
+        Key: 'person-full/ts-data.json',
+        RestoreRequest: { Days: 3, GlacierJobParameters: { Tier: 'Bulk' } }
+      });
+    });
+
+    it('should replace the tags of an object', async () => {
+      await bucket.putTags('person-full/ts-data.json', { 'correlation-id': 'req-123' });
+
+      expect(send.mock.calls[0][0]).toBeInstanceOf(PutObjectTaggingCommand);
+      expect(send.mock.calls[0][0].input).toEqual({
+        Bucket: 'test-bucket',
+        Key: 'person-full/ts-data.json',
+        Tagging: { TagSet: [{ Key: 'correlation-id', Value: 'req-123' }] }
+      });
+    });
+
+    it('should leave a restore in progress to finish', async () => {
+      send.mockRejectedValueOnce(awsError('RestoreAlreadyInProgress', 409));
+
+      await expect(bucket.restoreObject('person-full/ts-data.json', 3, 'Bulk')).resolves.toBeUndefined();
+    });
+
+    it('should report the storage class and restore state of an object', async () => {
+      send.mockResolvedValueOnce({ ContentLength: 10, StorageClass: 'DEEP_ARCHIVE', Restore: 'ongoing-request="true"' });
+      send.mockResolvedValueOnce({ ContentLength: 10, StorageClass: 'DEEP_ARCHIVE', Restore: 'ongoing-request="false", expiry-date="Fri, 27 Feb 2026 00:00:00 GMT"' });
+
+      expect(await bucket.getObjectInfo('person-full/ts-data.json')).toEqual(expect.objectContaining({ storageClass: 'DEEP_ARCHIVE', restore: 'ongoing' }));
+      expect(await bucket.getObjectInfo('person-full/ts-data.json')).toEqual(expect.objectContaining({ restore: 'restored' }));
+    });
+  });
+
+  describe('with a customer-managed KMS key', () => {
+    const keyArn = 'arn:aws:kms:us-east-2:123456789012:key/1234abcd-12ab-34cd-56ef-1234567890ab';
+    const encryption = { ServerSideEncryption: 'aws:kms', SSEKMSKeyId: keyArn, BucketKeyEnabled: true };
+
+    beforeEach(() => {
+      bucket = new Bucket({ name: 'test-bucket', subdirectories: [], kms: { keyArn } }, { send } as unknown as S3Client, policy);
+      jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should keep renamed copies encrypted with the key', async () => {
+      await bucket.renameObject('person-full/data.json', 'person-full/ts-data.json');
+
+      expect(send.mock.calls[0][0]).toBeInstanceOf(CopyObjectCommand);
+      expect(send.mock.calls[0][0].input).toEqual(expect.objectContaining(encryption));
+    });
+
+    it('should keep files moved to errors and their reports encrypted with the key', async () => {
+      await bucket.moveToErrors('person-full/data.json', 'person-full', 'Invalid');
+
+      const writes = send.mock.calls
+        .map(([command]) => command)
+        .filter(command => command instanceof CopyObjectCommand || command instanceof PutObjectCommand);
+      expect(writes).toHaveLength(2);
+      writes.forEach(command => expect(command.input).toEqual(expect.objectContaining(encryption)));
+    });
+
+    it('should not set encryption parameters without a key', async () => {
+      bucket = new Bucket({ name: 'test-bucket', subdirectories: [] }, { send } as unknown as S3Client, policy);
+
+      await bucket.renameObject('person-full/data.json', 'person-full/ts-data.json');
+
+      expect(send.mock.calls[0][0].input.ServerSideEncryption).toBeUndefined();
+    });
+  });
+
+  describe('moveToErrors', () => {
+    it('should roll back the errors copy when the original cannot be deleted', async () => {
+      send
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(awsError('AccessDenied', 403));
+
+      await expect(bucket.moveToErrors('person-full/data.json', 'person-full', 'bad')).resolves.toBe(false);
+
+      const [copy, , rollback] = send.mock.calls.map(([command]) => command);
+      expect(copy.input.Tagging).toBe('error-reason=bad');
+      expect(rollback).toBeInstanceOf(DeleteObjectCommand);
+      expect(rollback.input.Key).toBe(copy.input.Key);
+    });
+
+    it('should add the given tags after the error reason', async () => {
+      await bucket.moveToErrors('person-full/data.json', 'person-full', 'bad file', { 'correlation-id': 'req-123' });
+
+      expect(send.mock.calls[0][0].input.Tagging).toBe('error-reason=bad%20file&correlation-id=req-123');
+    });
+
+    it('should cut the error-reason tag to what S3 accepts and keep the full reason in a report next to the file', async () => {
+      const reason = `Subscriber failed: ${'"quoted" (detail) '.repeat(20)}`;
+      const result = { success: false, action: 'error-invoke' as const, originalKey: 'person-full/data.json', reason };
+
+      await bucket.moveToErrors('person-full/data.json', 'person-full', reason, undefined, {
+        correlationId: 'req-123',
+        stack: 'Error: Subscriber failed\n    at invoke',
+        result
+      });
+
+      const [copy, , put] = send.mock.calls.map(([command]) => command);
+      const tag = decodeURIComponent(copy.input.Tagging.replace(/^error-reason=/, ''));
+      expect(tag).toHaveLength(256);
+      expect(tag).toMatch(/^Subscriber failed: _quoted_ _detail_ /);
+
+      expect(put).toBeInstanceOf(PutObjectCommand);
+      expect(put.input.Key).toBe(`${copy.input.Key}.error.json`);
+      expect(put.input.ContentType).toBe('application/json');
+      expect(JSON.parse(put.input.Body)).toEqual({
+        bucket: 'test-bucket',
+        originalKey: 'person-full/data.json',
+        errorKey: copy.input.Key,
+        subdirectory: 'person-full',
+        reason,
+        movedAt: expect.any(String),
+        correlationId: 'req-123',
+        stack: 'Error: Subscriber failed\n    at invoke',
+        result
+      });
+    });
+
+    it('should notify about the moved file, and not fail the move if the report or notification fails', async () => {
+      const notify = jest.fn().mockRejectedValue(new Error('Topic not found'));
+      bucket = new Bucket({ name: 'test-bucket', subdirectories: [] }, { send } as unknown as S3Client, policy, { notify });
+      send
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(awsError('AccessDenied', 403));
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(bucket.moveToErrors('person-full/data.json', 'person-full', 'bad')).resolves.toBe(true);
+
+      expect(notify).toHaveBeenCalledWith(
+        expect.objectContaining({ originalKey: 'person-full/data.json', reason: 'bad' }),
+        expect.stringMatching(/^person-full\/errors\/.*-data\.json\.error\.json$/)
+      );
+      errorSpy.mockRestore();
+    });
+  });
+});
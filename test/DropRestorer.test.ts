@@ -0,0 +1,150 @@
+import { BucketConfig } from '../context/IContext';
+import { IBucket } from '../src/event-processor/Bucket';
+import { DropRestorer } from '../src/event-processor/DropRestorer';
+import { createSubscriber } from '../src/event-processor/Subscriber';
+
+jest.mock('../src/event-processor/Subscriber', () => ({
+  createSubscriber: jest.fn()
+}));
+
+const MockedSubscriber = createSubscriber as jest.MockedFunction<typeof createSubscriber>;
+
+describe('DropRestorer', () => {
+  const key = 'person-full/2026-02-22T10:30:00.000Z-data.json';
+
+  let mockBucket: jest.Mocked<IBucket>;
+  let bucketConfig: BucketConfig;
+  let notify: jest.Mock;
+  let restorer: DropRestorer;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+
+    bucketConfig = {
+      name: 'test-bucket',
+      subdirectories: [
+        {
+          path: 'person-full',
+          objectLifetimeDays: 365,
+          transitions: [{ storageClass: 'DEEP_ARCHIVE', afterDays: 30 }],
+          subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber-full',
+          subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role',
+          subscribers: [{ type: 'sqs', queueArn: 'arn:aws:sqs:us-east-2:123456789012:person-full' }]
+        }
+      ]
+    };
+
+    mockBucket = {
+      getConfig: jest.fn().mockReturnValue(bucketConfig),
+      getName: jest.fn().mockReturnValue('test-bucket'),
+      readObject: jest.fn(),
+      getObjectStream: jest.fn(),
+      getObjectInfo: jest.fn().mockResolvedValue({ size: 1024, metadata: {}, storageClass: 'DEEP_ARCHIVE' }),
+      objectExists: jest.fn(),
+      listObjects: jest.fn(),
+      writeObject: jest.fn(),
+      deleteObject: jest.fn(),
+      renameObject: jest.fn(),
+      moveToErrors: jest.fn(),
+      getTags: jest.fn().mockResolvedValue({ 'correlation-id': 'req-123' }),
+      putTags: jest.fn().mockResolvedValue(undefined),
+      restoreObject: jest.fn().mockResolvedValue(undefined)
+    };
+
+    notify = jest.fn().mockResolvedValue(undefined);
+    MockedSubscriber.mockReset();
+    MockedSubscriber.mockImplementation(() => ({ notify }));
+
+    restorer = new DropRestorer(mockBucket);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should start the restore of an archived drop without dispatching it yet', async () => {
+    const result = await restorer.restore({ key, days: 3, tier: 'Bulk' });
+
+    expect(result).toEqual({ key, status: 'restore-requested', storageClass: 'DEEP_ARCHIVE' });
+    expect(mockBucket.restoreObject).toHaveBeenCalledWith(key, 3, 'Bulk');
+    expect(mockBucket.putTags).toHaveBeenCalledWith(key, { 'correlation-id': 'req-123', 'redispatch-on-restore': 'true' });
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('should not restore a drop twice', async () => {
+    mockBucket.getObjectInfo.mockResolvedValue({ size: 1024, metadata: {}, storageClass: 'DEEP_ARCHIVE', restore: 'ongoing' });
+
+    const result = await restorer.restore({ key });
+
+    expect(result.status).toBe('restore-in-progress');
+    expect(mockBucket.restoreObject).not.toHaveBeenCalled();
+    expect(mockBucket.putTags).toHaveBeenCalledWith(key, expect.objectContaining({ 'redispatch-on-restore': 'true' }));
+  });
+
+  it('should re-dispatch a drop that is readable to every subscriber, with its correlation id', async () => {
+    mockBucket.getObjectInfo.mockResolvedValue({ size: 1024, metadata: {}, storageClass: 'GLACIER_IR' });
+
+    const result = await restorer.restore({ key });
+
+    expect(result.status).toBe('dispatched');
+    expect(result.subscribers).toEqual([
+      { target: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber-full', invoked: true, attempts: 1 },
+      { target: 'arn:aws:sqs:us-east-2:123456789012:person-full', invoked: true, attempts: 1 }
+    ]);
+    expect(notify).toHaveBeenCalledWith(mockBucket, key, undefined, 'req-123');
+    expect(mockBucket.restoreObject).not.toHaveBeenCalled();
+  });
+
+  it('should re-dispatch a drop whose requested restore completed, removing the request tag', async () => {
+    mockBucket.getTags.mockResolvedValue({ 'correlation-id': 'req-123', 'redispatch-on-restore': 'true' });
+
+    const result = await restorer.redispatch(key);
+
+    expect(result.status).toBe('dispatched');
+    expect(notify).toHaveBeenCalledTimes(2);
+    expect(mockBucket.putTags).toHaveBeenCalledWith(key, { 'correlation-id': 'req-123' });
+  });
+
+  it('should not re-dispatch drops restored without a request, or files in errors folders', async () => {
+    expect(await restorer.redispatch(key)).toEqual(expect.objectContaining({ status: 'skipped' }));
+    expect(await restorer.redispatch('person-full/errors/2026-02-22T10:30:00.000Z-data.json')).toEqual(expect.objectContaining({ status: 'skipped' }));
+    expect(notify).not.toHaveBeenCalled();
+    expect(mockBucket.putTags).not.toHaveBeenCalled();
+  });
+
+  it('should refuse drops of subdirectories using the manifest protocol', async () => {
+    bucketConfig.subdirectories[0].manifest = { timeoutMinutes: 60 };
+
+    const result = await restorer.restore({ key });
+
+    expect(result.status).toBe('failed');
+    expect(result.reason).toContain('Multi-part drops');
+    expect(mockBucket.restoreObject).not.toHaveBeenCalled();
+  });
+
+  it('should report subscribers that could not be notified', async () => {
+    mockBucket.getTags.mockResolvedValue({ 'correlation-id': 'req-123', 'redispatch-on-restore': 'true' });
+    notify.mockRejectedValueOnce(new Error('Function not found'));
+
+    const result = await restorer.redispatch(key);
+
+    expect(result.status).toBe('failed');
+    expect(result.reason).toBe('Re-dispatch failed for 1 of 2 subscribers');
+    expect(result.subscribers![0]).toEqual(expect.objectContaining({ invoked: false, error: 'Error: Function not found' }));
+  });
+
+  it('should refuse keys outside the configured subdirectories and their errors folders', async () => {
+    expect((await restorer.restore({ key: 'elsewhere/data.json' })).status).toBe('failed');
+    expect((await restorer.restore({ key: 'person-full/errors/data.json' })).status).toBe('failed');
+    expect(mockBucket.getObjectInfo).not.toHaveBeenCalled();
+  });
+
+  it('should report a drop that cannot be found', async () => {
+    mockBucket.getObjectInfo.mockRejectedValue(Object.assign(new Error('Not Found'), { name: 'NotFound' }));
+
+    const result = await restorer.restore({ key });
+
+    expect(result).toEqual({ key, status: 'failed', reason: 'NotFound: Not Found' });
+  });
+});
@@ -0,0 +1,165 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { DropStatusApi, DropStatusResponse, getDropState } from '../src/event-processor/DropStatus';
+import { InMemoryProcessingLedger, IProcessingLedger, ProcessingRecord } from '../src/event-processor/ProcessingLedger';
+
+const createRecord = (overrides: Partial<ProcessingRecord> = {}): ProcessingRecord => ({
+  success: true,
+  action: 'renamed',
+  reason: 'File renamed and subscriber invoked',
+  originalKey: 'person-full/data.json',
+  subdirectory: 'person-full',
+  requestId: 'req-123',
+  newKey: 'person-full/2026-02-22T10:30:00.000Z-data.json',
+  bucket: 'test-bucket',
+  size: 1024,
+  eTag: 'abc123',
+  sequencer: '0A1B2C3D4E5F678901',
+  eventTime: '2026-02-22T10:30:00.000Z',
+  processedAt: '2026-02-22T10:30:01.000Z',
+  ...overrides
+});
+
+const createEvent = (queryStringParameters: Record<string, string> | null, userArn?: string): APIGatewayProxyEvent =>
+  ({ httpMethod: 'GET', path: '/status', queryStringParameters, requestContext: { identity: { userArn } } } as unknown as APIGatewayProxyEvent);
+
+describe('DropStatus', () => {
+  describe('getDropState', () => {
+    it('should map processing actions to the state seen by the uploader', () => {
+      expect(getDropState(createRecord())).toBe('delivered');
+      expect(getDropState(createRecord({ action: 'assembled' }))).toBe('delivered');
+      expect(getDropState(createRecord({ action: 'held-for-manifest', newKey: undefined }))).toBe('held');
+      expect(getDropState(createRecord({ action: 'partial-invoke', success: false }))).toBe('partially-delivered');
+      expect(getDropState(createRecord({ action: 'skipped-duplicate' }))).toBe('duplicate');
+      expect(getDropState(createRecord({ action: 'skipped-no-match', newKey: undefined }))).toBe('ignored');
+      expect(getDropState(createRecord({ action: 'error-validation', success: false, newKey: undefined, movedToErrors: true }))).toBe('failed');
+      expect(getDropState(createRecord({ action: 'error-invoke', success: false }))).toBe('failed');
+    });
+
+    it('should report a failure that left the file in place as retrying', () => {
+      expect(getDropState(createRecord({ action: 'error-rename', success: false, newKey: undefined }))).toBe('retrying');
+    });
+  });
+
+  describe('DropStatusApi', () => {
+    let ledger: InMemoryProcessingLedger;
+    let api: DropStatusApi;
+
+    beforeEach(async () => {
+      ledger = new InMemoryProcessingLedger();
+      api = new DropStatusApi(ledger);
+    });
+
+    it('should return the latest state of each file of a drop by requestId', async () => {
+      await ledger.record(createRecord({ originalKey: 'person-full/batch/part-1.json', action: 'held-for-manifest', newKey: undefined }));
+      await ledger.record(createRecord({
+        originalKey: 'person-full/batch/_manifest.json',
+        action: 'assembled',
+        newKey: 'person-full/batch/2026-02-22T10:31:00.000Z-_manifest.json',
+        eventTime: '2026-02-22T10:31:00.000Z'
+      }));
+      await ledger.record(createRecord({ requestId: 'req-456', originalKey: 'person-full/other.json' }));
+
+      const response = await api.handle(createEvent({ requestId: 'req-123' }));
+
+      expect(response.statusCode).toBe(200);
+      const body: DropStatusResponse = JSON.parse(response.body);
+      expect(body.requestId).toBe('req-123');
+      expect(body.files.map(file => [file.originalKey, file.state])).toEqual([
+        ['person-full/batch/part-1.json', 'held'],
+        ['person-full/batch/_manifest.json', 'delivered']
+      ]);
+    });
+
+    it('should find a file by its uploaded key and count how often it was processed', async () => {
+      await ledger.record(createRecord({ action: 'error-rename', success: false, newKey: undefined }));
+      await ledger.record(createRecord({ eventTime: '2026-02-22T10:30:05.000Z', sequencer: '0A1B2C3D4E5F679999' }));
+
+      const response = await api.handle(createEvent({ key: 'person-full/data.json' }));
+
+      expect(response.statusCode).toBe(200);
+      const body: DropStatusResponse = JSON.parse(response.body);
+      expect(body.key).toBe('person-full/data.json');
+      expect(body.files).toHaveLength(1);
+      expect(body.files[0]).toEqual(expect.objectContaining({
+        state: 'delivered',
+        newKey: 'person-full/2026-02-22T10:30:00.000Z-data.json',
+        processingCount: 2
+      }));
+    });
+
+    it('should respond 404 when nothing is recorded yet', async () => {
+      const response = await api.handle(createEvent({ requestId: 'req-unknown' }));
+
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body).message).toContain('req-unknown');
+    });
+
+    it('should respond 400 unless exactly one lookup parameter is given', async () => {
+      expect((await api.handle(createEvent(null))).statusCode).toBe(400);
+      expect((await api.handle(createEvent({ requestId: 'req-123', key: 'person-full/data.json' }))).statusCode).toBe(400);
+    });
+
+    it('should respond 500 when the ledger cannot be queried', async () => {
+      const failingLedger = {
+        findByRequestId: jest.fn().mockRejectedValue(new Error('Throttled'))
+      } as unknown as IProcessingLedger;
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const response = await new DropStatusApi(failingLedger).handle(createEvent({ requestId: 'req-123' }));
+
+      expect(response.statusCode).toBe(500);
+    });
+
+    describe('with named uploaders', () => {
+      const uploaders = [
+        { name: 'hr-system', subdirectories: ['person-full'], userName: 'test-stack-hr-system-service-user-test' },
+        { name: 'partner', subdirectories: ['person-delta'], roleName: 'test-stack-partner-uploader-role-test' }
+      ];
+
+      beforeEach(async () => {
+        api = new DropStatusApi(ledger, uploaders);
+        await ledger.record(createRecord());
+        await ledger.record(createRecord({
+          originalKey: 'person-delta/data.json',
+          subdirectory: 'person-delta',
+          newKey: 'person-delta/2026-02-22T10:30:00.000Z-data.json'
+        }));
+      });
+
+      it('should only return the files of the subdirectories the calling user may upload to', async () => {
+        const response = await api.handle(createEvent({ requestId: 'req-123' }, 'arn:aws:iam::123456789012:user/test-stack-hr-system-service-user-test'));
+
+        expect(response.statusCode).toBe(200);
+        const body: DropStatusResponse = JSON.parse(response.body);
+        expect(body.files.map(file => file.originalKey)).toEqual(['person-full/data.json']);
+      });
+
+      it('should identify sessions of an uploader role', async () => {
+        const response = await api.handle(createEvent(
+          { requestId: 'req-123' },
+          'arn:aws:sts::123456789012:assumed-role/test-stack-partner-uploader-role-test/partner-session'
+        ));
+
+        const body: DropStatusResponse = JSON.parse(response.body);
+        expect(body.files.map(file => file.originalKey)).toEqual(['person-delta/data.json']);
+      });
+
+      it('should respond 404 for files of other uploaders', async () => {
+        const response = await api.handle(createEvent(
+          { key: 'person-delta/data.json' },
+          'arn:aws:iam::123456789012:user/test-stack-hr-system-service-user-test'
+        ));
+
+        expect(response.statusCode).toBe(404);
+      });
+
+      it('should respond 403 to callers that are not named uploaders', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const response = await api.handle(createEvent({ requestId: 'req-123' }, 'arn:aws:iam::123456789012:user/administrator'));
+
+        expect(response.statusCode).toBe(403);
+      });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { EnvelopeParseError, EnvelopeReader } from '../src/event-processor/EnvelopeReader';
+import { SchemaValidator } from '../src/event-processor/Validator';
+
+describe('EnvelopeReader', () => {
+  /**
+   * Helper to turn a string into a stream of chunks of the given size
+   */
+  async function* chunked(text: string, chunkSize: number): AsyncIterable<Uint8Array> {
+    const buffer = Buffer.from(text, 'utf8');
+    for (let i = 0; i < buffer.length; i += chunkSize) {
+      yield buffer.subarray(i, i + chunkSize);
+    }
+  }
+
+  const envelope = {
+    requestId: 'req-123',
+    timestamp: '2026-02-22T10:00:00.000Z',
+    recordCount: 3,
+    rawData: [
+      { personid: 'U1', names: [{ firstName: 'Zoë', lastName: 'O"Brien' }] },
+      { personid: 'U2', tags: ['a', '}', ']'] },
+      { personid: 'U3', active: true, score: -1.5e3, manager: null }
+    ]
+  };
+
+  const read = async (text: string, chunkSize: number) => {
+    const fields: Record<string, unknown> = {};
+    const records: unknown[] = [];
+    const reader = new EnvelopeReader({
+      onField: (name, value) => { fields[name] = value; },
+      onRecord: record => { records.push(record); }
+    });
+    const count = await reader.read(chunked(text, chunkSize));
+    return { count, fields, records };
+  };
+
+  describe('Well-formed envelopes', () => {
+    [1, 2, 7, 64, 100000].forEach(chunkSize => {
+      it(`should yield every record and field with chunk size ${chunkSize}`, async () => {
+        const { count, fields, records } = await read(JSON.stringify(envelope, null, 2), chunkSize);
+
+        expect(count).toBe(3);
+        expect(records).toEqual(envelope.rawData);
+        expect(fields).toEqual({
+          requestId: 'req-123',
+          timestamp: '2026-02-22T10:00:00.000Z',
+          recordCount: 3
+        });
+      });
+    });
+
+    it('should handle an empty rawData array and an empty envelope', async () => {
+      expect((await read('{ "rawData": [ ] }', 3)).count).toBe(0);
+      expect((await read('{}', 1)).count).toBe(0);
+    });
+
+    it('should report rawData as a field when it is not an array', async () => {
+      const { count, fields } = await read('{"rawData": "oops"}', 4);
+
+      expect(count).toBe(0);
+      expect(fields.rawData).toBe('oops');
+    });
+  });
+
+  describe('Malformed input', () => {
+    const expectParseError = async (text: string, expected: Partial<EnvelopeParseError>) => {
+      const promise = read(text, 5);
+      await expect(promise).rejects.toBeInstanceOf(EnvelopeParseError);
+      await expect(promise).rejects.toMatchObject(expected);
+    };
+
+    it('should report the byte offset and record index of a malformed record', async () => {
+      const text = '{"rawData":[{"personid":"U1"},{"personid":U2}]}';
+
+      await expectParseError(text, {
+        byteOffset: text.indexOf('{"personid":U2'),
+        recordIndex: 1
+      });
+    });
+
+    it('should report truncated files with the index of the incomplete record', async () => {
+      const text = '{"rawData":[{"personid":"U1"},{"personid":"U2"';
+
+      await expectParseError(text, { recordIndex: 1 });
+    });
+
+    it('should count byte offsets in bytes rather than characters', async () => {
+      const text = '{"note":"ééé","rawData":[{"personid":"U1"} {"personid":"U2"}]}';
+
+      await expectParseError(text, {
+        byteOffset: Buffer.byteLength(text.substring(0, text.indexOf(' {"personid":"U2"'))) + 1,
+        recordIndex: 0
+      });
+    });
+
+    it('should reject documents that are not an object envelope', async () => {
+      await expectParseError('[{"personid":"U1"}]', { byteOffset: 0 });
+    });
+
+    it('should reject trailing commas and trailing data', async () => {
+      await expectParseError('{"rawData":[{"personid":"U1"},]}', { recordIndex: 1 });
+      await expectParseError('{"rawData":[]} extra', { byteOffset: 15 });
+    });
+  });
+
+  describe('SchemaValidator.validateStream', () => {
+    const validator = new SchemaValidator('person-envelope');
+
+    it('should accept a conforming envelope and count its records', async () => {
+      const result = await validator.validateStream(chunked(JSON.stringify(envelope), 16));
+
+      expect(result).toEqual({ valid: true, recordCount: 3, requestId: 'req-123' });
+    });
+
+    it('should report invalid records by index', async () => {
+      const text = JSON.stringify({
+        rawData: [{ personid: 'U1' }, { name: 'no id' }, { personid: 42 }]
+      });
+
+      const result = await validator.validateStream(chunked(text, 16));
+
+      expect(result.valid).toBe(false);
+      expect(result.recordCount).toBe(3);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        "/rawData/1 must have required property 'personid'",
+        '/rawData/2/personid must be string',
+        '2 of 3 records are invalid'
+      ]));
+    });
+
+    it('should report envelope violations and a missing rawData array', async () => {
+      const result = await validator.validateStream(chunked('{"requestId": 7}', 16));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        "/ must have required property 'rawData'",
+        '/requestId must be string'
+      ]));
+    });
+
+    it('should report a recordCount that does not match the records received', async () => {
+      const text = JSON.stringify({ recordCount: 5, rawData: [{ personid: 'U1' }] });
+
+      const result = await validator.validateStream(chunked(text, 16));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('recordCount declares 5 records but rawData contains 1');
+    });
+
+    it('should report parse failures with byte offset and record index', async () => {
+      const text = '{"rawData":[{"personid":"U1"},{"personid":"U2",}]}';
+
+      const result = await validator.validateStream(chunked(text, 16));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors![0]).toMatch(/Malformed JSON: .* \(at byte offset 30, record index 1\)$/);
+    });
+  });
+
+  describe('SchemaValidator.validate', () => {
+    const validator = new SchemaValidator('person-envelope');
+
+    it('should report a recordCount that does not match the records of a small file', () => {
+      const result = validator.validate(JSON.stringify({ recordCount: 5, rawData: [{ personid: 'U1' }] }));
+
+      expect(result.valid).toBe(false);
+      expect(result.recordCount).toBe(1);
+      expect(result.errors).toEqual(['recordCount declares 5 records but rawData contains 1']);
+    });
+  });
+});
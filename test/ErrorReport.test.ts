@@ -0,0 +1,45 @@
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { ErrorReport, SnsErrorNotifier, getReportKey } from '../src/event-processor/ErrorReport';
+
+describe('SnsErrorNotifier', () => {
+  const topicArn = 'arn:aws:sns:us-east-2:123456789012:file-drop-alarms';
+  const report: ErrorReport = {
+    bucket: 'test-bucket',
+    originalKey: 'person-full/data.json',
+    errorKey: 'person-full/errors/2026-02-22T10:30:00.000Z-data.json',
+    subdirectory: 'person-full',
+    reason: 'File failed validation against schema "person-envelope": /rawData/0 must have required property \'personid\'',
+    movedAt: '2026-02-22T10:30:00.000Z',
+    correlationId: 'req-123',
+    result: { success: false, action: 'error-validation', originalKey: 'person-full/data.json' }
+  };
+
+  it('should publish a summary of the failure linking to the report', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const notifier = new SnsErrorNotifier(topicArn, { send } as unknown as SNSClient);
+    const reportKey = getReportKey(report.errorKey);
+
+    await notifier.notify(report, reportKey);
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PublishCommand);
+    expect(command.input.TopicArn).toBe(topicArn);
+    expect(command.input.Subject).toBe('File moved to errors: person-full/data.json');
+    expect(command.input.Message).toContain(report.reason);
+    expect(command.input.Message).toContain('Correlation id: req-123');
+    expect(command.input.Message).toContain('Action:         error-validation');
+    expect(command.input.Message).toContain('Full report: s3://test-bucket/person-full/errors/2026-02-22T10:30:00.000Z-data.json.error.json');
+    expect(command.input.Message).toContain(
+      'https://s3.console.aws.amazon.com/s3/object/test-bucket?prefix=person-full%2Ferrors%2F2026-02-22T10%3A30%3A00.000Z-data.json.error.json'
+    );
+  });
+
+  it('should keep the subject within the SNS limit of 100 characters', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const notifier = new SnsErrorNotifier(topicArn, { send } as unknown as SNSClient);
+
+    await notifier.notify({ ...report, originalKey: `person-full/${'x'.repeat(200)}.json` }, 'report.json');
+
+    expect(send.mock.calls[0][0].input.Subject).toHaveLength(100);
+  });
+});
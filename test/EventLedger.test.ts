@@ -0,0 +1,63 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { S3EventRecord } from 'aws-lambda';
+import { DynamoDbEventLedger, getEventKey } from '../src/event-processor/EventLedger';
+
+describe('EventLedger', () => {
+  describe('getEventKey', () => {
+    const recordFor = (object: { sequencer?: string, eTag: string }) => ({
+      s3: { bucket: { name: 'test-bucket' }, object: { key: 'person-full/data.json', size: 1, ...object } }
+    }) as unknown as S3EventRecord;
+
+    it('should key events on bucket, key and sequencer', () => {
+      expect(getEventKey(recordFor({ sequencer: '0055AED6DCD90281E5', eTag: 'abc' })))
+        .toBe('test-bucket/person-full/data.json#0055AED6DCD90281E5');
+    });
+
+    it('should fall back to the eTag when there is no sequencer', () => {
+      expect(getEventKey(recordFor({ eTag: 'abc' }))).toBe('test-bucket/person-full/data.json#abc');
+    });
+  });
+
+  describe('DynamoDbEventLedger', () => {
+    const entry = {
+      eventKey: 'test-bucket/person-full/data.json#123ABC',
+      eventName: 'ObjectCreated:Put',
+      receivedAt: '2026-02-22T10:30:00.000Z'
+    };
+
+    let send: jest.Mock;
+    let ledger: DynamoDbEventLedger;
+
+    beforeEach(() => {
+      send = jest.fn();
+      ledger = new DynamoDbEventLedger('event-ledger', { send } as unknown as DynamoDBDocumentClient);
+    });
+
+    it('should claim a new event with a conditional put that expires after a week', async () => {
+      send.mockResolvedValue({});
+
+      await expect(ledger.claim(entry)).resolves.toBe(true);
+
+      const command = send.mock.calls[0][0];
+      expect(command).toBeInstanceOf(PutCommand);
+      expect(command.input).toEqual({
+        TableName: 'event-ledger',
+        Item: { ...entry, expiresAt: Date.parse('2026-03-01T10:30:00.000Z') / 1000 },
+        ConditionExpression: 'attribute_not_exists(eventKey)'
+      });
+    });
+
+    it('should report a redelivery when the condition fails', async () => {
+      send.mockRejectedValue(new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} }));
+
+      await expect(ledger.claim(entry)).resolves.toBe(false);
+    });
+
+    it('should propagate other DynamoDB errors', async () => {
+      send.mockRejectedValue(new Error('Throttled'));
+
+      await expect(ledger.claim(entry)).rejects.toThrow('Throttled');
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { ExpectedDropApi } from '../src/event-processor/ExpectedDropApi';
+import { DynamoDbExpectedDropRegistry, InMemoryExpectedDropRegistry } from '../src/event-processor/ExpectedDrops';
+
+describe('ExpectedDrops', () => {
+  const registration = {
+    subdirectory: 'person-full',
+    requestId: 'req-123',
+    deadline: '2026-02-22T12:00:00.000Z',
+    registeredAt: '2026-02-22T10:00:00.000Z'
+  };
+
+  describe('InMemoryExpectedDropRegistry', () => {
+    let registry: InMemoryExpectedDropRegistry;
+
+    beforeEach(async () => {
+      registry = new InMemoryExpectedDropRegistry();
+      await registry.register(registration);
+    });
+
+    it('should refuse to register the same requestId twice in a subdirectory', async () => {
+      expect(await registry.register(registration)).toBe(false);
+      expect(await registry.register({ ...registration, subdirectory: 'person-delta' })).toBe(true);
+    });
+
+    it('should find pending registrations past their deadline only', async () => {
+      expect(await registry.findOverdue(new Date('2026-02-22T11:59:59.999Z'))).toEqual([]);
+      expect(await registry.findOverdue(new Date('2026-02-22T12:00:00.001Z'))).toEqual([{ ...registration, status: 'pending' }]);
+    });
+
+    it('should let a late drop fulfil an overdue registration, once', async () => {
+      expect(await registry.markOverdue('person-full', 'req-123', '2026-02-22T12:05:00.000Z')).toBe(true);
+      expect(await registry.fulfil('person-full', 'req-123', 'person-full/late.json', '2026-02-22T13:00:00.000Z')).toBe(true);
+      expect(await registry.fulfil('person-full', 'req-123', 'person-full/again.json', '2026-02-22T14:00:00.000Z')).toBe(false);
+
+      expect(await registry.get('person-full', 'req-123')).toEqual({
+        ...registration,
+        status: 'fulfilled',
+        overdueAt: '2026-02-22T12:05:00.000Z',
+        fulfilledAt: '2026-02-22T13:00:00.000Z',
+        fulfilledBy: 'person-full/late.json'
+      });
+    });
+
+    it('should not mark a fulfilled registration overdue', async () => {
+      await registry.fulfil('person-full', 'req-123', 'person-full/data.json', '2026-02-22T11:00:00.000Z');
+
+      expect(await registry.markOverdue('person-full', 'req-123', '2026-02-22T12:05:00.000Z')).toBe(false);
+    });
+  });
+
+  describe('DynamoDbExpectedDropRegistry', () => {
+    let send: jest.Mock;
+    let registry: DynamoDbExpectedDropRegistry;
+
+    beforeEach(() => {
+      send = jest.fn();
+      registry = new DynamoDbExpectedDropRegistry('expected-drops', { send } as unknown as DynamoDBDocumentClient);
+    });
+
+    it('should register with a conditional put that expires 30 days after the deadline', async () => {
+      send.mockResolvedValue({});
+
+      expect(await registry.register(registration)).toBe(true);
+
+      const command = send.mock.calls[0][0];
+      expect(command).toBeInstanceOf(PutCommand);
+      expect(command.input).toEqual({
+        TableName: 'expected-drops',
+        Item: {
+          dropKey: 'person-full#req-123',
+          ...registration,
+          status: 'pending',
+          expiresAt: Date.parse('2026-03-24T12:00:00.000Z') / 1000
+        },
+        ConditionExpression: 'attribute_not_exists(dropKey)'
+      });
+    });
+
+    it('should report conditional failures as false and propagate other errors', async () => {
+      send.mockRejectedValueOnce(new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} }));
+      expect(await registry.fulfil('person-full', 'req-123', 'person-full/data.json', '2026-02-22T11:00:00.000Z')).toBe(false);
+      expect(send.mock.calls[0][0]).toBeInstanceOf(UpdateCommand);
+
+      send.mockRejectedValueOnce(new Error('Throttled'));
+      await expect(registry.markOverdue('person-full', 'req-123', '2026-02-22T12:05:00.000Z')).rejects.toThrow('Throttled');
+    });
+
+    it('should query the status index for overdue registrations, following pagination', async () => {
+      send
+        .mockResolvedValueOnce({ Items: [{ dropKey: 'person-full#req-123', expiresAt: 0, ...registration, status: 'pending' }], LastEvaluatedKey: { dropKey: 'x' } })
+        .mockResolvedValueOnce({ Items: [] });
+
+      const overdue = await registry.findOverdue(new Date('2026-02-22T13:00:00.000Z'));
+
+      expect(overdue).toEqual([{ ...registration, status: 'pending' }]);
+      const command = send.mock.calls[0][0];
+      expect(command).toBeInstanceOf(QueryCommand);
+      expect(command.input).toEqual(expect.objectContaining({
+        IndexName: DynamoDbExpectedDropRegistry.STATUS_INDEX,
+        ExpressionAttributeValues: { ':pending': 'pending', ':now': '2026-02-22T13:00:00.000Z' }
+      }));
+      expect(send.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ dropKey: 'x' });
+    });
+
+    it('should read registrations back without the table attributes, and reject malformed items', async () => {
+      send
+        .mockResolvedValueOnce({ Item: { dropKey: 'person-full#req-123', expiresAt: 0, ...registration, status: 'fulfilled', fulfilledBy: 'person-full/data.json' } })
+        .mockResolvedValueOnce({ Item: { dropKey: 'person-full#req-123', ...registration, status: 'unknown' } })
+        .mockResolvedValueOnce({ Item: { dropKey: 'person-full#req-123', ...registration, deadline: 1771761600 } });
+
+      expect(JSON.parse(JSON.stringify(await registry.get('person-full', 'req-123'))))
+        .toEqual({ ...registration, status: 'fulfilled', fulfilledBy: 'person-full/data.json' });
+      await expect(registry.get('person-full', 'req-123')).rejects.toThrow('unknown status');
+      await expect(registry.get('person-full', 'req-123')).rejects.toThrow('needs string subdirectory, requestId, deadline and registeredAt attributes');
+    });
+  });
+
+  describe('ExpectedDropApi', () => {
+    const now = new Date('2026-02-22T10:00:00.000Z');
+    let registry: InMemoryExpectedDropRegistry;
+    let api: ExpectedDropApi;
+
+    const post = (body: object | string, userArn?: string) => api.handle({
+      httpMethod: 'POST',
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+      requestContext: { identity: { userArn } }
+    } as unknown as APIGatewayProxyEvent);
+
+    const get = (queryStringParameters: Record<string, string>, userArn?: string) => api.handle({
+      httpMethod: 'GET',
+      queryStringParameters,
+      requestContext: { identity: { userArn } }
+    } as unknown as APIGatewayProxyEvent);
+
+    beforeEach(() => {
+      registry = new InMemoryExpectedDropRegistry();
+      api = new ExpectedDropApi(registry, ['person-full', 'person-delta'], [], () => now);
+    });
+
+    it('should register an expected drop and return it', async () => {
+      const response = await post({ subdirectory: 'person-full', requestId: 'req-123', deadline: '2026-02-22T12:00:00Z' });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body)).toEqual({ ...registration, status: 'pending' });
+      expect(await registry.get('person-full', 'req-123')).toBeDefined();
+    });
+
+    it('should respond 409 when the drop is already registered', async () => {
+      await post({ subdirectory: 'person-full', requestId: 'req-123', deadline: '2026-02-22T12:00:00Z' });
+
+      const response = await post({ subdirectory: 'person-full', requestId: 'req-123', deadline: '2026-02-22T13:00:00Z' });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should reject invalid registrations', async () => {
+      const cases = [
+        'not json',
+        'null',
+        '["person-full", "req-123"]',
+        { subdirectory: 'unknown', requestId: 'req-123', deadline: '2026-02-22T12:00:00Z' },
+        { subdirectory: 'person-full', requestId: '', deadline: '2026-02-22T12:00:00Z' },
+        { subdirectory: 'person-full', requestId: 'req-123', deadline: 'tomorrow-ish' },
+        { subdirectory: 'person-full', requestId: 'req-123', deadline: '2026-02-22T09:00:00Z' }
+      ];
+
+      for (const body of cases) {
+        expect((await post(body)).statusCode).toBe(400);
+      }
+    });
+
+    it('should look a registration up by subdirectory and requestId', async () => {
+      await post({ subdirectory: 'person-full', requestId: 'req-123', deadline: '2026-02-22T12:00:00Z' });
+
+      const found = await get({ subdirectory: 'person-full', requestId: 'req-123' });
+      const missing = await get({ subdirectory: 'person-delta', requestId: 'req-123' });
+
+      expect(found.statusCode).toBe(200);
+      expect(JSON.parse(found.body).status).toBe('pending');
+      expect(missing.statusCode).toBe(404);
+      expect((await get({ subdirectory: 'person-full' })).statusCode).toBe(400);
+    });
+
+    describe('with named uploaders', () => {
+      const hrSystem = 'arn:aws:iam::123456789012:user/test-stack-hr-system-service-user-test';
+      const partner = 'arn:aws:sts::123456789012:assumed-role/test-stack-partner-uploader-role-test/partner-session';
+
+      beforeEach(() => {
+        api = new ExpectedDropApi(registry, ['person-full', 'person-delta'], [
+          { name: 'hr-system', subdirectories: ['person-full'], userName: 'test-stack-hr-system-service-user-test' },
+          { name: 'partner', subdirectories: ['person-delta'], roleName: 'test-stack-partner-uploader-role-test' }
+        ], () => now);
+      });
+
+      it('should only register drops in the subdirectories the caller may upload to', async () => {
+        const own = await post({ subdirectory: 'person-delta', requestId: 'req-123', deadline: '2026-02-22T12:00:00Z' }, partner);
+        const other = await post({ subdirectory: 'person-full', requestId: 'req-123', deadline: '2026-02-22T12:00:00Z' }, partner);
+
+        expect(own.statusCode).toBe(201);
+        expect(other.statusCode).toBe(400);
+        expect(JSON.parse(other.body).message).toBe('subdirectory must be one of: person-delta');
+        expect(await registry.get('person-full', 'req-123')).toBeUndefined();
+      });
+
+      it('should respond 404 for drops expected by other uploaders', async () => {
+        await post({ subdirectory: 'person-full', requestId: 'req-123', deadline: '2026-02-22T12:00:00Z' }, hrSystem);
+
+        expect((await get({ subdirectory: 'person-full', requestId: 'req-123' }, hrSystem)).statusCode).toBe(200);
+        expect((await get({ subdirectory: 'person-full', requestId: 'req-123' }, partner)).statusCode).toBe(404);
+      });
+
+      it('should respond 403 to callers that are not named uploaders', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const response = await post(
+          { subdirectory: 'person-full', requestId: 'req-123', deadline: '2026-02-22T12:00:00Z' },
+          'arn:aws:iam::123456789012:user/administrator'
+        );
+
+        expect(response.statusCode).toBe(403);
+        expect(await registry.get('person-full', 'req-123')).toBeUndefined();
+      });
+    });
+  });
+});
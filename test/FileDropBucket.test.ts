@@ -1,5 +1,5 @@
 import { App, Stack } from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
+import { Match, Template } from 'aws-cdk-lib/assertions';
 import { BucketSubdirectory, IContext } from '../context/IContext';
 import { FileDropBucket } from '../lib/FileDropBucket';
 
@@ -86,7 +86,7 @@ describe('FileDropBucket', () => {
       new FileDropBucket(stack, 'TestBucket', { context: mockContext });
       const template = Template.fromStack(stack);
 
-      // Assert - Should have TWO lifecycle rules
+      // Assert - Should have THREE lifecycle rules: processed files, errors, and files never processed
       template.hasResourceProperties('AWS::S3::Bucket', {
         LifecycleConfiguration: {
           Rules: [
@@ -94,6 +94,7 @@ describe('FileDropBucket', () => {
               Id: 'expire-person-full',
               Status: 'Enabled',
               Prefix: 'person-full/',
+              TagFilters: [{ Key: 'drop-state', Value: 'processed' }],
               ExpirationInDays: 7
             },
             {
@@ -101,6 +102,12 @@ describe('FileDropBucket', () => {
               Status: 'Enabled',
               Prefix: 'person-full/errors/',
               ExpirationInDays: 14
+            },
+            {
+              Id: 'expire-person-full-unprocessed',
+              Status: 'Enabled',
+              Prefix: 'person-full/',
+              ExpirationInDays: 14
             }
           ]
         }
@@ -192,10 +199,11 @@ describe('FileDropBucket', () => {
       new FileDropBucket(stack, 'TestBucket', { context: mockContext });
       const template = Template.fromStack(stack);
 
-      // Assert - Should have THREE lifecycle rules total
-      // 1. person-full/ (7 days)
+      // Assert - Should have FOUR lifecycle rules total
+      // 1. processed files in person-full/ (7 days)
       // 2. person-full/errors/ (14 days)
-      // 3. person-delta/ (3 days)
+      // 3. files in person-full/ never processed (14 days)
+      // 4. person-delta/ (3 days)
       template.hasResourceProperties('AWS::S3::Bucket', {
         LifecycleConfiguration: {
           Rules: [
@@ -203,6 +211,7 @@ describe('FileDropBucket', () => {
               Id: 'expire-person-full',
               Status: 'Enabled',
               Prefix: 'person-full/',
+              TagFilters: [{ Key: 'drop-state', Value: 'processed' }],
               ExpirationInDays: 7
             },
             {
@@ -211,6 +220,12 @@ describe('FileDropBucket', () => {
               Prefix: 'person-full/errors/',
               ExpirationInDays: 14
             },
+            {
+              Id: 'expire-person-full-unprocessed',
+              Status: 'Enabled',
+              Prefix: 'person-full/',
+              ExpirationInDays: 14
+            },
             {
               Id: 'expire-person-delta',
               Status: 'Enabled',
@@ -222,7 +237,7 @@ describe('FileDropBucket', () => {
       });
     });
 
-    it('should apply more specific errors/ prefix rule before general subfolder rule', () => {
+    it('should keep the subfolder rule off errors/, since S3 applies the earliest expiration of overlapping rules', () => {
       // Arrange - This tests S3 lifecycle rule precedence behavior
       mockContext = createMockContext([
         {
@@ -239,8 +254,8 @@ describe('FileDropBucket', () => {
       const template = Template.fromStack(stack);
 
       // Assert
-      // Files in data/ should expire after 10 days
-      // Files in data/errors/ should expire after 30 days (more specific prefix wins)
+      // Processed files in data/ should expire after 10 days
+      // Files in data/errors/ should expire after 30 days (the subfolder rule only matches processed files)
       template.hasResourceProperties('AWS::S3::Bucket', {
         LifecycleConfiguration: {
           Rules: [
@@ -248,6 +263,7 @@ describe('FileDropBucket', () => {
               Id: 'expire-data',
               Status: 'Enabled',
               Prefix: 'data/',
+              TagFilters: [{ Key: 'drop-state', Value: 'processed' }],
               ExpirationInDays: 10
             },
             {
@@ -255,10 +271,192 @@ describe('FileDropBucket', () => {
               Status: 'Enabled',
               Prefix: 'data/errors/',
               ExpirationInDays: 30
+            },
+            {
+              Id: 'expire-data-unprocessed',
+              Status: 'Enabled',
+              Prefix: 'data/',
+              ExpirationInDays: 30
+            }
+          ]
+        }
+      });
+    });
+  });
+
+  describe('Storage Class Transitions', () => {
+    it('should transition objects to the configured storage classes before they expire', () => {
+      mockContext = createMockContext([
+        {
+          path: 'person-full',
+          objectLifetimeDays: 365,
+          transitions: [
+            { storageClass: 'STANDARD_IA', afterDays: 30 },
+            { storageClass: 'DEEP_ARCHIVE', afterDays: 90 }
+          ],
+          subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber',
+          subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role'
+        }
+      ]);
+
+      new FileDropBucket(stack, 'TestBucket', { context: mockContext });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        LifecycleConfiguration: {
+          Rules: [
+            {
+              Id: 'expire-person-full',
+              Status: 'Enabled',
+              Prefix: 'person-full/',
+              TagFilters: [{ Key: 'drop-state', Value: 'processed' }],
+              ExpirationInDays: 365,
+              Transitions: [
+                { StorageClass: 'STANDARD_IA', TransitionInDays: 30 },
+                { StorageClass: 'DEEP_ARCHIVE', TransitionInDays: 90 }
+              ]
+            },
+            {
+              Id: 'expire-person-full-unprocessed',
+              Status: 'Enabled',
+              Prefix: 'person-full/',
+              ExpirationInDays: 365
             }
           ]
         }
       });
     });
+
+    it('should not transition files in errors/, which keep their own rule', () => {
+      mockContext = createMockContext([
+        {
+          path: 'person-full',
+          objectLifetimeDays: 365,
+          errorObjectLifetimeDays: 30,
+          transitions: [{ storageClass: 'GLACIER', afterDays: 60 }],
+          subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber',
+          subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role'
+        }
+      ]);
+
+      new FileDropBucket(stack, 'TestBucket', { context: mockContext });
+      const rules = Object.values(Template.fromStack(stack).findResources('AWS::S3::Bucket'))[0].Properties.LifecycleConfiguration.Rules;
+
+      // Only the rule scoped to processed files by tag transitions, and no rule without a tag filter matches errors/ earlier
+      const matchingErrors = rules.filter((rule: any) => 'person-full/errors/x.json'.startsWith(rule.Prefix) && !rule.TagFilters);
+      expect(matchingErrors.every((rule: any) => !rule.Transitions && rule.ExpirationInDays >= 30)).toBe(true);
+      expect(matchingErrors.map((rule: any) => rule.Id)).toEqual(['expire-person-full-errors', 'expire-person-full-unprocessed']);
+      expect(rules.filter((rule: any) => rule.Transitions).map((rule: any) => rule.TagFilters)).toEqual([[{ Key: 'drop-state', Value: 'processed' }]]);
+    });
+
+    it('should reject transitions S3 would not accept', () => {
+      const transitionAfter = (storageClass: 'STANDARD_IA' | 'GLACIER', afterDays: number) => () => new FileDropBucket(new Stack(new App(), 'Other'), 'TestBucket', {
+        context: createMockContext([{ path: 'person-full', objectLifetimeDays: 60, transitions: [{ storageClass, afterDays }] }])
+      });
+
+      expect(transitionAfter('GLACIER', 60)).toThrow('its objects expire after 60');
+      expect(transitionAfter('STANDARD_IA', 7)).toThrow('S3 requires at least 30');
+      expect(transitionAfter('GLACIER', 7)).not.toThrow();
+    });
+  });
+
+  describe('KMS Encryption', () => {
+    const subdirectories: BucketSubdirectory[] = [
+      {
+        path: 'person-full',
+        objectLifetimeDays: 7,
+        subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber',
+        subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role'
+      }
+    ];
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should encrypt with S3-managed keys by default', () => {
+      mockContext = createMockContext(subdirectories);
+
+      const bucket = new FileDropBucket(stack, 'TestBucket', { context: mockContext });
+      const template = Template.fromStack(stack);
+
+      expect(bucket.encryptionKey).toBeUndefined();
+      template.resourceCountIs('AWS::KMS::Key', 0);
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [{ ServerSideEncryptionByDefault: { SSEAlgorithm: 'AES256' } }]
+        }
+      });
+    });
+
+    it('should create a rotating key and make it the bucket default', () => {
+      mockContext = createMockContext(subdirectories);
+      mockContext.BUCKET.kms = {};
+
+      new FileDropBucket(stack, 'TestBucket', { context: mockContext });
+      const template = Template.fromStack(stack);
+
+      template.hasResource('AWS::KMS::Key', {
+        Properties: { EnableKeyRotation: true },
+        DeletionPolicy: 'Retain'
+      });
+      template.hasResourceProperties('AWS::KMS::Alias', { AliasName: 'alias/test-stack-test' });
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [{
+            BucketKeyEnabled: true,
+            ServerSideEncryptionByDefault: {
+              SSEAlgorithm: 'aws:kms',
+              KMSMasterKeyID: { 'Fn::GetAtt': [Match.stringLikeRegexp('TestBucketkey'), 'Arn'] }
+            }
+          }]
+        }
+      });
+    });
+
+    it('should import an existing key', () => {
+      mockContext = createMockContext(subdirectories);
+      mockContext.BUCKET.kms = { keyArn: 'arn:aws:kms:us-east-2:123456789012:key/1234abcd-12ab-34cd-56ef-1234567890ab' };
+
+      new FileDropBucket(stack, 'TestBucket', { context: mockContext });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs('AWS::KMS::Key', 0);
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [{
+            ServerSideEncryptionByDefault: { KMSMasterKeyID: mockContext.BUCKET.kms.keyArn }
+          }]
+        }
+      });
+    });
+
+    it('should let subscribers decrypt through the key policy when granting them read access', () => {
+      mockContext = createMockContext(subdirectories);
+      mockContext.BUCKET.kms = {};
+
+      const bucket = new FileDropBucket(stack, 'TestBucket', { context: mockContext });
+      bucket.grantReadToLambda('arn:aws:iam::123456789012:role/subscriber-role', 1);
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::KMS::Key', {
+        KeyPolicy: {
+          Statement: Match.arrayWith([{
+            Sid: 'AllowLambdaDecrypt1',
+            Effect: 'Allow',
+            Principal: { AWS: 'arn:aws:iam::123456789012:role/subscriber-role' },
+            Action: 'kms:Decrypt',
+            Resource: '*'
+          }])
+        }
+      });
+      template.hasResourceProperties('AWS::S3::BucketPolicy', {
+        PolicyDocument: { Statement: Match.arrayWith([Match.objectLike({ Sid: 'AllowLambdaRead1' })]) }
+      });
+    });
   });
 });
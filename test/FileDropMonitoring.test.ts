@@ -0,0 +1,169 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Code, Function, Runtime } from 'aws-cdk-lib/aws-lambda';
+import { BucketSubdirectory, IContext, MonitoringConfig } from '../context/IContext';
+import { FileDropMonitoring } from '../lib/FileDropMonitoring';
+
+describe('FileDropMonitoring', () => {
+  let app: App;
+  let stack: Stack;
+  let eventProcessor: Function;
+
+  beforeEach(() => {
+    app = new App();
+    stack = new Stack(app, 'TestStack');
+    eventProcessor = new Function(stack, 'EventProcessor', {
+      runtime: Runtime.NODEJS_20_X,
+      handler: 'index.handler',
+      code: Code.fromInline('exports.handler = async () => {}')
+    });
+  });
+
+  const subdirectory = (path: string, extra?: Partial<BucketSubdirectory>): BucketSubdirectory => ({
+    path,
+    objectLifetimeDays: 7,
+    subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber',
+    subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role',
+    ...extra
+  });
+
+  /**
+   * Helper to create a complete mock context with required properties
+   */
+  const createMockContext = (subdirectories: BucketSubdirectory[], monitoring?: MonitoringConfig): IContext => ({
+    STACK_ID: 'test-stack',
+    ACCOUNT: '123456789012',
+    REGION: 'us-east-2',
+    TAGS: {
+      Landscape: 'test',
+      Service: 'integration',
+      Function: 'file-processing'
+    },
+    BUCKET: {
+      name: 'test-bucket',
+      subdirectories
+    },
+    LAMBDA: {
+      eventProcessor: {
+        timeoutSeconds: 30
+      }
+    },
+    MONITORING: monitoring
+  });
+
+  const synthesize = (context: IContext): Template => {
+    new FileDropMonitoring(stack, 'Monitoring', { context, eventProcessor });
+    return Template.fromStack(stack);
+  };
+
+  describe('Alarms', () => {
+    it('should alarm on event processor errors and throttles', () => {
+      const template = synthesize(createMockContext([subdirectory('person-full')]));
+
+      ['Errors', 'Throttles'].forEach(metricName => {
+        template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+          AlarmName: `test-stack-event-processor-${metricName.toLowerCase()}-test`,
+          Namespace: 'AWS/Lambda',
+          MetricName: metricName,
+          Statistic: 'Sum',
+          Threshold: 1,
+          ComparisonOperator: 'GreaterThanOrEqualToThreshold'
+        });
+      });
+    });
+
+    it('should alarm on files moved to the errors prefix of every subdirectory', () => {
+      const template = synthesize(createMockContext([subdirectory('person-full'), subdirectory('person-delta')]));
+
+      ['person-full', 'person-delta'].forEach(path => {
+        template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+          AlarmName: `test-stack-errors-${path}-test`,
+          Namespace: 'test-stack-test',
+          MetricName: 'FilesMovedToErrors',
+          Dimensions: [{ Name: 'Subdirectory', Value: path }],
+          Threshold: 1
+        });
+      });
+    });
+
+    it('should alarm on processing latency, by default at 80% of the event processor timeout', () => {
+      const template = synthesize(createMockContext([subdirectory('person-full')]));
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        AlarmName: 'test-stack-processing-latency-test',
+        MetricName: 'Duration',
+        ExtendedStatistic: 'p99',
+        Threshold: 24000,
+        ComparisonOperator: 'GreaterThanThreshold'
+      });
+    });
+
+    it('should use the configured latency threshold', () => {
+      const template = synthesize(createMockContext([subdirectory('person-full')], { processingLatencyThresholdSeconds: 10 }));
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        AlarmName: 'test-stack-processing-latency-test',
+        Threshold: 10000
+      });
+    });
+
+    it('should alarm when no file arrived in a subdirectory for its staleAfterHours', () => {
+      const template = synthesize(createMockContext([
+        subdirectory('person-full', { staleAfterHours: 26 }),
+        subdirectory('person-delta')
+      ]));
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        AlarmName: 'test-stack-stale-person-full-test',
+        MetricName: 'FilesReceived',
+        Dimensions: [{ Name: 'Subdirectory', Value: 'person-full' }],
+        Period: 3600,
+        EvaluationPeriods: 26,
+        Threshold: 1,
+        ComparisonOperator: 'LessThanThreshold',
+        TreatMissingData: 'breaching'
+      });
+      template.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', { MetricName: 'FilesReceived' }, 1);
+    });
+
+    it('should reject a staleness window longer than an alarm can evaluate', () => {
+      expect(() => synthesize(createMockContext([subdirectory('person-full', { staleAfterHours: 200 })])))
+        .toThrow('Subdirectory "person-full" sets staleAfterHours to 200: it must be between 1 and 168');
+    });
+  });
+
+  describe('Alarm topic', () => {
+    it('should create a topic every alarm notifies when none is configured', () => {
+      const template = synthesize(createMockContext([subdirectory('person-full')]));
+
+      template.hasResourceProperties('AWS::SNS::Topic', { TopicName: 'test-stack-alarms-test' });
+      const topicId = Object.keys(template.findResources('AWS::SNS::Topic'))[0];
+      const alarms = Object.values(template.findResources('AWS::CloudWatch::Alarm'));
+      expect(alarms).toHaveLength(4);
+      alarms.forEach(alarm => expect(alarm.Properties.AlarmActions).toEqual([{ Ref: topicId }]));
+    });
+
+    it('should notify the configured topic instead of creating one', () => {
+      const alarmTopicArn = 'arn:aws:sns:us-east-2:123456789012:on-call';
+      const template = synthesize(createMockContext([subdirectory('person-full')], { alarmTopicArn }));
+
+      template.resourceCountIs('AWS::SNS::Topic', 0);
+      template.allResourcesProperties('AWS::CloudWatch::Alarm', { AlarmActions: [alarmTopicArn] });
+    });
+  });
+
+  describe('Dashboard', () => {
+    it('should create a dashboard with the per-subdirectory file metrics', () => {
+      const template = synthesize(createMockContext([subdirectory('person-full')]));
+
+      template.hasResourceProperties('AWS::CloudWatch::Dashboard', {
+        DashboardName: 'test-stack-test',
+        DashboardBody: Match.anyValue()
+      });
+      const body = JSON.stringify(Object.values(template.findResources('AWS::CloudWatch::Dashboard'))[0].Properties.DashboardBody);
+      ['FilesReceived', 'FilesRenamed', 'FilesSkipped', 'FilesErrored', 'BytesProcessed', 'SubscriberLatency', 'StragglersRecovered'].forEach(metricName => {
+        expect(body).toContain(metricName);
+      });
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDbHashLedger, HashLedgerEntry } from '../src/event-processor/HashLedger';
+
+describe('DynamoDbHashLedger', () => {
+  const entry: HashLedgerEntry = {
+    subdirectory: 'person-full',
+    sha256: 'a'.repeat(64),
+    key: 'person-full/2026-02-22T10:30:00.000Z-data.json',
+    recordedAt: '2026-02-22T10:30:00.000Z'
+  };
+  const since = new Date('2026-02-21T10:30:00.000Z');
+
+  let send: jest.Mock;
+  let ledger: DynamoDbHashLedger;
+
+  beforeEach(() => {
+    send = jest.fn();
+    ledger = new DynamoDbHashLedger('hash-ledger', { send } as unknown as DynamoDBDocumentClient);
+  });
+
+  it('should claim a new hash with a conditional put that expires with the window', async () => {
+    send.mockResolvedValue({});
+
+    const existing = await ledger.claim(entry, since);
+
+    expect(existing).toBeUndefined();
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PutCommand);
+    expect(command.input).toEqual({
+      TableName: 'hash-ledger',
+      Item: {
+        hashKey: `person-full#${'a'.repeat(64)}`,
+        ...entry,
+        expiresAt: Date.parse('2026-02-23T10:30:00.000Z') / 1000
+      },
+      ConditionExpression: 'attribute_not_exists(hashKey) OR recordedAt < :since',
+      ExpressionAttributeValues: { ':since': since.toISOString() }
+    });
+  });
+
+  it('should return the earlier entry when the hash was already claimed within the window', async () => {
+    const earlier = { ...entry, key: 'person-full/2026-02-22T09:00:00.000Z-data.json', recordedAt: '2026-02-22T09:00:00.000Z' };
+    send
+      .mockRejectedValueOnce(new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} }))
+      .mockResolvedValueOnce({ Item: { hashKey: 'ignored', expiresAt: 0, ...earlier } });
+
+    const existing = await ledger.claim(entry, since);
+
+    expect(existing).toEqual(earlier);
+    expect(send.mock.calls[1][0]).toBeInstanceOf(GetCommand);
+  });
+
+  it('should propagate other DynamoDB errors', async () => {
+    send.mockRejectedValue(new Error('Throttled'));
+
+    await expect(ledger.claim(entry, since)).rejects.toThrow('Throttled');
+  });
+
+  it('should delete the item on release', async () => {
+    send.mockResolvedValue({});
+
+    await ledger.release('person-full', 'a'.repeat(64));
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(DeleteCommand);
+    expect(command.input.Key).toEqual({ hashKey: `person-full#${'a'.repeat(64)}` });
+  });
+});
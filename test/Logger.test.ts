@@ -0,0 +1,97 @@
+import { addLogContext, emitMetrics, logger, withLogContext } from '../src/event-processor/Logger';
+
+describe('Logger', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  const lastRecord = (spy: jest.SpyInstance) => JSON.parse(spy.mock.calls[spy.mock.calls.length - 1][0]);
+
+  it('should write one JSON record per line with level, message and fields', () => {
+    logger.info('Renamed file', { key: 'person-full/data.json', durationMs: 12 });
+
+    expect(lastRecord(logSpy)).toEqual({
+      timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      level: 'info',
+      message: 'Renamed file',
+      key: 'person-full/data.json',
+      durationMs: 12
+    });
+  });
+
+  it('should write errors to stderr with their name, message and stack', () => {
+    logger.error('Rename failed', { error: new TypeError('Access Denied') });
+
+    expect(lastRecord(errorSpy)).toMatchObject({
+      level: 'error',
+      error: { name: 'TypeError', message: 'Access Denied', stack: expect.stringContaining('Access Denied') }
+    });
+  });
+
+  it('should add the fields of the surrounding context, including ones added later', async () => {
+    await withLogContext({ key: 'person-full/data.json' }, async () => {
+      logger.info('Matched');
+      addLogContext({ subdirectory: 'person-full', correlationId: 'req-1' });
+      await Promise.resolve();
+      logger.info('Renamed', { action: 'renamed' });
+    });
+    logger.info('Done');
+
+    const records = logSpy.mock.calls.map(([line]) => JSON.parse(line));
+    expect(records[0]).not.toHaveProperty('subdirectory');
+    expect(records[1]).toMatchObject({ key: 'person-full/data.json', subdirectory: 'person-full', correlationId: 'req-1', action: 'renamed' });
+    expect(records[2]).not.toHaveProperty('key');
+  });
+
+  it('should keep the contexts of concurrent work apart', async () => {
+    const work = (key: string, delayMs: number) => withLogContext({ key }, async () => {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      logger.info('Finished');
+    });
+
+    await Promise.all([work('first', 10), work('second', 0)]);
+
+    expect(logSpy.mock.calls.map(([line]) => JSON.parse(line).key)).toEqual(['second', 'first']);
+  });
+
+  describe('emitMetrics', () => {
+    it('should write metrics in Embedded Metric Format, dimensioned by subdirectory', () => {
+      emitMetrics('person-full', {
+        FilesReceived: { value: 1, unit: 'Count' },
+        BytesProcessed: { value: 2048, unit: 'Bytes' }
+      });
+
+      expect(lastRecord(logSpy)).toEqual({
+        _aws: {
+          Timestamp: expect.any(Number),
+          CloudWatchMetrics: [{
+            Namespace: 'FileDrop',
+            Dimensions: [['Subdirectory']],
+            Metrics: [
+              { Name: 'FilesReceived', Unit: 'Count' },
+              { Name: 'BytesProcessed', Unit: 'Bytes' }
+            ]
+          }]
+        },
+        Subdirectory: 'person-full',
+        FilesReceived: 1,
+        BytesProcessed: 2048
+      });
+    });
+
+    it('should write nothing when there are no metrics', () => {
+      emitMetrics('person-full', {});
+
+      expect(logSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { BucketConfig } from '../context/IContext';
+import { IBucket } from '../src/event-processor/Bucket';
+import { ManifestTimeoutChecker } from '../src/event-processor/ManifestTimeoutChecker';
+
+jest.mock('../src/event-processor/Subscriber');
+
+describe('ManifestTimeoutChecker', () => {
+  const now = new Date('2026-02-22T12:00:00.000Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+  let mockBucket: jest.Mocked<IBucket>;
+  let bucketConfig: BucketConfig;
+
+  beforeEach(() => {
+    bucketConfig = {
+      name: 'test-bucket',
+      subdirectories: [
+        {
+          path: 'person-full',
+          objectLifetimeDays: 7,
+          manifest: { timeoutMinutes: 60 },
+          subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber-full',
+          subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role'
+        },
+        {
+          path: 'person-delta',
+          objectLifetimeDays: 3,
+          subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber-delta',
+          subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role'
+        }
+      ]
+    };
+
+    mockBucket = {
+      getConfig: jest.fn().mockReturnValue(bucketConfig),
+      getName: jest.fn().mockReturnValue('test-bucket'),
+      readObject: jest.fn(),
+      getObjectStream: jest.fn(),
+      getObjectInfo: jest.fn(),
+      objectExists: jest.fn(),
+      listObjects: jest.fn().mockResolvedValue([
+        { key: 'person-full/part-1.json', size: 10, lastModified: minutesAgo(90) },
+        { key: 'person-full/nested/part-2.json', size: 10, lastModified: minutesAgo(61) },
+        { key: 'person-full/part-3.json', size: 10, lastModified: minutesAgo(30) },
+        { key: 'person-full/_manifest.json', size: 10, lastModified: minutesAgo(90) },
+        { key: 'person-full/2026-02-22T10:00:00.000Z-part-4.json', size: 10, lastModified: minutesAgo(120) },
+        { key: 'person-full/errors/2026-02-22T09:00:00.000Z-part-5.json', size: 10, lastModified: minutesAgo(180) }
+      ]),
+      writeObject: jest.fn(),
+      deleteObject: jest.fn(),
+      renameObject: jest.fn(),
+      moveToErrors: jest.fn().mockResolvedValue(true),
+      getTags: jest.fn().mockResolvedValue({}),
+      putTags: jest.fn().mockResolvedValue(undefined),
+      restoreObject: jest.fn().mockResolvedValue(undefined)
+    };
+  });
+
+  it('should move only held parts older than the timeout to errors', async () => {
+    const checker = new ManifestTimeoutChecker(mockBucket, () => now);
+
+    const results = await checker.check();
+
+    expect(mockBucket.listObjects).toHaveBeenCalledTimes(1);
+    expect(mockBucket.listObjects).toHaveBeenCalledWith('person-full/');
+    expect(results).toEqual([{
+      subdirectory: 'person-full',
+      escalated: ['person-full/part-1.json', 'person-full/nested/part-2.json'],
+      failed: []
+    }]);
+    expect(mockBucket.moveToErrors).toHaveBeenCalledWith(
+      'person-full/part-1.json',
+      'person-full',
+      'No manifest arrived within 60 minutes of this part being uploaded'
+    );
+  });
+
+  it('should report parts that could not be moved', async () => {
+    mockBucket.moveToErrors.mockResolvedValueOnce(false);
+    const checker = new ManifestTimeoutChecker(mockBucket, () => now);
+
+    const [result] = await checker.check();
+
+    expect(result.failed).toEqual(['person-full/part-1.json']);
+    expect(result.escalated).toEqual(['person-full/nested/part-2.json']);
+  });
+});
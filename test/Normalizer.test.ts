@@ -0,0 +1,95 @@
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import { Normalizer, parseCsv, parseNdjson } from '../src/event-processor/Normalizer';
+
+describe('Normalizer', () => {
+  /**
+   * Helper to split text into single-byte chunks, the worst case for boundary handling
+   */
+  async function* bytewise(text: string | Buffer): AsyncIterable<Buffer> {
+    const buffer = Buffer.from(text);
+    for (let i = 0; i < buffer.length; i++) {
+      yield buffer.subarray(i, i + 1);
+    }
+  }
+
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const items: T[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  describe('Format detection', () => {
+    const normalizer = new Normalizer(['json', 'ndjson', 'csv', 'gzip']);
+
+    const cases: Array<[string, string | Buffer, string | undefined, string]> = [
+      ['content type', 'a,b\n1,2\n', 'text/csv; charset=utf-8', 'csv'],
+      ['extension', '{"a":1}\n{"a":2}\n', undefined, 'ndjson'],
+      ['content sniffing (json)', '{\n  "rawData": []\n}', undefined, 'json'],
+      ['content sniffing (ndjson)', '{"a":1}\n{"a":2}\n', undefined, 'ndjson'],
+      ['content sniffing (csv)', 'personid,name\nU1,Doe\n', undefined, 'csv'],
+      ['gzip magic bytes', gzipSync('personid\nU1\n'), undefined, 'csv+gzip']
+    ];
+
+    cases.forEach(([how, content, contentType, expected]) => {
+      it(`should detect the format from ${how}`, async () => {
+        const filename = how === 'extension' ? 'drop.jsonl' : 'drop';
+        const opened = await normalizer.open(Readable.from([Buffer.from(content)]), filename, contentType);
+
+        expect(Normalizer.describe(opened.detected)).toBe(expected);
+      });
+    });
+
+    it('should reject formats that are not accepted', async () => {
+      const jsonOnly = new Normalizer(['json']);
+
+      await expect(jsonOnly.open(Readable.from([Buffer.from('a,b\n')]), 'drop.csv'))
+        .rejects.toThrow('Input format "csv" is not accepted');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should handle quoted commas, doubled quotes, embedded line breaks and CRLF', async () => {
+      const csv = '\uFEFFpersonid,note\r\nU1,"says ""hi"", then leaves"\r\nU2,"line one\nline two"\r\n\r\nU3,é\r\n';
+
+      const records = await collect(parseCsv(bytewise(csv)));
+
+      expect(records).toEqual([
+        { personid: 'U1', note: 'says "hi", then leaves' },
+        { personid: 'U2', note: 'line one\nline two' },
+        { personid: 'U3', note: 'é' }
+      ]);
+    });
+
+    it('should handle a final row without a trailing newline', async () => {
+      const records = await collect(parseCsv(bytewise('a,b\n1,2')));
+
+      expect(records).toEqual([{ a: '1', b: '2' }]);
+    });
+
+    it('should reject rows whose field count does not match the header', async () => {
+      await expect(collect(parseCsv(bytewise('a,b\n1,2\n3\n'))))
+        .rejects.toThrow('Malformed CSV at row 3: expected 2 fields but found 1');
+    });
+
+    it('should reject unterminated quoted fields', async () => {
+      await expect(collect(parseCsv(bytewise('a,b\n1,"2\n'))))
+        .rejects.toThrow('unterminated quoted field');
+    });
+  });
+
+  describe('parseNdjson', () => {
+    it('should parse one record per line, skipping blank lines', async () => {
+      const records = await collect(parseNdjson(bytewise('{"a":"ü"}\n\n{"a":2}\r\n{"a":3}')));
+
+      expect(records).toEqual([{ a: 'ü' }, { a: 2 }, { a: 3 }]);
+    });
+
+    it('should report the line number of malformed records', async () => {
+      await expect(collect(parseNdjson(bytewise('{"a":1}\n{"a":\n'))))
+        .rejects.toThrow('Malformed NDJSON at line 2');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { InMemoryExpectedDropRegistry } from '../src/event-processor/ExpectedDrops';
+import { OverdueDropChecker } from '../src/event-processor/OverdueDropChecker';
+
+describe('OverdueDropChecker', () => {
+  const now = new Date('2026-02-22T12:00:00.000Z');
+  const topicArn = 'arn:aws:sns:us-east-2:123456789012:overdue-drops';
+
+  let registry: InMemoryExpectedDropRegistry;
+  let send: jest.Mock;
+  let checker: OverdueDropChecker;
+
+  beforeEach(async () => {
+    registry = new InMemoryExpectedDropRegistry();
+    send = jest.fn().mockResolvedValue({});
+    checker = new OverdueDropChecker(registry, topicArn, { send } as unknown as SNSClient, () => now);
+
+    await registry.register({ subdirectory: 'person-full', requestId: 'req-late', deadline: '2026-02-22T11:00:00.000Z', registeredAt: '2026-02-22T09:00:00.000Z' });
+    await registry.register({ subdirectory: 'person-full', requestId: 'req-due', deadline: '2026-02-22T13:00:00.000Z', registeredAt: '2026-02-22T09:00:00.000Z' });
+  });
+
+  it('should notify once about drops past their deadline and mark them overdue', async () => {
+    const first = await checker.check();
+    const second = await checker.check();
+
+    expect(first).toEqual({ notified: ['person-full#req-late'], failed: [] });
+    expect(second).toEqual({ notified: [], failed: [] });
+    expect(send).toHaveBeenCalledTimes(1);
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PublishCommand);
+    expect(command.input.TopicArn).toBe(topicArn);
+    expect(command.input.Subject).toBe('Overdue drop: req-late in person-full');
+    expect(JSON.parse(command.input.Message)).toEqual({
+      type: 'overdue-drop',
+      subdirectory: 'person-full',
+      requestId: 'req-late',
+      deadline: '2026-02-22T11:00:00.000Z',
+      registeredAt: '2026-02-22T09:00:00.000Z',
+      checkedAt: now.toISOString()
+    });
+    expect((await registry.get('person-full', 'req-late'))?.status).toBe('overdue');
+    expect((await registry.get('person-full', 'req-due'))?.status).toBe('pending');
+  });
+
+  it('should not notify about drops that arrived in time', async () => {
+    await registry.fulfil('person-full', 'req-late', 'person-full/data.json', '2026-02-22T10:00:00.000Z');
+
+    expect(await checker.check()).toEqual({ notified: [], failed: [] });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should return a drop to pending when its notification cannot be published', async () => {
+    send.mockRejectedValueOnce(new Error('Throttled'));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await checker.check();
+
+    expect(result).toEqual({ notified: [], failed: ['person-full#req-late'] });
+    expect((await registry.get('person-full', 'req-late'))?.status).toBe('pending');
+    expect(JSON.parse(errorSpy.mock.calls[0][0])).toMatchObject({
+      level: 'error',
+      subdirectory: 'person-full',
+      requestId: 'req-late',
+      error: { message: 'Throttled' }
+    });
+    errorSpy.mockRestore();
+  });
+});
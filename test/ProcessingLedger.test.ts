@@ -0,0 +1,165 @@
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { S3EventRecord } from 'aws-lambda';
+import {
+  DynamoDbProcessingLedger,
+  InMemoryProcessingLedger,
+  ProcessingRecord,
+  shouldRecord,
+  toProcessingRecord
+} from '../src/event-processor/ProcessingLedger';
+
+const createRecord = (overrides: Partial<ProcessingRecord> = {}): ProcessingRecord => ({
+  success: true,
+  action: 'renamed',
+  reason: 'File renamed and subscriber invoked',
+  originalKey: 'person-full/data.json',
+  subdirectory: 'person-full',
+  newKey: 'person-full/2026-02-22T10:30:00.000Z-data.json',
+  bucket: 'test-bucket',
+  size: 1024,
+  eTag: 'abc123',
+  sequencer: '0A1B2C3D4E5F678901',
+  eventTime: '2026-02-22T10:30:00.000Z',
+  processedAt: '2026-02-22T10:30:01.000Z',
+  ...overrides
+});
+
+describe('ProcessingLedger', () => {
+  describe('toProcessingRecord', () => {
+    it('should combine the S3 event with the processing result', () => {
+      const s3Record = {
+        eventTime: '2026-02-22T10:30:00.000Z',
+        s3: {
+          bucket: { name: 'test-bucket' },
+          object: { key: 'person-full/data.json', size: 1024, eTag: 'abc123', sequencer: '0A1B2C3D4E5F678901' }
+        }
+      } as unknown as S3EventRecord;
+
+      const record = toProcessingRecord(s3Record, {
+        success: true,
+        action: 'renamed',
+        reason: 'File renamed and subscriber invoked',
+        originalKey: 'person-full/data.json',
+        subdirectory: 'person-full',
+        newKey: 'person-full/2026-02-22T10:30:00.000Z-data.json'
+      }, '2026-02-22T10:30:01.000Z');
+
+      expect(record).toEqual(createRecord());
+    });
+  });
+
+  describe('shouldRecord', () => {
+    it('should skip the events caused by the processor itself and redeliveries', () => {
+      expect(shouldRecord(createRecord({ action: 'skipped-already-processed' }))).toBe(false);
+      expect(shouldRecord(createRecord({ action: 'skipped-duplicate-event' }))).toBe(false);
+      expect(shouldRecord(createRecord({ action: 'skipped-no-match' }))).toBe(true);
+      expect(shouldRecord(createRecord({ action: 'error-validation', success: false }))).toBe(true);
+    });
+  });
+
+  describe('InMemoryProcessingLedger', () => {
+    let ledger: InMemoryProcessingLedger;
+
+    beforeEach(async () => {
+      ledger = new InMemoryProcessingLedger();
+      await ledger.record(createRecord({
+        originalKey: 'person-full/later.json',
+        newKey: 'person-full/2026-02-22T12:00:00.000Z-later.json',
+        eventTime: '2026-02-22T12:00:00.000Z'
+      }));
+      await ledger.record(createRecord());
+      await ledger.record(createRecord({
+        originalKey: 'person-delta/data.json',
+        subdirectory: 'person-delta',
+        newKey: 'person-delta/2026-02-22T11:00:00.000Z-data.json',
+        eventTime: '2026-02-22T11:00:00.000Z'
+      }));
+    });
+
+    it('should find a file by its original or its renamed key', async () => {
+      expect(await ledger.findByKey('person-full/data.json')).toEqual([createRecord()]);
+      expect(await ledger.findByKey('person-full/2026-02-22T10:30:00.000Z-data.json')).toEqual([createRecord()]);
+      expect(await ledger.findByKey('person-full/missing.json')).toEqual([]);
+    });
+
+    it('should list every processing of a key dropped more than once, oldest first', async () => {
+      const redrop = createRecord({ eventTime: '2026-02-23T08:00:00.000Z', sequencer: '0A1B2C3D4E5F679999', newKey: undefined, action: 'skipped-duplicate' });
+      await ledger.record(redrop);
+
+      expect(await ledger.findByKey('person-full/data.json')).toEqual([createRecord(), redrop]);
+    });
+
+    it('should replace the record of an event that is recorded again', async () => {
+      const retried = createRecord({ processedAt: '2026-02-22T10:35:00.000Z' });
+      await ledger.record(retried);
+
+      expect(await ledger.findByKey('person-full/data.json')).toEqual([retried]);
+    });
+
+    it('should find the files dropped in a subdirectory within a time range', async () => {
+      const dropped = await ledger.findDroppedBetween('person-full', new Date('2026-02-22T00:00:00.000Z'), new Date('2026-02-22T23:59:59.999Z'));
+      expect(dropped.map(record => record.originalKey)).toEqual(['person-full/data.json', 'person-full/later.json']);
+
+      const morning = await ledger.findDroppedBetween('person-full', new Date('2026-02-22T00:00:00.000Z'), new Date('2026-02-22T11:59:59.999Z'));
+      expect(morning.map(record => record.originalKey)).toEqual(['person-full/data.json']);
+    });
+  });
+
+  describe('DynamoDbProcessingLedger', () => {
+    let send: jest.Mock;
+    let ledger: DynamoDbProcessingLedger;
+
+    beforeEach(() => {
+      send = jest.fn();
+      ledger = new DynamoDbProcessingLedger('processing-ledger', { send } as unknown as DynamoDBDocumentClient);
+    });
+
+    it('should put one item per event, keyed by event time and sequencer', async () => {
+      send.mockResolvedValue({});
+
+      await ledger.record(createRecord());
+
+      const command = send.mock.calls[0][0];
+      expect(command).toBeInstanceOf(PutCommand);
+      expect(command.input).toEqual({
+        TableName: 'processing-ledger',
+        Item: { ...createRecord(), eventId: '2026-02-22T10:30:00.000Z#0A1B2C3D4E5F678901' }
+      });
+    });
+
+    it('should query both the table and the new key index when finding by key', async () => {
+      const renamed = createRecord();
+      send
+        .mockResolvedValueOnce({ Items: [] })
+        .mockResolvedValueOnce({ Items: [{ ...renamed, eventId: 'ignored' }] });
+
+      const records = await ledger.findByKey(renamed.newKey!);
+
+      expect(records).toEqual([renamed]);
+      expect(send.mock.calls[0][0]).toBeInstanceOf(QueryCommand);
+      expect(send.mock.calls[0][0].input.IndexName).toBeUndefined();
+      expect(send.mock.calls[1][0].input.IndexName).toBe(DynamoDbProcessingLedger.NEW_KEY_INDEX);
+    });
+
+    it('should follow pagination when finding files dropped within a time range', async () => {
+      const first = createRecord();
+      const second = createRecord({ originalKey: 'person-full/later.json', eventTime: '2026-02-22T12:00:00.000Z' });
+      send
+        .mockResolvedValueOnce({ Items: [first], LastEvaluatedKey: { originalKey: first.originalKey } })
+        .mockResolvedValueOnce({ Items: [second] });
+
+      const records = await ledger.findDroppedBetween('person-full', new Date('2026-02-22T00:00:00.000Z'), new Date('2026-02-23T00:00:00.000Z'));
+
+      expect(records).toEqual([first, second]);
+      expect(send.mock.calls[0][0].input).toEqual(expect.objectContaining({
+        IndexName: DynamoDbProcessingLedger.SUBDIRECTORY_INDEX,
+        ExpressionAttributeValues: {
+          ':subdirectory': 'person-full',
+          ':from': '2026-02-22T00:00:00.000Z',
+          ':to': '2026-02-23T00:00:00.000Z'
+        }
+      }));
+      expect(send.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ originalKey: first.originalKey });
+    });
+  });
+});
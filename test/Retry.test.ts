@@ -0,0 +1,65 @@
+import { S3ServiceException } from '@aws-sdk/client-s3';
+import { isTransientError, withRetry } from '../src/event-processor/Retry';
+
+const awsError = (name: string, httpStatusCode: number) => new S3ServiceException({
+  name,
+  $fault: httpStatusCode >= 500 ? 'server' : 'client',
+  $metadata: { httpStatusCode },
+  message: name
+});
+
+describe('Retry', () => {
+  describe('isTransientError', () => {
+    it.each([
+      ['SlowDown', 503],
+      ['ThrottlingException', 400],
+      ['TooManyRequestsException', 429],
+      ['InternalError', 500],
+      ['ServiceUnavailable', 503],
+      ['SomeNewServerError', 502]
+    ])('should treat %s (%i) as transient', (name, status) => {
+      expect(isTransientError(awsError(name, status))).toBe(true);
+    });
+
+    it.each([
+      ['AccessDenied', 403],
+      ['NoSuchKey', 404],
+      ['ResourceNotFoundException', 404],
+      ['InvalidRequest', 400]
+    ])('should treat %s (%i) as permanent', (name, status) => {
+      expect(isTransientError(awsError(name, status))).toBe(false);
+    });
+
+    it('should treat network errors and unclassified errors as transient', () => {
+      expect(isTransientError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+      expect(isTransientError(new Error('Subscriber Lambda failed with TypeError: boom'))).toBe(true);
+    });
+  });
+
+  describe('withRetry', () => {
+    const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 2 };
+
+    it('should retry transient failures until the operation succeeds', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(awsError('SlowDown', 503))
+        .mockResolvedValueOnce('done');
+
+      await expect(withRetry('Copying', operation, policy)).resolves.toBe('done');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry permanent failures', async () => {
+      const operation = jest.fn().mockRejectedValue(awsError('AccessDenied', 403));
+
+      await expect(withRetry('Copying', operation, policy)).rejects.toThrow('AccessDenied');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the last attempt', async () => {
+      const operation = jest.fn().mockRejectedValue(awsError('SlowDown', 503));
+
+      await expect(withRetry('Copying', operation, policy)).rejects.toThrow('SlowDown');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+  });
+});
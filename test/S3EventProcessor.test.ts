@@ -1,13 +1,20 @@
 import { S3EventRecord } from 'aws-lambda';
-import { S3EventProcessor, ProcessingResult } from '../src/event-processor/S3EventProcessor';
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import { createHash } from 'crypto';
+import { S3EventProcessor, ProcessingResult, isRetryable } from '../src/event-processor/S3EventProcessor';
 import { Bucket, IBucket } from '../src/event-processor/Bucket';
-import { BucketConfig } from '../context/IContext';
-import { Subscriber } from '../src/event-processor/Subscriber';
+import { BucketConfig, SubscriberConfig, getSubscriberTarget } from '../context/IContext';
+import { createSubscriber } from '../src/event-processor/Subscriber';
+import { InMemoryHashLedger } from '../src/event-processor/HashLedger';
+import { InMemoryEventLedger } from '../src/event-processor/EventLedger';
+import { InMemoryExpectedDropRegistry } from '../src/event-processor/ExpectedDrops';
+import { InMemoryUploaderDirectory, IUploaderDirectory } from '../src/event-processor/Uploaders';
 
 // Mock the Subscriber module to avoid AWS SDK initialization issues
 jest.mock('../src/event-processor/Subscriber', () => {
   return {
-    Subscriber: jest.fn().mockImplementation(() => {
+    createSubscriber: jest.fn().mockImplementation(() => {
       return {
         notify: jest.fn().mockResolvedValue(true)
       };
@@ -15,9 +22,12 @@ jest.mock('../src/event-processor/Subscriber', () => {
   };
 });
 
-const MockedSubscriber = Subscriber as jest.MockedClass<typeof Subscriber>;
+const MockedSubscriber = createSubscriber as jest.MockedFunction<typeof createSubscriber>;
 
 describe('S3EventProcessor', () => {
+  const correlationTags = { 'correlation-id': expect.any(String) };
+  const renameTags = { ...correlationTags, 'drop-state': 'processed' };
+  const errorDetails = expect.objectContaining({ correlationId: expect.any(String), result: expect.any(Object) });
   let mockBucket: jest.Mocked<IBucket>;
   let bucketConfig: BucketConfig;
   let fixedTimestamp: string;
@@ -50,8 +60,18 @@ describe('S3EventProcessor', () => {
     mockBucket = {
       getConfig: jest.fn().mockReturnValue(bucketConfig),
       getName: jest.fn().mockReturnValue('test-bucket'),
+      readObject: jest.fn().mockResolvedValue('{}'),
+      getObjectStream: jest.fn(),
+      getObjectInfo: jest.fn().mockResolvedValue({ size: 1024, metadata: {} }),
+      writeObject: jest.fn().mockResolvedValue(undefined),
+      deleteObject: jest.fn().mockResolvedValue(true),
+      objectExists: jest.fn().mockResolvedValue(true),
+      listObjects: jest.fn().mockResolvedValue([]),
       renameObject: jest.fn().mockResolvedValue(true),
-      moveToErrors: jest.fn().mockResolvedValue(true)
+      moveToErrors: jest.fn().mockResolvedValue(true),
+      getTags: jest.fn().mockResolvedValue({}),
+      putTags: jest.fn().mockResolvedValue(undefined),
+      restoreObject: jest.fn().mockResolvedValue(undefined)
     };
 
     // Reset Subscriber mock to default behavior
@@ -206,7 +226,8 @@ describe('S3EventProcessor', () => {
         expect(result.action).not.toBe('skipped-already-processed');
         expect(mockBucket.renameObject).toHaveBeenCalledWith(
           '2026-02-22T10:30:00.000Z-subfolder/newfile.json',
-          expect.stringContaining('newfile.json')
+          expect.stringContaining('newfile.json'),
+          renameTags
         );
       });
     });
@@ -244,7 +265,8 @@ describe('S3EventProcessor', () => {
 
       expect(mockBucket.renameObject).toHaveBeenCalledWith(
         'person-full/data.json',
-        'person-full/2026-02-22T10:30:00.000Z-data.json'
+        'person-full/2026-02-22T10:30:00.000Z-data.json',
+        renameTags
       );
     });
 
@@ -266,7 +288,8 @@ describe('S3EventProcessor', () => {
 
         expect(mockBucket.renameObject).toHaveBeenCalledWith(
           `person-full/${testCase.original}`,
-          `person-full/${testCase.expected}`
+          `person-full/${testCase.expected}`,
+          renameTags
         );
       }
     });
@@ -280,7 +303,8 @@ describe('S3EventProcessor', () => {
 
       expect(mockBucket.renameObject).toHaveBeenCalledWith(
         'person-full/test.json',
-        'person-full/2025-01-15T14:22:33.456Z-test.json'
+        'person-full/2025-01-15T14:22:33.456Z-test.json',
+        renameTags
       );
     });
 
@@ -318,7 +342,8 @@ describe('S3EventProcessor', () => {
 
         expect(mockBucket.renameObject).toHaveBeenCalledWith(
           `${subfolder}/file.json`,
-          `${subfolder}/2026-02-22T10:30:00.000Z-file.json`
+          `${subfolder}/2026-02-22T10:30:00.000Z-file.json`,
+          renameTags
         );
       }
     });
@@ -340,7 +365,8 @@ describe('S3EventProcessor', () => {
       // Should match 'person-full' since 'person-full/nested' requires exact path match
       expect(mockBucket.renameObject).toHaveBeenCalledWith(
         'person-full/nested/file.json',
-        expect.stringMatching(/^person-full\/(nested\/)?2026-02-22T10:30:00\.000Z-.*/)
+        expect.stringMatching(/^person-full\/(nested\/)?2026-02-22T10:30:00\.000Z-.*/),
+        renameTags
       );
     });
   });
@@ -396,14 +422,17 @@ describe('S3EventProcessor', () => {
       // Should have attempted to rename first
       expect(mockBucket.renameObject).toHaveBeenCalledWith(
         'person-full/data.json',
-        'person-full/2026-02-22T10:30:00.000Z-data.json'
+        'person-full/2026-02-22T10:30:00.000Z-data.json',
+        renameTags
       );
 
       // Should have moved file to errors after subscriber failure
       expect(mockBucket.moveToErrors).toHaveBeenCalledWith(
         'person-full/2026-02-22T10:30:00.000Z-data.json',
         'person-full',
-        expect.stringContaining('Lambda invocation failed')
+        expect.stringContaining('Lambda invocation failed'),
+        correlationTags,
+        errorDetails
       );
 
       // Result should indicate error-invoke action
@@ -479,7 +508,8 @@ describe('S3EventProcessor', () => {
 
       expect(mockBucket.renameObject).toHaveBeenCalledWith(
         'person-full/data.backup.2024.json',
-        'person-full/2026-02-22T10:30:00.000Z-data.backup.2024.json'
+        'person-full/2026-02-22T10:30:00.000Z-data.backup.2024.json',
+        renameTags
       );
     });
   });
@@ -509,7 +539,8 @@ describe('S3EventProcessor', () => {
       // Should preserve nested structure: subfolder remains, filename gets timestamp prefix
       expect(mockBucket.renameObject).toHaveBeenCalledWith(
         'person-full/subfolder/data.json',
-        'person-full/subfolder/2026-02-22T10:30:00.000Z-data.json'
+        'person-full/subfolder/2026-02-22T10:30:00.000Z-data.json',
+        renameTags
       );
     });
 
@@ -541,4 +572,1080 @@ describe('S3EventProcessor', () => {
       }
     });
   });
+
+  describe('Test 8: Schema validation', () => {
+    const validEnvelope = JSON.stringify({
+      requestId: 'req-123',
+      timestamp: '2026-02-22T10:00:00.000Z',
+      recordCount: 2,
+      rawData: [
+        { personid: 'U12345678' },
+        { personid: 'U87654321' }
+      ]
+    });
+
+    beforeEach(() => {
+      bucketConfig.subdirectories[0].schema = 'person-envelope';
+    });
+
+    it('should rename and invoke subscriber when file conforms to schema', async () => {
+      mockBucket.readObject.mockResolvedValue(validEnvelope);
+      const record = createMockRecord('person-full/data.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(mockBucket.readObject).toHaveBeenCalledWith('person-full/data.json');
+      expect(result.success).toBe(true);
+      expect(result.action).toBe('renamed');
+      expect(result.subscriberInvoked).toBe(true);
+      expect(result.requestId).toBe('req-123');
+      expect(result.subdirectory).toBe('person-full');
+    });
+
+    it('should move malformed JSON to errors without renaming or invoking subscriber', async () => {
+      mockBucket.readObject.mockResolvedValue('{ "rawData": [ { "personid": ');
+      const record = createMockRecord('person-full/data.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.success).toBe(false);
+      expect(result.action).toBe('error-validation');
+      expect(result.reason).toContain('Malformed JSON');
+      expect(result.movedToErrors).toBe(true);
+      expect(mockBucket.moveToErrors).toHaveBeenCalledWith(
+        'person-full/data.json',
+        'person-full',
+        expect.stringContaining('person-envelope'),
+        correlationTags,
+        errorDetails
+      );
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+      expect(MockedSubscriber).not.toHaveBeenCalled();
+    });
+
+    it('should move non-conforming files to errors with the schema violations as the reason', async () => {
+      mockBucket.readObject.mockResolvedValue(JSON.stringify({
+        rawData: [{ personid: 'U12345678' }, { name: 'missing id' }]
+      }));
+      const record = createMockRecord('person-full/data.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-validation');
+      expect(result.reason).toContain("/rawData/1 must have required property 'personid'");
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+    });
+
+    it('should treat an unregistered schema name as a validation failure', async () => {
+      bucketConfig.subdirectories[0].schema = 'no-such-schema';
+      mockBucket.readObject.mockResolvedValue(validEnvelope);
+      const record = createMockRecord('person-full/data.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-validation');
+      expect(result.reason).toContain('Unknown schema "no-such-schema"');
+    });
+
+    it('should stream large files instead of reading them into memory', async () => {
+      mockBucket.getObjectStream.mockResolvedValue(Readable.from([Buffer.from(validEnvelope)]));
+      const record = createMockRecord('person-full/data.json');
+      record.s3.object.size = 2 * 1024 * 1024 * 1024;
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(mockBucket.getObjectStream).toHaveBeenCalledWith('person-full/data.json');
+      expect(mockBucket.readObject).not.toHaveBeenCalled();
+      expect(result.action).toBe('renamed');
+      expect(result.recordCount).toBe(2);
+    });
+
+    it('should move large malformed files to errors with byte offset and record index', async () => {
+      mockBucket.getObjectStream.mockResolvedValue(Readable.from([
+        Buffer.from('{"rawData":[{"personid":"U1"},'),
+        Buffer.from('{"personid":U2}]}')
+      ]));
+      const record = createMockRecord('person-full/data.json');
+      record.s3.object.size = 2 * 1024 * 1024 * 1024;
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-validation');
+      expect(result.reason).toContain('byte offset 30, record index 1');
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+    });
+
+    it('should not read the object for subdirectories without a schema', async () => {
+      const record = createMockRecord('person-delta/data.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(mockBucket.readObject).not.toHaveBeenCalled();
+      expect(result.action).toBe('renamed');
+    });
+  });
+
+  describe('Test 9: Input format normalization', () => {
+    let written: Record<string, string>;
+
+    beforeEach(() => {
+      written = {};
+      bucketConfig.subdirectories[0].inputFormats = ['json', 'ndjson', 'csv', 'gzip'];
+      mockBucket.writeObject.mockImplementation(async (key, body) => {
+        let text = '';
+        for await (const chunk of body as Readable) {
+          text += chunk.toString();
+        }
+        written[key] = text;
+      });
+    });
+
+    const dropContent = (content: string | Buffer, contentType?: string) => {
+      mockBucket.getObjectInfo.mockResolvedValue({
+        size: content.length,
+        contentType,
+        metadata: { 'request-id': 'req-789' }
+      });
+      mockBucket.getObjectStream.mockResolvedValue(Readable.from([Buffer.from(content)]));
+    };
+
+    it('should convert CSV into the canonical envelope and keep the original next to it', async () => {
+      dropContent('personid,lastName\nU1,Doe\nU2,"Smith, Jr."\n');
+      const record = createMockRecord('person-full/people.csv');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      const normalizedKey = 'person-full/2026-02-22T10:30:00.000Z-people.normalized.json';
+      expect(JSON.parse(written[normalizedKey])).toEqual({
+        requestId: 'req-789',
+        timestamp: fixedTimestamp,
+        recordCount: 2,
+        rawData: [
+          { personid: 'U1', lastName: 'Doe' },
+          { personid: 'U2', lastName: 'Smith, Jr.' }
+        ]
+      });
+      expect(mockBucket.renameObject).toHaveBeenCalledWith(
+        'person-full/people.csv',
+        'person-full/2026-02-22T10:30:00.000Z-people.csv',
+        renameTags
+      );
+      expect(result.action).toBe('renamed');
+      expect(result.inputFormat).toBe('csv');
+      expect(result.newKey).toBe(normalizedKey);
+      expect(result.normalizedFrom).toBe('person-full/2026-02-22T10:30:00.000Z-people.csv');
+      expect(MockedSubscriber.mock.results[0].value.notify).toHaveBeenCalledWith(mockBucket, normalizedKey, undefined, expect.any(String));
+    });
+
+    it('should decompress gzip-compressed NDJSON detected from magic bytes and content', async () => {
+      dropContent(gzipSync('{"personid":"U1"}\n{"personid":"U2"}\n'));
+      const record = createMockRecord('person-full/extract.bin');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      const normalizedKey = 'person-full/2026-02-22T10:30:00.000Z-extract.normalized.json';
+      expect(result.inputFormat).toBe('ndjson+gzip');
+      expect(JSON.parse(written[normalizedKey]).rawData).toEqual([{ personid: 'U1' }, { personid: 'U2' }]);
+    });
+
+    it('should validate the normalized output against the schema', async () => {
+      bucketConfig.subdirectories[0].schema = 'person-envelope';
+      dropContent('{"personid":"U1"}\n{"name":"no id"}\n', 'application/x-ndjson');
+      const record = createMockRecord('person-full/extract.ndjson');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+      mockBucket.getObjectStream
+        .mockResolvedValueOnce(Readable.from([Buffer.from('{"personid":"U1"}\n{"name":"no id"}\n')]))
+        .mockImplementation(async key => Readable.from([Buffer.from(written[key])]));
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-validation');
+      expect(result.reason).toContain("/rawData/1 must have required property 'personid'");
+      expect(mockBucket.deleteObject).toHaveBeenCalledWith('person-full/2026-02-22T10:30:00.000Z-extract.normalized.json');
+      expect(mockBucket.moveToErrors).toHaveBeenCalledWith('person-full/extract.ndjson', 'person-full', expect.any(String), correlationTags, errorDetails);
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+    });
+
+    it('should keep the requestId of a compressed JSON envelope instead of the correlation id', async () => {
+      bucketConfig.subdirectories[0].schema = 'person-envelope';
+      const content = gzipSync('{"requestId":"req-envelope","rawData":[{"personid":"U1"}]}');
+      dropContent(content, 'application/json');
+      mockBucket.getObjectInfo.mockResolvedValue({ size: content.length, contentType: 'application/json', metadata: {} });
+      mockBucket.getObjectStream
+        .mockResolvedValueOnce(Readable.from([content]))
+        .mockImplementation(async key => Readable.from([Buffer.from(written[key])]));
+      const processor = new S3EventProcessor(createMockRecord('person-full/data.json.gz'), mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.inputFormat).toBe('json+gzip');
+      expect(result.requestId).toBe('req-envelope');
+      expect(result.correlationId).toBe('req-envelope');
+    });
+
+    it('should not record the id given to the envelope of NDJSON without request-id metadata as its requestId', async () => {
+      bucketConfig.subdirectories[0].schema = 'person-envelope';
+      dropContent('{"personid":"U1"}\n', 'application/x-ndjson');
+      mockBucket.getObjectInfo.mockResolvedValue({ size: 18, contentType: 'application/x-ndjson', metadata: {} });
+      mockBucket.getObjectStream
+        .mockResolvedValueOnce(Readable.from([Buffer.from('{"personid":"U1"}\n')]))
+        .mockImplementation(async key => Readable.from([Buffer.from(written[key])]));
+      const processor = new S3EventProcessor(createMockRecord('person-full/extract.ndjson'), mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      const normalizedKey = 'person-full/2026-02-22T10:30:00.000Z-extract.normalized.json';
+      expect(result.action).toBe('renamed');
+      expect(JSON.parse(written[normalizedKey]).requestId).toBe(result.correlationId);
+      expect(result.requestId).toBeUndefined();
+    });
+
+    it('should pass uncompressed JSON through without writing a normalized copy', async () => {
+      dropContent('{"rawData":[]}', 'application/json');
+      const record = createMockRecord('person-full/data.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(mockBucket.writeObject).not.toHaveBeenCalled();
+      expect(result.inputFormat).toBe('json');
+      expect(result.newKey).toBe('person-full/2026-02-22T10:30:00.000Z-data.json');
+      expect(result.normalizedFrom).toBeUndefined();
+    });
+
+    it('should move drops in formats the subdirectory does not accept to errors', async () => {
+      bucketConfig.subdirectories[0].inputFormats = ['json', 'csv'];
+      dropContent(gzipSync('a,b\n1,2\n'));
+      const record = createMockRecord('person-full/data.csv.gz');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-format');
+      expect(result.reason).toContain('Gzip-compressed input is not accepted');
+      expect(mockBucket.moveToErrors).toHaveBeenCalledWith('person-full/data.csv.gz', 'person-full', expect.any(String), correlationTags, errorDetails);
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+    });
+
+    it('should move drops that fail conversion to errors', async () => {
+      dropContent('{"personid":"U1"}\n{"personid":\n', 'application/x-ndjson');
+      const record = createMockRecord('person-full/broken.ndjson');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-format');
+      expect(result.reason).toContain('Malformed NDJSON at line 2');
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+    });
+
+    it('should give the error report the stack of the conversion error and the failed result', async () => {
+      dropContent('{"personid":"U1"}\n{"personid":\n', 'application/x-ndjson');
+      const processor = new S3EventProcessor(createMockRecord('person-full/broken.ndjson'), mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      const details = mockBucket.moveToErrors.mock.calls[0][4]!;
+      expect(details.stack).toContain('Malformed NDJSON at line 2');
+      expect(details.correlationId).toBe(result.correlationId);
+      expect(details.result).toEqual({ ...result, movedToErrors: undefined });
+    });
+  });
+
+  describe('Test 10: Multi-part drops with a completion manifest', () => {
+    const parts: Record<string, string> = {
+      'person-full/batch/part-1.json': JSON.stringify({ rawData: [{ personid: 'U1' }, { personid: 'U2' }] }),
+      'person-full/batch/part-2.json': JSON.stringify({ rawData: [{ personid: 'U3' }] })
+    };
+    const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+    const manifestFor = (overrides: Record<string, object> = {}) => JSON.stringify({
+      requestId: 'req-123',
+      parts: [
+        { key: 'part-1.json', recordCount: 2, sha256: sha256(parts['person-full/batch/part-1.json']), ...overrides['part-1.json'] },
+        { key: 'part-2.json', recordCount: 1, sha256: sha256(parts['person-full/batch/part-2.json']), ...overrides['part-2.json'] }
+      ]
+    });
+
+    beforeEach(() => {
+      bucketConfig.subdirectories[0].manifest = { timeoutMinutes: 60 };
+      mockBucket.objectExists.mockImplementation(async key => key in parts);
+      mockBucket.getObjectStream.mockImplementation(async key => Readable.from([Buffer.from(parts[key])]));
+    });
+
+    it('should hold parts without renaming or invoking the subscriber', async () => {
+      const record = createMockRecord('person-full/batch/part-1.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.success).toBe(true);
+      expect(result.action).toBe('held-for-manifest');
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+      expect(MockedSubscriber).not.toHaveBeenCalled();
+    });
+
+    it('should verify, rename and dispatch all parts once when the manifest arrives', async () => {
+      mockBucket.readObject.mockResolvedValue(manifestFor());
+      const record = createMockRecord('person-full/batch/_manifest.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      const newParts = [
+        'person-full/batch/2026-02-22T10:30:00.000Z-part-1.json',
+        'person-full/batch/2026-02-22T10:30:00.000Z-part-2.json'
+      ];
+      expect(result.success).toBe(true);
+      expect(result.action).toBe('assembled');
+      expect(result.newKey).toBe('person-full/batch/2026-02-22T10:30:00.000Z-_manifest.json');
+      expect(result.requestId).toBe('req-123');
+      expect(result.parts).toEqual(newParts);
+      expect(mockBucket.renameObject).toHaveBeenCalledTimes(3);
+      expect(MockedSubscriber).toHaveBeenCalledTimes(1);
+      expect(MockedSubscriber.mock.results[0].value.notify).toHaveBeenCalledWith(mockBucket, result.newKey, newParts, expect.any(String));
+    });
+
+    it('should move the manifest and present parts to errors when a part is missing', async () => {
+      mockBucket.readObject.mockResolvedValue(JSON.stringify({
+        parts: [{ key: 'part-1.json' }, { key: 'part-3.json' }]
+      }));
+      const record = createMockRecord('person-full/batch/_manifest.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-manifest');
+      expect(result.reason).toContain('Part "part-3.json" is missing');
+      expect(mockBucket.moveToErrors).toHaveBeenCalledWith('person-full/batch/_manifest.json', 'person-full', expect.any(String), correlationTags, errorDetails);
+      expect(mockBucket.moveToErrors).toHaveBeenCalledWith('person-full/batch/part-1.json', 'person-full', expect.any(String), correlationTags, errorDetails);
+      expect(mockBucket.moveToErrors).toHaveBeenCalledTimes(2);
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+      expect(MockedSubscriber).not.toHaveBeenCalled();
+    });
+
+    it('should reject parts whose checksum or record count does not match the manifest', async () => {
+      mockBucket.readObject.mockResolvedValue(manifestFor({
+        'part-1.json': { sha256: 'a'.repeat(64) },
+        'part-2.json': { recordCount: 5 }
+      }));
+      const record = createMockRecord('person-full/batch/_manifest.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-manifest');
+      expect(result.reason).toContain('Part "part-1.json" checksum mismatch');
+      expect(result.reason).toContain('Part "part-2.json" record count mismatch: manifest 5, actual 1');
+      expect(mockBucket.moveToErrors).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject malformed manifests', async () => {
+      mockBucket.readObject.mockResolvedValue('{"parts": []}');
+      const record = createMockRecord('person-full/batch/_manifest.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-manifest');
+      expect(result.reason).toContain('non-empty "parts" array');
+    });
+
+    it('should rename the parts back when a part cannot be renamed, so the drop can be retried', async () => {
+      mockBucket.readObject.mockResolvedValue(manifestFor());
+      mockBucket.renameObject.mockImplementation(async key => key !== 'person-full/batch/part-2.json');
+      mockBucket.getTags.mockResolvedValue({ 'correlation-id': 'req-123', 'drop-state': 'processed' });
+      const record = createMockRecord('person-full/batch/_manifest.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-rename');
+      expect(result.reason).toBe('Failed to rename part person-full/batch/part-2.json in S3, rolled back the renamed parts');
+      expect(isRetryable(result)).toBe(true);
+      expect(mockBucket.renameObject).toHaveBeenLastCalledWith('person-full/batch/2026-02-22T10:30:00.000Z-part-1.json', 'person-full/batch/part-1.json');
+      expect(mockBucket.putTags).toHaveBeenCalledWith('person-full/batch/part-1.json', { 'correlation-id': 'req-123' });
+      expect(mockBucket.moveToErrors).not.toHaveBeenCalled();
+      expect(MockedSubscriber).not.toHaveBeenCalled();
+    });
+
+    it('should move the whole set to errors when a renamed part cannot be renamed back', async () => {
+      mockBucket.readObject.mockResolvedValue(manifestFor());
+      mockBucket.renameObject.mockImplementation(async key => key === 'person-full/batch/part-1.json');
+      const record = createMockRecord('person-full/batch/_manifest.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-rename');
+      expect(result.movedToErrors).toBe(true);
+      expect(isRetryable(result)).toBe(false);
+      expect(mockBucket.moveToErrors.mock.calls.map(call => call[0])).toEqual([
+        'person-full/batch/_manifest.json',
+        'person-full/batch/2026-02-22T10:30:00.000Z-part-1.json',
+        'person-full/batch/part-2.json'
+      ]);
+      expect(MockedSubscriber).not.toHaveBeenCalled();
+    });
+
+    it('should move the whole set to errors when the subscriber invocation fails', async () => {
+      MockedSubscriber.mockImplementation(() => ({
+        notify: jest.fn().mockRejectedValue(new Error('Lambda invocation failed'))
+      }) as any);
+      mockBucket.readObject.mockResolvedValue(manifestFor());
+      const record = createMockRecord('person-full/batch/_manifest.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp);
+
+      const result = await processor.process();
+
+      expect(result.action).toBe('error-invoke');
+      expect(mockBucket.moveToErrors).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Test 11: Content-hash duplicate detection', () => {
+    const content = '{"rawData": [{"personid": "U1"}]}';
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    let hashLedger: InMemoryHashLedger;
+
+    beforeEach(() => {
+      hashLedger = new InMemoryHashLedger();
+      bucketConfig.subdirectories[0].duplicateWindowHours = 24;
+      mockBucket.getObjectStream.mockImplementation(async () => Readable.from([Buffer.from(content)]));
+    });
+
+    const processAt = (key: string, timestamp: string) => {
+      const processor = new S3EventProcessor(createMockRecord(key), mockBucket, () => timestamp, { hashLedger });
+      return processor.process();
+    };
+
+    it('should dispatch the first copy and record its hash', async () => {
+      const result = await processAt('person-full/data.json', fixedTimestamp);
+
+      expect(result.action).toBe('renamed');
+      expect(result.sha256).toBe(sha256);
+      expect(result.subscriberInvoked).toBe(true);
+      expect(hashLedger.getEntries()).toEqual([{
+        subdirectory: 'person-full',
+        sha256,
+        key: 'person-full/2026-02-22T10:30:00.000Z-data.json',
+        recordedAt: fixedTimestamp
+      }]);
+    });
+
+    it('should rename and tag an identical re-upload within the window without dispatching it', async () => {
+      await processAt('person-full/data.json', fixedTimestamp);
+      MockedSubscriber.mockClear();
+      mockBucket.renameObject.mockClear();
+
+      const result = await processAt('person-full/data-retry.json', '2026-02-22T12:00:00.000Z');
+
+      expect(result.success).toBe(true);
+      expect(result.action).toBe('skipped-duplicate');
+      expect(result.newKey).toBe('person-full/2026-02-22T12:00:00.000Z-data-retry.json');
+      expect(result.duplicateOf).toBe('person-full/2026-02-22T10:30:00.000Z-data.json');
+      expect(mockBucket.renameObject).toHaveBeenCalledWith(
+        'person-full/data-retry.json',
+        'person-full/2026-02-22T12:00:00.000Z-data-retry.json',
+        { 'duplicate-of': 'person-full/2026-02-22T10:30:00.000Z-data.json', sha256, ...renameTags }
+      );
+      expect(MockedSubscriber).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch identical content again once the window has passed', async () => {
+      await processAt('person-full/data.json', fixedTimestamp);
+
+      const result = await processAt('person-full/data.json', '2026-02-23T10:30:00.001Z');
+
+      expect(result.action).toBe('renamed');
+      expect(result.subscriberInvoked).toBe(true);
+    });
+
+    it('should treat the same content in another subdirectory as new', async () => {
+      bucketConfig.subdirectories[1].duplicateWindowHours = 24;
+      await processAt('person-full/data.json', fixedTimestamp);
+
+      const result = await processAt('person-delta/data.json', '2026-02-22T11:00:00.000Z');
+
+      expect(result.action).toBe('renamed');
+    });
+
+    it('should release the hash when processing fails so a re-upload is dispatched', async () => {
+      MockedSubscriber.mockImplementation(() => ({
+        notify: jest.fn().mockRejectedValue(new Error('Lambda invocation failed'))
+      }) as any);
+
+      const failed = await processAt('person-full/data.json', fixedTimestamp);
+
+      expect(failed.action).toBe('error-invoke');
+      expect(hashLedger.getEntries()).toEqual([]);
+    });
+
+    it('should process the file normally if the duplicate check fails', async () => {
+      jest.spyOn(hashLedger, 'claim').mockRejectedValue(new Error('ledger unavailable'));
+
+      const result = await processAt('person-full/data.json', fixedTimestamp);
+
+      expect(result.action).toBe('renamed');
+      expect(result.subscriberInvoked).toBe(true);
+      expect(result.sha256).toBeUndefined();
+    });
+
+    it('should not check for duplicates in subdirectories without a window', async () => {
+      await processAt('person-delta/data.json', fixedTimestamp);
+      const result = await processAt('person-delta/data.json', '2026-02-22T11:00:00.000Z');
+
+      expect(result.action).toBe('renamed');
+      expect(mockBucket.getObjectStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Test 12: Redelivered S3 events', () => {
+    let eventLedger: InMemoryEventLedger;
+
+    beforeEach(() => {
+      eventLedger = new InMemoryEventLedger();
+    });
+
+    const processRecord = (record: S3EventRecord) => {
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp, { eventLedger });
+      return processor.process();
+    };
+
+    it('should process the first delivery and skip a redelivery of the same event', async () => {
+      const record = createMockRecord('person-full/data.json');
+
+      const first = await processRecord(record);
+      const second = await processRecord(record);
+
+      expect(first.action).toBe('renamed');
+      expect(second.success).toBe(true);
+      expect(second.action).toBe('skipped-duplicate-event');
+      expect(mockBucket.renameObject).toHaveBeenCalledTimes(1);
+      expect(MockedSubscriber).toHaveBeenCalledTimes(1);
+      expect(eventLedger.getEntries()).toEqual([{
+        eventKey: 'test-bucket/person-full/data.json#123ABC',
+        eventName: 'ObjectCreated:Put',
+        receivedAt: fixedTimestamp
+      }]);
+    });
+
+    it('should process a new upload of the same key', async () => {
+      await processRecord(createMockRecord('person-full/data.json'));
+      const reupload = createMockRecord('person-full/data.json');
+      reupload.s3.object.sequencer = '123ABD';
+
+      const result = await processRecord(reupload);
+
+      expect(result.action).toBe('renamed');
+      expect(MockedSubscriber).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let a redelivery retry when the first attempt left the object in place', async () => {
+      mockBucket.renameObject.mockResolvedValueOnce(false);
+      const record = createMockRecord('person-full/data.json');
+
+      const first = await processRecord(record);
+      const second = await processRecord(record);
+
+      expect(first.action).toBe('error-rename');
+      expect(second.action).toBe('renamed');
+    });
+
+    it('should keep the claim when the first attempt moved the object to errors', async () => {
+      MockedSubscriber.mockImplementation(() => ({
+        notify: jest.fn().mockRejectedValue(new Error('Lambda invocation failed'))
+      }) as any);
+      const record = createMockRecord('person-full/data.json');
+
+      const first = await processRecord(record);
+      const second = await processRecord(record);
+
+      expect(first.action).toBe('error-invoke');
+      expect(second.action).toBe('skipped-duplicate-event');
+    });
+
+    it('should process the event if the ledger is unavailable', async () => {
+      jest.spyOn(eventLedger, 'claim').mockRejectedValue(new Error('ledger unavailable'));
+
+      const result = await processRecord(createMockRecord('person-full/data.json'));
+
+      expect(result.action).toBe('renamed');
+    });
+  });
+
+  describe('Test 13: Fan-out to multiple subscribers', () => {
+    const chunkerArn = 'arn:aws:lambda:us-east-2:123456789012:function:subscriber-full';
+    const auditArn = 'arn:aws:lambda:us-east-2:123456789012:function:audit';
+    let notifications: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      bucketConfig.subdirectories[0].subscribers = [
+        { lambdaArn: auditArn, executionRoleArn: 'arn:aws:iam::123456789012:role/audit-role' }
+      ];
+      notifications = {
+        [chunkerArn]: jest.fn().mockResolvedValue(undefined),
+        [auditArn]: jest.fn().mockResolvedValue(undefined)
+      };
+      MockedSubscriber.mockImplementation((config: SubscriberConfig) => ({ notify: notifications[getSubscriberTarget(config)] }));
+    });
+
+    const processFile = () => {
+      const processor = new S3EventProcessor(createMockRecord('person-full/data.json'), mockBucket, () => fixedTimestamp);
+      return processor.process();
+    };
+
+    it('should invoke every subscriber and report each outcome', async () => {
+      const result = await processFile();
+
+      expect(result.success).toBe(true);
+      expect(result.action).toBe('renamed');
+      expect(result.subscribers).toEqual([
+        { target: chunkerArn, invoked: true, attempts: 1 },
+        { target: auditArn, invoked: true, attempts: 1 }
+      ]);
+      expect(notifications[chunkerArn]).toHaveBeenCalledWith(mockBucket, 'person-full/2026-02-22T10:30:00.000Z-data.json', undefined, result.correlationId);
+      expect(notifications[auditArn]).toHaveBeenCalledWith(mockBucket, 'person-full/2026-02-22T10:30:00.000Z-data.json', undefined, result.correlationId);
+    });
+
+    it('should retry only the subscriber that failed', async () => {
+      notifications[auditArn].mockRejectedValueOnce(new Error('Rate exceeded'));
+
+      const result = await processFile();
+
+      expect(result.success).toBe(true);
+      expect(notifications[chunkerArn]).toHaveBeenCalledTimes(1);
+      expect(notifications[auditArn]).toHaveBeenCalledTimes(2);
+      expect(result.subscribers).toEqual([
+        { target: chunkerArn, invoked: true, attempts: 1 },
+        { target: auditArn, invoked: true, attempts: 2 }
+      ]);
+    });
+
+    it('should leave the file in place when only some subscribers fail', async () => {
+      notifications[auditArn].mockRejectedValue(new Error('Function not found'));
+
+      const result = await processFile();
+
+      expect(result.success).toBe(false);
+      expect(result.action).toBe('partial-invoke');
+      expect(result.subscriberInvoked).toBe(true);
+      expect(result.reason).toContain(`1 of 2 subscribers: ${auditArn}: Error: Function not found`);
+      expect(result.subscribers![1]).toEqual({
+        target: auditArn,
+        invoked: false,
+        attempts: 3,
+        error: 'Error: Function not found'
+      });
+      expect(mockBucket.moveToErrors).not.toHaveBeenCalled();
+    });
+
+    it('should move the file to errors when every subscriber fails', async () => {
+      notifications[chunkerArn].mockRejectedValue(new Error('Function not found'));
+      notifications[auditArn].mockRejectedValue(new Error('Function not found'));
+
+      const result = await processFile();
+
+      expect(result.action).toBe('error-invoke');
+      expect(mockBucket.moveToErrors).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify typed targets through the subscriber factory', async () => {
+      const queue = { type: 'sqs' as const, queueArn: 'arn:aws:sqs:us-east-2:123456789012:audit-queue' };
+      bucketConfig.subdirectories[0].subscribers = [queue];
+      notifications[queue.queueArn] = jest.fn().mockResolvedValue(undefined);
+
+      const result = await processFile();
+
+      expect(MockedSubscriber).toHaveBeenCalledWith(queue, undefined);
+      expect(result.subscribers).toEqual([
+        { target: chunkerArn, invoked: true, attempts: 1 },
+        { target: queue.queueArn, invoked: true, attempts: 1 }
+      ]);
+    });
+
+    it('should support subdirectories configured only with a subscribers list', async () => {
+      delete bucketConfig.subdirectories[0].subscriberLambdaArn;
+
+      const result = await processFile();
+
+      expect(result.subscribers).toEqual([{ target: auditArn, invoked: true, attempts: 1 }]);
+      expect(notifications[chunkerArn]).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Test 14: Synchronous invocation and retry backoff', () => {
+    let delays: number[];
+
+    beforeEach(() => {
+      delays = [];
+      jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, delay: number) => {
+        delays.push(delay);
+        callback();
+        return 0;
+      }) as any);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const processFile = () => {
+      const record = createMockRecord('person-full/data.json');
+      const processor = new S3EventProcessor(record, mockBucket, () => fixedTimestamp, { retryBaseDelayMs: 100 });
+      return processor.process();
+    };
+
+    it('should create Lambda subscribers with the subdirectory invocation mode', async () => {
+      bucketConfig.subdirectories[0].invocationMode = 'RequestResponse';
+
+      await processFile();
+
+      expect(MockedSubscriber).toHaveBeenCalledWith(
+        expect.objectContaining({ lambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber-full' }),
+        'RequestResponse'
+      );
+    });
+
+    it('should back off exponentially between attempts', async () => {
+      const notify = jest.fn()
+        .mockRejectedValueOnce(new Error('Subscriber Lambda failed with TypeError: boom'))
+        .mockRejectedValueOnce(new Error('Subscriber Lambda failed with TypeError: boom'))
+        .mockResolvedValueOnce(undefined);
+      MockedSubscriber.mockImplementation(() => ({ notify }));
+
+      const result = await processFile();
+
+      expect(result.success).toBe(true);
+      expect(notify).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([100, 200]);
+    });
+
+    it('should not retry a subscriber that failed permanently', async () => {
+      const notFound = Object.assign(new Error('Function not found'), {
+        name: 'ResourceNotFoundException',
+        $metadata: { httpStatusCode: 404 }
+      });
+      const notify = jest.fn().mockRejectedValue(notFound);
+      MockedSubscriber.mockImplementation(() => ({ notify }));
+
+      const result = await processFile();
+
+      expect(notify).toHaveBeenCalledTimes(1);
+      expect(delays).toEqual([]);
+      expect(result.action).toBe('error-invoke');
+    });
+
+    it("should move the file to errors with the subscriber's error once retries run out", async () => {
+      MockedSubscriber.mockImplementation(() => ({
+        notify: jest.fn().mockRejectedValue(new Error('Subscriber Lambda failed with TypeError: rawData is not iterable'))
+      }));
+
+      const result = await processFile();
+
+      expect(result.action).toBe('error-invoke');
+      expect(result.subscribers![0].attempts).toBe(3);
+      expect(mockBucket.moveToErrors).toHaveBeenCalledWith(
+        'person-full/2026-02-22T10:30:00.000Z-data.json',
+        'person-full',
+        expect.stringContaining('TypeError: rawData is not iterable'),
+        correlationTags,
+        errorDetails
+      );
+    });
+  });
+
+  describe('Test 15: Expected drops', () => {
+    let expectedDrops: InMemoryExpectedDropRegistry;
+
+    const envelope = (requestId: string) => JSON.stringify({ requestId, rawData: [{ personid: 'U12345678' }] });
+
+    const processRecord = (key: string) => {
+      const processor = new S3EventProcessor(createMockRecord(key), mockBucket, () => fixedTimestamp, { expectedDrops });
+      return processor.process();
+    };
+
+    beforeEach(async () => {
+      bucketConfig.subdirectories[0].schema = 'person-envelope';
+      expectedDrops = new InMemoryExpectedDropRegistry();
+      await expectedDrops.register({
+        subdirectory: 'person-full',
+        requestId: 'req-123',
+        deadline: '2026-02-22T12:00:00.000Z',
+        registeredAt: '2026-02-22T10:00:00.000Z'
+      });
+    });
+
+    it('should mark the registration fulfilled when a file with its requestId arrives', async () => {
+      mockBucket.readObject.mockResolvedValue(envelope('req-123'));
+
+      const result = await processRecord('person-full/data.json');
+
+      expect(result.fulfilledExpectedDrop).toBe(true);
+      expect(await expectedDrops.get('person-full', 'req-123')).toEqual(expect.objectContaining({
+        status: 'fulfilled',
+        fulfilledAt: fixedTimestamp,
+        fulfilledBy: result.newKey
+      }));
+    });
+
+    it('should count a file that failed validation as an arrival', async () => {
+      mockBucket.readObject.mockResolvedValue(JSON.stringify({ requestId: 'req-123', rawData: [{ name: 'no id' }] }));
+
+      const result = await processRecord('person-full/data.json');
+
+      expect(result.action).toBe('error-validation');
+      expect(result.fulfilledExpectedDrop).toBe(true);
+    });
+
+    it('should leave the registration pending when the file will be retried', async () => {
+      mockBucket.readObject.mockResolvedValue(envelope('req-123'));
+      mockBucket.renameObject.mockResolvedValue(false);
+
+      const result = await processRecord('person-full/data.json');
+
+      expect(result.action).toBe('error-rename');
+      expect(result.fulfilledExpectedDrop).toBeUndefined();
+      expect((await expectedDrops.get('person-full', 'req-123'))?.status).toBe('pending');
+    });
+
+    it('should process files nobody registered as usual', async () => {
+      mockBucket.readObject.mockResolvedValue(envelope('req-unregistered'));
+
+      const result = await processRecord('person-full/data.json');
+
+      expect(result.action).toBe('renamed');
+      expect(result.fulfilledExpectedDrop).toBe(false);
+    });
+
+    it('should not fail processing when the registry cannot be updated', async () => {
+      mockBucket.readObject.mockResolvedValue(envelope('req-123'));
+      jest.spyOn(expectedDrops, 'fulfil').mockRejectedValue(new Error('Throttled'));
+
+      const result = await processRecord('person-full/data.json');
+
+      expect(result.success).toBe(true);
+      expect(result.action).toBe('renamed');
+    });
+  });
+
+  describe('Test 16: Correlation id', () => {
+    const processFile = () => {
+      const processor = new S3EventProcessor(createMockRecord('person-full/data.json'), mockBucket, () => fixedTimestamp);
+      return processor.process();
+    };
+
+    it('should take the correlation id from the request-id metadata of the upload', async () => {
+      mockBucket.getObjectInfo.mockResolvedValue({ size: 1024, metadata: { 'request-id': 'req-meta' } });
+
+      const result = await processFile();
+
+      expect(result.correlationId).toBe('req-meta');
+      expect(result.requestId).toBe('req-meta');
+      expect(mockBucket.renameObject).toHaveBeenCalledWith(
+        'person-full/data.json',
+        'person-full/2026-02-22T10:30:00.000Z-data.json',
+        { 'correlation-id': 'req-meta', 'drop-state': 'processed' }
+      );
+      expect(MockedSubscriber.mock.results[0].value.notify).toHaveBeenCalledWith(mockBucket, result.newKey, undefined, 'req-meta');
+    });
+
+    it('should fall back to the envelope requestId', async () => {
+      bucketConfig.subdirectories[0].schema = 'person-envelope';
+      mockBucket.readObject.mockResolvedValue(JSON.stringify({ requestId: 'req-envelope', rawData: [{ personid: 'U1' }] }));
+
+      const result = await processFile();
+
+      expect(result.correlationId).toBe('req-envelope');
+      expect(mockBucket.renameObject).toHaveBeenCalledWith(expect.any(String), expect.any(String), { 'correlation-id': 'req-envelope', 'drop-state': 'processed' });
+    });
+
+    it('should generate a correlation id when the upload carries none, and tag error entries with it', async () => {
+      mockBucket.getObjectInfo.mockRejectedValue(new Error('NotFound'));
+      MockedSubscriber.mockImplementation(() => ({ notify: jest.fn().mockRejectedValue(new Error('Function not found')) }));
+
+      const result = await processFile();
+
+      expect(result.correlationId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(mockBucket.moveToErrors).toHaveBeenCalledWith(
+        result.newKey,
+        'person-full',
+        expect.any(String),
+        { 'correlation-id': result.correlationId },
+        errorDetails
+      );
+    });
+
+    it('should log the correlation id with every record once it is known', async () => {
+      mockBucket.getObjectInfo.mockResolvedValue({ size: 1024, metadata: { 'request-id': 'req-meta' } });
+      const logSpy = jest.spyOn(console, 'log');
+
+      await processFile();
+
+      const records = logSpy.mock.calls.map(([line]) => JSON.parse(line));
+      expect(records).toContainEqual(expect.objectContaining({
+        message: expect.stringMatching(/^Renaming person-full\/data.json/),
+        key: 'person-full/data.json',
+        subdirectory: 'person-full',
+        correlationId: 'req-meta'
+      }));
+      expect(records.find(record => record.message.startsWith('Processing object'))).not.toHaveProperty('correlationId');
+      logSpy.mockRestore();
+    });
+
+    it('should replace characters S3 does not accept in tag values', async () => {
+      mockBucket.getObjectInfo.mockResolvedValue({ size: 1024, metadata: { 'request-id': 'req#1?x' } });
+
+      await processFile();
+
+      expect(mockBucket.renameObject).toHaveBeenCalledWith(expect.any(String), expect.any(String), { 'correlation-id': 'req_1_x', 'drop-state': 'processed' });
+    });
+  });
+
+  describe('Test 17: Structured logs and metrics', () => {
+    let logSpy: jest.SpyInstance;
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    const logged = () => logSpy.mock.calls.map(([line]) => JSON.parse(line));
+    const metrics = () => logged().filter(record => record._aws);
+
+    const processKey = (key: string) => new S3EventProcessor(createMockRecord(key), mockBucket, () => fixedTimestamp).process();
+
+    it('should log the outcome with key, subdirectory, action and duration', async () => {
+      await processKey('person-full/data.json');
+
+      expect(logged()).toContainEqual(expect.objectContaining({
+        level: 'info',
+        message: 'Processed person-full/data.json: renamed',
+        key: 'person-full/data.json',
+        subdirectory: 'person-full',
+        action: 'renamed',
+        durationMs: expect.any(Number)
+      }));
+    });
+
+    it('should emit file metrics dimensioned by subdirectory', async () => {
+      await processKey('person-full/data.json');
+
+      const fileMetrics = metrics().find(record => 'FilesReceived' in record);
+      expect(fileMetrics).toMatchObject({
+        Subdirectory: 'person-full',
+        FilesReceived: 1,
+        FilesRenamed: 1,
+        FilesSkipped: 0,
+        FilesErrored: 0,
+        BytesProcessed: 1024
+      });
+      expect(fileMetrics._aws.CloudWatchMetrics[0]).toMatchObject({
+        Dimensions: [['Subdirectory']],
+        Metrics: expect.arrayContaining([{ Name: 'BytesProcessed', Unit: 'Bytes' }])
+      });
+    });
+
+    it('should count a file no subscriber could be invoked for as errored, and time every invocation', async () => {
+      MockedSubscriber.mockImplementation(() => ({ notify: jest.fn().mockRejectedValue(new Error('Function not found')) }));
+
+      const result = await new S3EventProcessor(createMockRecord('person-full/data.json'), mockBucket, () => fixedTimestamp, { retryBaseDelayMs: 0 }).process();
+
+      expect(metrics().find(record => 'FilesReceived' in record)).toMatchObject({ FilesRenamed: 1, FilesErrored: 1 });
+      const latencies = metrics().filter(record => 'SubscriberLatency' in record);
+      expect(latencies).toHaveLength(result.subscribers![0].attempts);
+      latencies.forEach(record => expect(record).toMatchObject({ Subdirectory: 'person-full', SubscriberLatency: expect.any(Number) }));
+    });
+
+    it('should not count files the processor renamed itself or that match no subdirectory', async () => {
+      await processKey('person-full/2026-02-22T10:30:00.000Z-data.json');
+      await processKey('elsewhere/data.json');
+
+      expect(metrics()).toEqual([]);
+    });
+  });
+
+  describe('Test 18: Named uploaders', () => {
+    let uploaders: IUploaderDirectory;
+
+    const processRecord = (key: string, principalId = 'AWS:AIDAFULL') => {
+      const record = createMockRecord(key);
+      record.userIdentity.principalId = principalId;
+      return new S3EventProcessor(record, mockBucket, () => fixedTimestamp, { uploaders }).process();
+    };
+
+    beforeEach(() => {
+      uploaders = new InMemoryUploaderDirectory({
+        AIDAFULL: { name: 'hr-system', subdirectories: ['person-full'] },
+        AROADELTA: { name: 'delta-feed', subdirectories: ['person-delta'] }
+      });
+    });
+
+    it('should record which uploader dropped the file', async () => {
+      const result = await processRecord('person-full/data.json');
+
+      expect(result.action).toBe('renamed');
+      expect(result.principalId).toBe('AWS:AIDAFULL');
+      expect(result.uploader).toBe('hr-system');
+    });
+
+    it('should identify uploaders assuming a role by the role id', async () => {
+      const result = await processRecord('person-delta/data.json', 'AWS:AROADELTA:upload-session');
+
+      expect(result.action).toBe('renamed');
+      expect(result.uploader).toBe('delta-feed');
+    });
+
+    it('should move files from uploaders not allowed in the subdirectory to errors', async () => {
+      const result = await processRecord('person-delta/data.json');
+
+      expect(result.success).toBe(false);
+      expect(result.action).toBe('error-unauthorized');
+      expect(result.uploader).toBe('hr-system');
+      expect(result.reason).toBe('Uploader hr-system is not allowed to write to person-delta');
+      expect(mockBucket.moveToErrors).toHaveBeenCalledWith(
+        'person-delta/data.json',
+        'person-delta',
+        expect.stringContaining('hr-system'),
+        correlationTags,
+        errorDetails
+      );
+      expect(mockBucket.renameObject).not.toHaveBeenCalled();
+      expect(MockedSubscriber).not.toHaveBeenCalled();
+    });
+
+    it('should process files from principals that are not named uploaders', async () => {
+      const result = await processRecord('person-delta/data.json', 'AWS:AIDAADMIN');
+
+      expect(result.action).toBe('renamed');
+      expect(result.principalId).toBe('AWS:AIDAADMIN');
+      expect(result.uploader).toBeUndefined();
+    });
+
+    it('should process the file when the uploaders cannot be identified', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      uploaders = { identify: jest.fn().mockRejectedValue(new Error('Throttled')) };
+
+      const result = await processRecord('person-delta/data.json');
+
+      expect(result.action).toBe('renamed');
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,207 @@
+import { LambdaClient } from '@aws-sdk/client-lambda';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { SNSClient } from '@aws-sdk/client-sns';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { SFNClient } from '@aws-sdk/client-sfn';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { IBucket } from '../src/event-processor/Bucket';
+import {
+  EventBridgeSubscriber,
+  SnsSubscriber,
+  SqsSubscriber,
+  StepFunctionsSubscriber,
+  Subscriber,
+  WebhookResponseError,
+  WebhookSubscriber,
+  createSubscriber
+} from '../src/event-processor/Subscriber';
+import { isTransientError } from '../src/event-processor/Retry';
+
+describe('Subscriber targets', () => {
+  const bucket = { getName: () => 'test-bucket' } as unknown as IBucket;
+  const key = 'person-full/2026-02-22T10:30:00.000Z-data.json';
+  const expectedPayload = {
+    s3Path: `s3://test-bucket/${key}`,
+    bucket: 'test-bucket',
+    key,
+    processingMetadata: {
+      processedAt: expect.any(String),
+      processorVersion: '1.0.0'
+    }
+  };
+
+  let send: jest.Mock;
+
+  beforeEach(() => {
+    send = jest.fn().mockResolvedValue({});
+  });
+
+  const sentInput = () => send.mock.calls[0][0].input;
+
+  it('should create a subscriber for each target type, defaulting to Lambda', () => {
+    expect(createSubscriber({ lambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:f', executionRoleArn: 'r' })).toBeInstanceOf(Subscriber);
+    expect(createSubscriber({ type: 'sqs', queueArn: 'arn:aws:sqs:us-east-2:123456789012:q' })).toBeInstanceOf(SqsSubscriber);
+    expect(createSubscriber({ type: 'sns', topicArn: 'arn:aws:sns:us-east-2:123456789012:t' })).toBeInstanceOf(SnsSubscriber);
+    expect(createSubscriber({ type: 'eventbridge', eventBusArn: 'arn:aws:events:us-east-2:123456789012:event-bus/b' })).toBeInstanceOf(EventBridgeSubscriber);
+    expect(createSubscriber({ type: 'stepfunctions', stateMachineArn: 'arn:aws:states:us-east-2:123456789012:stateMachine:s' })).toBeInstanceOf(StepFunctionsSubscriber);
+    expect(createSubscriber({ type: 'webhook', url: 'https://example.com/hook', signingSecretArn: 's' })).toBeInstanceOf(WebhookSubscriber);
+  });
+
+  it('should invoke a Lambda asynchronously with the payload', async () => {
+    const subscriber = new Subscriber('arn:aws:lambda:us-east-2:123456789012:function:f', { send } as unknown as LambdaClient);
+
+    await subscriber.notify(bucket, key, ['person-full/part-1.json']);
+
+    expect(sentInput().InvocationType).toBe('Event');
+    expect(JSON.parse(Buffer.from(sentInput().Payload).toString())).toEqual({
+      ...expectedPayload,
+      parts: [{ s3Path: 's3://test-bucket/person-full/part-1.json', key: 'person-full/part-1.json' }]
+    });
+  });
+
+  it('should include the correlation id in the payload', async () => {
+    const subscriber = new SqsSubscriber('arn:aws:sqs:us-east-2:123456789012:chunker', { send } as unknown as SQSClient);
+
+    await subscriber.notify(bucket, key, undefined, 'req-123');
+
+    expect(JSON.parse(sentInput().MessageBody)).toEqual({ ...expectedPayload, correlationId: 'req-123' });
+  });
+
+  describe('Lambda RequestResponse mode', () => {
+    const lambdaArn = 'arn:aws:lambda:us-east-2:123456789012:function:f';
+    const respond = (response: object) => send.mockResolvedValue({
+      StatusCode: 200,
+      ...response
+    });
+    const payloadOf = (value: unknown) => Buffer.from(JSON.stringify(value));
+
+    it('should invoke synchronously and accept a successful response', async () => {
+      respond({ Payload: payloadOf({ statusCode: 200 }) });
+      const subscriber = new Subscriber(lambdaArn, { send } as unknown as LambdaClient, 'RequestResponse');
+
+      await subscriber.notify(bucket, key);
+
+      expect(sentInput().InvocationType).toBe('RequestResponse');
+    });
+
+    it("should fail with the subscriber's error when the function errors", async () => {
+      respond({ FunctionError: 'Unhandled', Payload: payloadOf({ errorType: 'TypeError', errorMessage: 'rawData is not iterable' }) });
+      const subscriber = new Subscriber(lambdaArn, { send } as unknown as LambdaClient, 'RequestResponse');
+
+      await expect(subscriber.notify(bucket, key)).rejects.toThrow('Subscriber Lambda failed with TypeError: rawData is not iterable');
+    });
+
+    it('should fail when the subscriber returns an error status', async () => {
+      respond({ Payload: payloadOf({ statusCode: 422, body: 'Unknown person ids' }) });
+      const subscriber = new Subscriber(lambdaArn, { send } as unknown as LambdaClient, 'RequestResponse');
+
+      await expect(subscriber.notify(bucket, key)).rejects.toThrow('Subscriber Lambda returned status 422: Unknown person ids');
+    });
+
+    it('should not inspect the response of asynchronous invocations', async () => {
+      respond({ StatusCode: 202, FunctionError: 'Unhandled' });
+      const subscriber = new Subscriber(lambdaArn, { send } as unknown as LambdaClient);
+
+      await expect(subscriber.notify(bucket, key)).resolves.toBeUndefined();
+    });
+  });
+
+  it('should send the payload to the queue URL derived from the queue ARN', async () => {
+    const subscriber = new SqsSubscriber('arn:aws:sqs:us-east-2:123456789012:chunker', { send } as unknown as SQSClient);
+
+    await subscriber.notify(bucket, key);
+
+    expect(sentInput().QueueUrl).toBe('https://sqs.us-east-2.amazonaws.com/123456789012/chunker');
+    expect(JSON.parse(sentInput().MessageBody)).toEqual(expectedPayload);
+  });
+
+  it('should publish the payload to the topic', async () => {
+    const subscriber = new SnsSubscriber('arn:aws:sns:us-east-2:123456789012:drops', { send } as unknown as SNSClient);
+
+    await subscriber.notify(bucket, key);
+
+    expect(sentInput().TopicArn).toBe('arn:aws:sns:us-east-2:123456789012:drops');
+    expect(JSON.parse(sentInput().Message)).toEqual(expectedPayload);
+  });
+
+  it('should put an event with the payload as detail and fail on rejected entries', async () => {
+    const eventBusArn = 'arn:aws:events:us-east-2:123456789012:event-bus/integration';
+    const subscriber = new EventBridgeSubscriber({ type: 'eventbridge', eventBusArn }, { send } as unknown as EventBridgeClient);
+
+    await subscriber.notify(bucket, key);
+
+    const [entry] = sentInput().Entries;
+    expect(entry).toMatchObject({ EventBusName: eventBusArn, Source: 'file-drop', DetailType: 'File Dropped' });
+    expect(JSON.parse(entry.Detail)).toEqual(expectedPayload);
+
+    send.mockResolvedValue({ FailedEntryCount: 1, Entries: [{ ErrorCode: 'AccessDenied', ErrorMessage: 'Not authorized' }] });
+    await expect(subscriber.notify(bucket, key)).rejects.toThrow('EventBridge rejected the event: AccessDenied Not authorized');
+  });
+
+  it('should start a state machine execution with the payload as input', async () => {
+    const subscriber = new StepFunctionsSubscriber('arn:aws:states:us-east-2:123456789012:stateMachine:load', { send } as unknown as SFNClient);
+
+    await subscriber.notify(bucket, key);
+
+    expect(sentInput().stateMachineArn).toBe('arn:aws:states:us-east-2:123456789012:stateMachine:load');
+    expect(JSON.parse(sentInput().input)).toEqual(expectedPayload);
+  });
+
+  describe('WebhookSubscriber', () => {
+    const config = { type: 'webhook' as const, url: 'https://example.com/hook', signingSecretArn: 'arn:aws:secretsmanager:us-east-2:123456789012:secret:hook' };
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+      send.mockResolvedValue({ SecretString: 'shared-key' });
+      fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+    });
+
+    afterEach(() => {
+      fetchMock.mockRestore();
+    });
+
+    it('should POST the payload with an HMAC signature of the timestamp and body', async () => {
+      const subscriber = new WebhookSubscriber(config, { send } as unknown as SecretsManagerClient);
+
+      await subscriber.notify(bucket, key);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://example.com/hook');
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual(expectedPayload);
+      const timestamp = init.headers['X-Timestamp'];
+      expect(init.headers['X-Signature-256']).toBe(`sha256=${WebhookSubscriber.sign('shared-key', timestamp, init.body)}`);
+    });
+
+    it('should fail on a non-2xx response', async () => {
+      fetchMock.mockResolvedValue(new Response('nope', { status: 503, statusText: 'Service Unavailable' }));
+      const subscriber = new WebhookSubscriber(config, { send } as unknown as SecretsManagerClient);
+
+      await expect(subscriber.notify(bucket, key)).rejects.toThrow('Webhook responded with HTTP 503 Service Unavailable');
+    });
+
+    it.each([
+      [503, true],
+      [429, true],
+      [408, true],
+      [400, false],
+      [404, false],
+      [410, false]
+    ])('should classify a %i response as transient: %s', async (status, transient) => {
+      fetchMock.mockResolvedValue(new Response(null, { status }));
+      const subscriber = new WebhookSubscriber(config, { send } as unknown as SecretsManagerClient);
+
+      const error = await subscriber.notify(bucket, key).catch(error => error);
+
+      expect(error).toBeInstanceOf(WebhookResponseError);
+      expect(isTransientError(error)).toBe(transient);
+    });
+
+    it('should refuse plain HTTP endpoints', async () => {
+      const subscriber = new WebhookSubscriber({ ...config, url: 'http://example.com/hook' }, { send } as unknown as SecretsManagerClient);
+
+      await expect(subscriber.notify(bucket, key)).rejects.toThrow('must use HTTPS');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { BucketConfig } from '../context/IContext';
+import { IBucket } from '../src/event-processor/Bucket';
+import { InMemoryEventLedger } from '../src/event-processor/EventLedger';
+import { ProcessingResult, S3EventProcessor } from '../src/event-processor/S3EventProcessor';
+import { Sweeper, toSweepRecord } from '../src/event-processor/Sweeper';
+
+jest.mock('../src/event-processor/Subscriber', () => {
+  return {
+    createSubscriber: jest.fn().mockImplementation(() => {
+      return {
+        notify: jest.fn().mockResolvedValue(true)
+      };
+    })
+  };
+});
+
+describe('Sweeper', () => {
+  const now = new Date('2026-02-22T12:00:00.000Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+  let mockBucket: jest.Mocked<IBucket>;
+  let bucketConfig: BucketConfig;
+  let processRecord: jest.Mock<Promise<ProcessingResult>>;
+
+  beforeEach(() => {
+    bucketConfig = {
+      name: 'test-bucket',
+      subdirectories: [
+        {
+          path: 'person-full',
+          objectLifetimeDays: 7,
+          subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber-full',
+          subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role'
+        },
+        {
+          path: 'person-parts',
+          objectLifetimeDays: 3,
+          manifest: { timeoutMinutes: 60 },
+          subscriberLambdaArn: 'arn:aws:lambda:us-east-2:123456789012:function:subscriber-parts',
+          subscriberLambdaExecutionRoleArn: 'arn:aws:iam::123456789012:role/subscriber-role'
+        }
+      ]
+    };
+
+    mockBucket = {
+      getConfig: jest.fn().mockReturnValue(bucketConfig),
+      getName: jest.fn().mockReturnValue('test-bucket'),
+      readObject: jest.fn(),
+      getObjectStream: jest.fn(),
+      getObjectInfo: jest.fn().mockResolvedValue({ size: 10, metadata: {} }),
+      objectExists: jest.fn(),
+      listObjects: jest.fn().mockImplementation(async (prefix: string) => prefix === 'person-full/'
+        ? [
+          { key: 'person-full/data.json', size: 10, lastModified: minutesAgo(90), eTag: '"abc123"' },
+          { key: 'person-full/nested/more data.json', size: 20, lastModified: minutesAgo(61), eTag: '"def456"' },
+          { key: 'person-full/in-flight.json', size: 10, lastModified: minutesAgo(5) },
+          { key: 'person-full/2026-02-22T10:00:00.000Z-done.json', size: 10, lastModified: minutesAgo(120) },
+          { key: 'person-full/errors/2026-02-22T09:00:00.000Z-bad.json', size: 10, lastModified: minutesAgo(180) },
+          { key: 'person-full/errors/unprefixed.json', size: 10, lastModified: minutesAgo(180) }
+        ]
+        : [
+          { key: 'person-parts/part-1.json', size: 10, lastModified: minutesAgo(90) },
+          { key: 'person-parts/_manifest.json', size: 10, lastModified: minutesAgo(90) }
+        ]),
+      writeObject: jest.fn(),
+      deleteObject: jest.fn(),
+      renameObject: jest.fn().mockResolvedValue(true),
+      moveToErrors: jest.fn().mockResolvedValue(true),
+      getTags: jest.fn().mockResolvedValue({}),
+      putTags: jest.fn().mockResolvedValue(undefined),
+      restoreObject: jest.fn().mockResolvedValue(undefined)
+    };
+
+    processRecord = jest.fn().mockImplementation(async record => ({
+      success: true,
+      action: 'renamed',
+      originalKey: decodeURIComponent(record.s3.object.key.replace(/\+/g, ' ')),
+      newKey: 'person-full/2026-02-22T12:00:00.000Z-data.json'
+    }));
+  });
+
+  it('should process only unprocessed files older than the minimum age, and manifests in manifest subdirectories', async () => {
+    const sweeper = new Sweeper(mockBucket, 60, processRecord, () => now);
+
+    const results = await sweeper.sweep();
+
+    expect(mockBucket.listObjects).toHaveBeenCalledWith('person-full/');
+    expect(mockBucket.listObjects).toHaveBeenCalledWith('person-parts/');
+    expect(results).toEqual([
+      {
+        subdirectory: 'person-full',
+        found: ['person-full/data.json', 'person-full/nested/more data.json'],
+        recovered: ['person-full/data.json', 'person-full/nested/more data.json'],
+        failed: [],
+        unresolved: []
+      },
+      {
+        subdirectory: 'person-parts',
+        found: ['person-parts/_manifest.json'],
+        recovered: ['person-parts/_manifest.json'],
+        failed: [],
+        unresolved: []
+      }
+    ]);
+  });
+
+  it('should report files left in place after a failed attempt, or whose processing threw', async () => {
+    processRecord
+      .mockResolvedValueOnce({ success: false, action: 'error-rename', originalKey: 'person-full/data.json' })
+      .mockRejectedValueOnce(new Error('Access denied'));
+    const sweeper = new Sweeper(mockBucket, 60, processRecord, () => now);
+
+    const [result] = await sweeper.sweep();
+
+    expect(result).toEqual({
+      subdirectory: 'person-full',
+      found: ['person-full/data.json', 'person-full/nested/more data.json'],
+      recovered: [],
+      failed: ['person-full/data.json', 'person-full/nested/more data.json'],
+      unresolved: []
+    });
+  });
+
+  it('should count files moved to errors as recovered', async () => {
+    processRecord.mockResolvedValueOnce({ success: false, action: 'error-validation', originalKey: 'person-full/data.json', movedToErrors: true });
+    const sweeper = new Sweeper(mockBucket, 60, processRecord, () => now);
+
+    const [result] = await sweeper.sweep();
+
+    expect(result.recovered).toContain('person-full/data.json');
+    expect(result.failed).toEqual([]);
+  });
+
+  it('should report and log files the event processor left in place without failing', async () => {
+    processRecord.mockResolvedValueOnce({ success: true, action: 'skipped-duplicate-event', originalKey: 'person-full/data.json', reason: 'Event already handled' });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const sweeper = new Sweeper(mockBucket, 60, processRecord, () => now);
+
+    const [result] = await sweeper.sweep();
+
+    expect(result.unresolved).toEqual(['person-full/data.json']);
+    expect(result.recovered).toEqual(['person-full/nested/more data.json']);
+    expect(result.failed).toEqual([]);
+    expect(JSON.parse(errorSpy.mock.calls[0][0])).toMatchObject({
+      level: 'error',
+      key: 'person-full/data.json',
+      action: 'skipped-duplicate-event',
+      reason: 'Event already handled'
+    });
+    errorSpy.mockRestore();
+  });
+
+  it('should build the S3 event record S3 would have delivered', () => {
+    const record = toSweepRecord('test-bucket', {
+      key: 'person-full/nested/more data.json',
+      size: 20,
+      lastModified: minutesAgo(61),
+      eTag: '"def456"'
+    });
+
+    expect(record.eventTime).toBe('2026-02-22T10:59:00.000Z');
+    expect(record.s3.bucket.name).toBe('test-bucket');
+    expect(record.s3.object).toEqual({
+      key: 'person-full%2Fnested%2Fmore+data.json',
+      size: 20,
+      eTag: 'def456',
+      sequencer: ''
+    });
+  });
+
+  it('should run stragglers through the event processor', async () => {
+    const eventLedger = new InMemoryEventLedger();
+    const sweeper = new Sweeper(mockBucket, 60, record =>
+      new S3EventProcessor(record, mockBucket, () => '2026-02-22T12:00:00.000Z', { eventLedger }).process(), () => now);
+
+    const [result] = await sweeper.sweep();
+
+    expect(result.recovered).toEqual(['person-full/data.json', 'person-full/nested/more data.json']);
+    expect(mockBucket.renameObject).toHaveBeenCalledWith(
+      'person-full/nested/more data.json',
+      'person-full/nested/2026-02-22T12:00:00.000Z-more data.json',
+      expect.any(Object)
+    );
+  });
+});
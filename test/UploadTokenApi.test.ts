@@ -0,0 +1,91 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { UploadTokenApi } from '../src/event-processor/UploadTokenApi';
+
+describe('UploadTokenApi', () => {
+  const now = new Date('2026-02-22T10:00:00.000Z');
+  // Presigning happens locally, these credentials never reach AWS
+  const s3Client = new S3Client({
+    region: 'us-east-2',
+    credentials: { accessKeyId: 'AKIAEXAMPLE', secretAccessKey: 'example-secret' }
+  });
+  let api: UploadTokenApi;
+
+  const post = (body: object | string) => api.handle({
+    httpMethod: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  } as unknown as APIGatewayProxyEvent);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    api = new UploadTokenApi('test-bucket', ['person-full', 'person-delta'], { expiresInSeconds: 600, maxSizeBytes: 1024 }, s3Client, () => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should issue a pre-signed PUT URL bound to the key, content type and length', async () => {
+    const response = await post({ subdirectory: 'person-full', filename: 'data.json', contentType: 'application/json', contentLength: 512 });
+
+    expect(response.statusCode).toBe(201);
+    const token = JSON.parse(response.body);
+    expect(token).toMatchObject({
+      method: 'PUT',
+      key: 'person-full/data.json',
+      expiresAt: '2026-02-22T10:10:00.000Z',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': '512' }
+    });
+
+    const url = new URL(token.url);
+    expect(url.hostname).toBe('test-bucket.s3.us-east-2.amazonaws.com');
+    expect(url.pathname).toBe('/person-full/data.json');
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('600');
+    expect(url.searchParams.get('X-Amz-SignedHeaders')).toBe('content-length;content-type;host');
+  });
+
+  it('should issue a pre-signed POST policy with content type and size conditions', async () => {
+    const response = await post({ subdirectory: 'person-delta', filename: 'data.csv', contentType: 'text/csv', method: 'POST' });
+
+    expect(response.statusCode).toBe(201);
+    const token = JSON.parse(response.body);
+    expect(token.method).toBe('POST');
+    expect(token.url).toBe('https://test-bucket.s3.us-east-2.amazonaws.com/');
+    expect(token.fields).toMatchObject({ key: 'person-delta/data.csv', 'Content-Type': 'text/csv', bucket: 'test-bucket' });
+
+    const policy = JSON.parse(Buffer.from(token.fields.Policy, 'base64').toString());
+    expect(policy.conditions).toEqual(expect.arrayContaining([
+      ['content-length-range', 1, 1024],
+      ['eq', '$Content-Type', 'text/csv'],
+      { key: 'person-delta/data.csv' }
+    ]));
+  });
+
+  it('should reject invalid requests', async () => {
+    const valid = { subdirectory: 'person-full', filename: 'data.json', contentType: 'application/json', contentLength: 512 };
+    const cases = [
+      'not json',
+      'null',
+      { ...valid, subdirectory: 'unknown' },
+      { ...valid, filename: 'nested/data.json' },
+      { ...valid, filename: '..' },
+      { ...valid, filename: '2026-02-22T10:30:00.000Z-data.json' },
+      { ...valid, contentType: 'application/octet-stream' },
+      { ...valid, method: 'DELETE' },
+      { ...valid, contentLength: undefined },
+      { ...valid, contentLength: '512' },
+      { ...valid, contentLength: 2048 },
+      { ...valid, method: 'POST', contentLength: 2048 }
+    ];
+
+    for (const body of cases) {
+      expect((await post(body)).statusCode).toBe(400);
+    }
+  });
+
+  it('should only accept POST requests', async () => {
+    const response = await api.handle({ httpMethod: 'GET' } as unknown as APIGatewayProxyEvent);
+
+    expect(response.statusCode).toBe(405);
+  });
+});
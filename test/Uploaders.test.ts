@@ -0,0 +1,73 @@
+import { GetRoleCommand, GetUserCommand, IAMClient } from '@aws-sdk/client-iam';
+import { IamUploaderDirectory, findUploaderByArn, getUniqueId } from '../src/event-processor/Uploaders';
+
+describe('Uploaders', () => {
+  describe('getUniqueId', () => {
+    it('should strip the AWS prefix and the session name', () => {
+      expect(getUniqueId('AWS:AIDAEXAMPLE')).toBe('AIDAEXAMPLE');
+      expect(getUniqueId('AWS:AROAEXAMPLE:upload-session')).toBe('AROAEXAMPLE');
+      expect(getUniqueId('AIDAEXAMPLE')).toBe('AIDAEXAMPLE');
+    });
+  });
+
+  describe('findUploaderByArn', () => {
+    const identities = [
+      { name: 'hr-system', subdirectories: ['person-full'], userName: 'hr-system-user' },
+      { name: 'partner', subdirectories: ['person-delta'], roleName: 'partner-role' }
+    ];
+
+    it('should find uploaders by the ARN of their user, with or without an IAM path', () => {
+      expect(findUploaderByArn(identities, 'arn:aws:iam::123456789012:user/hr-system-user'))
+        .toEqual({ name: 'hr-system', subdirectories: ['person-full'] });
+      expect(findUploaderByArn(identities, 'arn:aws:iam::123456789012:user/integrations/hr-system-user')?.name).toBe('hr-system');
+    });
+
+    it('should find uploaders by the ARN of a session of their role', () => {
+      expect(findUploaderByArn(identities, 'arn:aws:sts::123456789012:assumed-role/partner-role/session-1')?.name).toBe('partner');
+    });
+
+    it('should not find other principals', () => {
+      expect(findUploaderByArn(identities, 'arn:aws:iam::123456789012:user/administrator')).toBeUndefined();
+      expect(findUploaderByArn(identities, 'arn:aws:iam::123456789012:root')).toBeUndefined();
+      expect(findUploaderByArn(identities, '')).toBeUndefined();
+    });
+  });
+
+  describe('IamUploaderDirectory', () => {
+    let iamSend: jest.Mock;
+    let directory: IamUploaderDirectory;
+
+    beforeEach(() => {
+      iamSend = jest.fn(async (command: any) => {
+        if (command instanceof GetUserCommand) {
+          return { User: { UserName: command.input.UserName, UserId: 'AIDAHR' } };
+        }
+        if (command instanceof GetRoleCommand) {
+          return { Role: { RoleName: command.input.RoleName, RoleId: 'AROADELTA' } };
+        }
+        return {};
+      });
+      directory = new IamUploaderDirectory([
+        { name: 'hr-system', subdirectories: ['person-full'], userName: 'file-drop-hr-system-service-user-dev' },
+        { name: 'delta-feed', subdirectories: ['person-delta'], roleName: 'delta-feed-uploader' }
+      ], { send: iamSend } as unknown as IAMClient);
+    });
+
+    it('should identify users and roles by their unique ids, looking them up once', async () => {
+      expect(await directory.identify('AWS:AIDAHR')).toEqual({ name: 'hr-system', subdirectories: ['person-full'] });
+      expect(await directory.identify('AWS:AROADELTA:session')).toEqual({ name: 'delta-feed', subdirectories: ['person-delta'] });
+      expect(await directory.identify('AWS:AIDAOTHER')).toBeUndefined();
+
+      expect(iamSend).toHaveBeenCalledTimes(2);
+      expect(iamSend.mock.calls[0][0].input).toEqual({ UserName: 'file-drop-hr-system-service-user-dev' });
+      expect(iamSend.mock.calls[1][0].input).toEqual({ RoleName: 'delta-feed-uploader' });
+    });
+
+    it('should look the ids up again after a failure', async () => {
+      iamSend.mockRejectedValueOnce(new Error('Throttled'));
+
+      await expect(directory.identify('AWS:AIDAHR')).rejects.toThrow('Throttled');
+      expect((await directory.identify('AWS:AIDAHR'))?.name).toBe('hr-system');
+    });
+  });
+});
@@ -5,6 +5,7 @@ import { handler } from '../src/event-processor/index';
 jest.mock('../src/event-processor/Bucket');
 jest.mock('../src/event-processor/S3EventProcessor', () => {
   return {
+    isRetryable: jest.requireActual('../src/event-processor/S3EventProcessor').isRetryable,
     S3EventProcessor: jest.fn().mockImplementation(() => {
       return {
         process: jest.fn().mockResolvedValue({
@@ -142,13 +143,11 @@ describe('Lambda Handler - Bucket Name Validation', () => {
       await freshHandler(event, mockContext);
       
       // Should have logged an error
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error processing record:',
-        expect.any(Error)
-      );
+      const logged = JSON.parse(consoleErrorSpy.mock.calls[0][0]);
+      expect(logged).toMatchObject({ level: 'error', message: 'Error processing record' });
       
       // The error message should indicate bucket mismatch
-      const errorArg = consoleErrorSpy.mock.calls[0][1];
+      const errorArg = logged.error;
       expect(errorArg.message).toContain('Bucket name mismatch');
       expect(errorArg.message).toContain(eventBucketName);
       expect(errorArg.message).toContain(configBucketName);
@@ -170,7 +169,7 @@ describe('Lambda Handler - Bucket Name Validation', () => {
       
       await freshHandler(event, mockContext);
       
-      const errorArg = consoleErrorSpy.mock.calls[0][1];
+      const errorArg = JSON.parse(consoleErrorSpy.mock.calls[0][0]).error;
       expect(errorArg.message).toContain('deployment issue');
       expect(errorArg.message).toContain('BUCKET_CONFIG environment variable');
       
@@ -202,12 +201,12 @@ describe('Lambda Handler - Bucket Name Validation', () => {
       await freshHandler(event, mockContext);
       
       // First record should error with mismatch
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error processing record:',
-        expect.objectContaining({
+      expect(JSON.parse(consoleErrorSpy.mock.calls[0][0])).toMatchObject({
+        message: 'Error processing record',
+        error: {
           message: expect.stringContaining('Bucket name mismatch')
-        })
-      );
+        }
+      });
       
       // Second record should process successfully
       expect(S3EventProcessor).toHaveBeenCalledTimes(1);  // Only called for matching bucket
@@ -251,10 +250,53 @@ describe('Lambda Handler - Bucket Name Validation', () => {
       await freshHandler(event, mockContext);
       
       expect(consoleErrorSpy).toHaveBeenCalled();
-      const errorArg = consoleErrorSpy.mock.calls[0][1];
+      const errorArg = JSON.parse(consoleErrorSpy.mock.calls[0][0]).error;
       expect(errorArg.message).toContain('mismatch');
       
       consoleErrorSpy.mockRestore();
     });
   });
+
+  describe('Retrying files left in place', () => {
+    it('should fail the invocation when a file was left unprocessed so Lambda retries the event', async () => {
+      const bucketName = 'huron-person-file-drop-dev';
+      process.env.BUCKET_CONFIG = JSON.stringify({ name: bucketName, subdirectories: [] });
+
+      jest.resetModules();
+      const { handler: freshHandler } = require('../src/event-processor/index');
+      const { S3EventProcessor } = require('../src/event-processor/S3EventProcessor');
+      S3EventProcessor.mockImplementationOnce(() => ({
+        process: jest.fn().mockResolvedValue({
+          success: false,
+          action: 'error-rename',
+          originalKey: 'person-full/test.json'
+        })
+      }));
+
+      const event = createMockS3Event(bucketName, 'person-full/test.json');
+
+      await expect(freshHandler(event, mockContext)).rejects.toThrow('1 file(s) left unprocessed after a failed attempt, retrying the event: person-full/test.json');
+    });
+
+    it('should not retry files that were moved to errors', async () => {
+      const bucketName = 'huron-person-file-drop-dev';
+      process.env.BUCKET_CONFIG = JSON.stringify({ name: bucketName, subdirectories: [] });
+
+      jest.resetModules();
+      const { handler: freshHandler } = require('../src/event-processor/index');
+      const { S3EventProcessor } = require('../src/event-processor/S3EventProcessor');
+      S3EventProcessor.mockImplementationOnce(() => ({
+        process: jest.fn().mockResolvedValue({
+          success: false,
+          action: 'error-validation',
+          originalKey: 'person-full/test.json',
+          movedToErrors: true
+        })
+      }));
+
+      const event = createMockS3Event(bucketName, 'person-full/test.json');
+
+      await expect(freshHandler(event, mockContext)).resolves.toBeUndefined();
+    });
+  });
 });